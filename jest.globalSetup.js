@@ -0,0 +1,4 @@
+// Date utilities work in the browser's local time; pin tests to the club's timezone
+module.exports = async () => {
+  process.env.TZ = "Asia/Manila";
+};
@@ -6,6 +6,9 @@ import { reaction, runInAction } from "mobx";
 import { authStore } from "./stores/AuthStore";
 import { socketStore } from "./stores/SocketStore";
 import { userStore } from "./stores/UserStore";
+import { sessionStore } from "./stores/SessionStore";
+import { policyStore } from "./stores/PolicyStore";
+import { notificationStore } from "./stores/NotificationStore";
 import Navbar from "./components/Navbar";
 import { useIdleTimeout } from "./hooks/useIdleTimeout";
 import { printConsoleWelcome, warmupServer } from "./utils/consoleUtils";
@@ -32,6 +35,12 @@ const CoachPage = lazy(() => import("./pages/CoachPage"));
 const ForgotPasswordPage = lazy(() => import("./pages/ForgotPasswordPage"));
 const ResetPasswordPage = lazy(() => import("./pages/ResetPasswordPage"));
 const SettingsPage = lazy(() => import("./pages/SettingsPage"));
+const SessionDetailPage = lazy(() => import("./pages/SessionDetailPage"));
+const TournamentsPage = lazy(() => import("./pages/TournamentsPage"));
+const TournamentDetailPage = lazy(() => import("./pages/TournamentDetailPage"));
+const LaddersPage = lazy(() => import("./pages/LaddersPage"));
+const LadderDetailPage = lazy(() => import("./pages/LadderDetailPage"));
+const NotificationsPage = lazy(() => import("./pages/NotificationsPage"));
 
 // Protected route component using MobX auth store
 interface ProtectedRouteProps {
@@ -263,11 +272,18 @@ const App: React.FC = observer(() => {
           // Only load profile if session is checked to prevent duplicate loads
           if (data.sessionChecked) {
             userStore.loadProfile();
+            // Sign-up checks run from any page, so the policy can't wait for VenuesPage
+            policyStore.loadForCurrentUser();
+          }
+          if (authStore.user) {
+            notificationStore.load(authStore.user.id);
           }
         } else {
           // Disconnect socket and clear profile when not authenticated
           socketStore.disconnect();
           userStore.clearProfile();
+          policyStore.clearStrikes();
+          notificationStore.clear();
         }
       },
       { fireImmediately: true }
@@ -301,6 +317,27 @@ const App: React.FC = observer(() => {
             </div>
           </div>
         )}
+        {sessionStore.waitlistPromotion && (
+          <div
+            className="mx-auto max-w-3xl mt-3 px-4"
+            role="status"
+            aria-live="polite"
+          >
+            <div className="rounded-md border border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-900/30 px-4 py-3 flex items-center justify-between gap-3">
+              <p className="text-sm text-green-900 dark:text-green-100">
+                A spot opened up! You've been moved from the waitlist into{" "}
+                {sessionStore.waitlistPromotion.session.title || "your session"}.
+              </p>
+              <button
+                type="button"
+                onClick={() => sessionStore.dismissWaitlistPromotion()}
+                className="shrink-0 rounded-md bg-green-600 text-white text-sm px-3 py-1.5 hover:bg-green-700"
+              >
+                Got it
+              </button>
+            </div>
+          </div>
+        )}
         <Suspense fallback={<LoadingSpinner />}>
           <Routes>
           {/* Public Routes */}
@@ -315,6 +352,7 @@ const App: React.FC = observer(() => {
           <Route path="/about" element={<AboutPage />} />
           <Route path="/contact" element={<ContactPage />} />
           <Route path="/profile/:userId" element={<UserProfilePage />} />
+          <Route path="/sessions/:sessionId" element={<SessionDetailPage />} />
           <Route path="/superadmin/login" element={<SuperAdminLogin />} />
           <Route path="/forgot-password" element={<ForgotPasswordPage />} />
           <Route path="/reset-password" element={<ResetPasswordPage />} />
@@ -352,6 +390,46 @@ const App: React.FC = observer(() => {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/tournaments"
+            element={
+              <ProtectedRoute>
+                <TournamentsPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/tournaments/:tournamentId"
+            element={
+              <ProtectedRoute>
+                <TournamentDetailPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/ladders"
+            element={
+              <ProtectedRoute>
+                <LaddersPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/ladders/:ladderId"
+            element={
+              <ProtectedRoute>
+                <LadderDetailPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/notifications"
+            element={
+              <ProtectedRoute>
+                <NotificationsPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/settings"
             element={
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { sessionStore } from "../../stores/SessionStore";
+import { buildSessionsCalendar, downloadIcs } from "../../utils/icsUtils";
+
+/**
+ * CalendarSync - Subscribe to or download the current user's sessions
+ */
+const CalendarSync: React.FC = observer(() => {
+  const [copied, setCopied] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const feedUrl = sessionStore.calendarFeedUrl;
+  // Calendar apps subscribe to webcal:// links and poll them for changes
+  const webcalUrl = feedUrl?.replace(/^https?:\/\//, "webcal://");
+
+  useEffect(() => {
+    sessionStore.fetchCalendarFeedUrl();
+  }, []);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    setDownloadError(null);
+    const sessions = await sessionStore.fetchMySessions();
+    if (sessions) {
+      downloadIcs("my-pickleball-sessions", buildSessionsCalendar(sessions, "My Pickleball Sessions"));
+    } else {
+      setDownloadError("Couldn't load your sessions. Please try again.");
+    }
+    setDownloading(false);
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy feed URL:", error);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm("Existing calendar subscriptions will stop updating. Create a new link?")) return;
+    await sessionStore.fetchCalendarFeedUrl(true);
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-800">
+      <h3 className="font-medium text-gray-900 dark:text-gray-100">Add to your calendar</h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 mb-3">
+        Subscribe once and your phone calendar stays in sync as you join, leave, or sessions change.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {webcalUrl && (
+          <a
+            href={webcalUrl}
+            className="px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700"
+          >
+            Subscribe
+          </a>
+        )}
+        {feedUrl && (
+          <button
+            onClick={handleCopy}
+            className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            {copied ? "Copied!" : "Copy feed URL"}
+          </button>
+        )}
+        <button
+          onClick={handleDownload}
+          disabled={downloading}
+          className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          {downloading ? "Preparing..." : "Download .ics"}
+        </button>
+      </div>
+
+      {downloadError && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{downloadError}</p>
+      )}
+
+      {feedUrl && (
+        <button
+          onClick={handleRegenerate}
+          className="mt-3 text-xs text-gray-500 dark:text-gray-400 hover:underline"
+        >
+          Reset subscription link
+        </button>
+      )}
+    </div>
+  );
+});
+
+export default CalendarSync;
@@ -0,0 +1,285 @@
+import React, { useEffect, useRef, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Club, ClubFormData, clubStore } from "../../stores/ClubStore";
+import { authStore } from "../../stores/AuthStore";
+import ImageCropper from "../ImageCropper";
+import { useImageUpload } from "../../hooks/useImageUpload";
+import { containsProfanity, getProfanityErrorMessage } from "../../utils/profanityFilter";
+import { containsDangerousPatterns, sanitizeFormInput } from "../../utils/securityUtils";
+
+const NAME_MAX = 60;
+const DESCRIPTION_MAX = 500;
+
+interface ClubFormModalProps {
+  // Club to edit; omit to create a new one
+  club?: Club;
+  onClose: () => void;
+  onSaved?: (club: Club | null) => void;
+}
+
+interface FormErrors {
+  name?: string;
+  description?: string;
+}
+
+const validate = (name: string, description: string): FormErrors => {
+  const errors: FormErrors = {};
+
+  if (name.trim().length < 3) {
+    errors.name = "Name must be at least 3 characters";
+  } else if (name.length > NAME_MAX) {
+    errors.name = `Name must be less than ${NAME_MAX} characters`;
+  } else if (containsProfanity(name)) {
+    errors.name = getProfanityErrorMessage();
+  } else if (containsDangerousPatterns(name)) {
+    errors.name = "Name contains invalid characters";
+  }
+
+  if (!description.trim()) {
+    errors.description = "Tell players what your club is about";
+  } else if (description.length > DESCRIPTION_MAX) {
+    errors.description = `Description must be less than ${DESCRIPTION_MAX} characters`;
+  } else if (containsProfanity(description)) {
+    errors.description = getProfanityErrorMessage();
+  } else if (containsDangerousPatterns(description)) {
+    errors.description = "Description contains invalid characters";
+  }
+
+  return errors;
+};
+
+/**
+ * ClubFormModal - Create or edit a club, including a cropped logo
+ */
+const ClubFormModal: React.FC<ClubFormModalProps> = observer(({ club, onClose, onSaved }) => {
+  const isEdit = !!club;
+  const [name, setName] = useState(club?.name || "");
+  const [description, setDescription] = useState(club?.description || "");
+  const [requiresApproval, setRequiresApproval] = useState(!!club?.requiresApproval);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [logoPreview, setLogoPreview] = useState<string | null>(club?.logo || null);
+  const [tempLogo, setTempLogo] = useState<string | null>(null);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [submitError, setSubmitError] = useState("");
+  const [saving, setSaving] = useState(false);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const { uploadImage } = useImageUpload();
+
+  // Release the object URL for a cropped logo that was never saved
+  useEffect(() => {
+    return () => {
+      if (logoPreview && logoPreview.startsWith("blob:")) URL.revokeObjectURL(logoPreview);
+    };
+  }, [logoPreview]);
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      setTempLogo(URL.createObjectURL(e.target.files[0]));
+    }
+    e.target.value = "";
+  };
+
+  const handleCancelCrop = () => {
+    if (tempLogo) URL.revokeObjectURL(tempLogo);
+    setTempLogo(null);
+  };
+
+  const handleSaveCrop = (canvas: HTMLCanvasElement) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        setLogoFile(new File([blob], "club-logo.png", { type: "image/png" }));
+        setLogoPreview(URL.createObjectURL(blob));
+      }
+      handleCancelCrop();
+    }, "image/png");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError("");
+
+    const validation = validate(name, description);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+
+    setSaving(true);
+    try {
+      const data: ClubFormData = {
+        name: sanitizeFormInput(name.trim(), NAME_MAX),
+        description: sanitizeFormInput(description.trim(), DESCRIPTION_MAX),
+        requiresApproval,
+      };
+
+      if (logoFile) {
+        data.logo = await uploadImage(logoFile, "club-logos");
+      }
+
+      if (isEdit && club) {
+        const success = await clubStore.updateClub(club._id, data);
+        if (!success) {
+          setSubmitError(clubStore.error || "Failed to update club");
+          return;
+        }
+        onSaved?.(clubStore.currentClub);
+      } else {
+        const created = await clubStore.createClub(data);
+        if (!created) {
+          setSubmitError(clubStore.error || "Failed to create club");
+          return;
+        }
+        onSaved?.(created);
+      }
+      onClose();
+    } catch (error) {
+      console.error("Failed to save club:", error);
+      setSubmitError("Couldn't upload the logo. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full p-2.5 border rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {isEdit ? "Edit Club" : "Create a Club"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto">
+          {submitError && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {submitError}
+            </div>
+          )}
+
+          {/* Logo */}
+          <div className="flex items-center gap-4">
+            {logoPreview ? (
+              <img
+                src={logoPreview}
+                alt="Club logo"
+                className="w-20 h-20 rounded-full object-cover border-2 border-gray-200 dark:border-gray-700"
+              />
+            ) : (
+              <div className="w-20 h-20 rounded-full bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center text-brand-600 dark:text-brand-400 font-bold text-xl">
+                {(name || "?").substring(0, 2).toUpperCase()}
+              </div>
+            )}
+            <div>
+              <button
+                type="button"
+                onClick={() => logoInputRef.current?.click()}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                {logoPreview ? "Change logo" : "Upload logo"}
+              </button>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Optional. Square images work best.</p>
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/*"
+                onChange={handleLogoChange}
+                className="hidden"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={NAME_MAX}
+              className={`${inputClass} ${errors.name ? "border-red-500" : "border-gray-300 dark:border-gray-600"}`}
+            />
+            {errors.name && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.name}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={DESCRIPTION_MAX}
+              rows={4}
+              className={`${inputClass} ${errors.description ? "border-red-500" : "border-gray-300 dark:border-gray-600"}`}
+            />
+            <div className="flex justify-between mt-1">
+              {errors.description ? (
+                <p className="text-sm text-red-600 dark:text-red-400">{errors.description}</p>
+              ) : (
+                <span />
+              )}
+              <span className="text-xs text-gray-400">
+                {description.length}/{DESCRIPTION_MAX}
+              </span>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={requiresApproval}
+              onChange={(e) => setRequiresApproval(e.target.checked)}
+              className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+            />
+            Require approval to join
+          </label>
+
+          {!isEdit && !authStore.isAdmin && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              New clubs are reviewed by an admin before they appear in the club directory.
+              You'll be the club's owner once it's approved.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-lg font-medium text-white bg-brand-600 hover:bg-brand-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : isEdit ? "Save Changes" : "Submit Club"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {tempLogo && (
+        <ImageCropper
+          imageSrc={tempLogo}
+          aspectRatio={1}
+          width={250}
+          height={250}
+          borderRadius={125}
+          onSave={handleSaveCrop}
+          onCancel={handleCancelCrop}
+        />
+      )}
+    </div>
+  );
+});
+
+export default ClubFormModal;
@@ -0,0 +1,58 @@
+import React from "react";
+import { Club } from "../../stores/ClubStore";
+
+export interface ClubSessionValue {
+  clubId: string;
+  membersOnly: boolean;
+}
+
+interface ClubSessionFieldsProps {
+  clubs: Club[];
+  value: ClubSessionValue;
+  onChange: (value: ClubSessionValue) => void;
+}
+
+const inputClass =
+  "w-full p-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100";
+
+/**
+ * ClubSessionFields - Optional club host and members-only toggle for the session forms
+ */
+const ClubSessionFields: React.FC<ClubSessionFieldsProps> = ({ clubs, value, onChange }) => {
+  if (clubs.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        Hosting Club (Optional)
+      </label>
+      <select
+        value={value.clubId}
+        onChange={(e) =>
+          onChange({ clubId: e.target.value, membersOnly: e.target.value ? value.membersOnly : false })
+        }
+        className={inputClass}
+      >
+        <option value="">No club - public session</option>
+        {clubs.map((club) => (
+          <option key={club._id} value={club._id}>
+            {club.name}
+          </option>
+        ))}
+      </select>
+      {value.clubId && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={value.membersOnly}
+            onChange={(e) => onChange({ ...value, membersOnly: e.target.checked })}
+            className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+          />
+          Members only - hide from the public venues list and limit sign-ups to club members
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ClubSessionFields;
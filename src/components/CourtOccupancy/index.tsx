@@ -0,0 +1,55 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import type { Session } from "../../stores/SessionStore";
+import type { Court } from "../../stores/VenueStore";
+import { getCourtOccupancy } from "../../utils/courtUtils";
+import { formatTime } from "../../utils/sessionUtils";
+
+interface CourtOccupancyProps {
+  venueId: string;
+  courts: Court[];
+  sessions: Session[];
+}
+
+/**
+ * CourtOccupancy - Today's use of each court at a venue: in use now, next up, or free
+ */
+const CourtOccupancy: React.FC<CourtOccupancyProps> = ({ venueId, courts, sessions }) => {
+  if (courts.length === 0) return null;
+
+  const occupancy = getCourtOccupancy(venueId, courts, sessions);
+
+  return (
+    <ul className="space-y-1">
+      {occupancy.map(({ court, current, next }) => (
+        <li key={court.id} className="flex items-center justify-between gap-2 text-xs">
+          <span className="flex items-center gap-1.5 font-medium text-gray-700 dark:text-gray-300">
+            <span
+              className={`w-2 h-2 rounded-full ${current ? "bg-red-500" : "bg-green-500"}`}
+            />
+            {court.name}
+          </span>
+          {current ? (
+            <Link
+              to={`/sessions/${current._id}`}
+              className="truncate text-red-600 dark:text-red-400 hover:underline"
+            >
+              {current.title || "In use"} until {formatTime(current.endTime)}
+            </Link>
+          ) : next ? (
+            <Link
+              to={`/sessions/${next._id}`}
+              className="truncate text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              Free · next {formatTime(next.startTime)}
+            </Link>
+          ) : (
+            <span className="text-green-600 dark:text-green-400">Free today</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default CourtOccupancy;
@@ -0,0 +1,64 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { venueStore, COURT_SURFACE_LABELS } from "../../stores/VenueStore";
+import { describeCourtFeatures } from "../../utils/courtUtils";
+
+interface CourtPickerProps {
+  venueId: string;
+  value: string[];
+  onChange: (courtIds: string[]) => void;
+}
+
+/**
+ * CourtPicker - Reserve specific courts for a session; none selected books the whole venue
+ */
+const CourtPicker: React.FC<CourtPickerProps> = observer(({ venueId, value, onChange }) => {
+  const courts = venueStore.getCourts(venueId);
+
+  if (!venueId || courts.length === 0) return null;
+
+  const toggleCourt = (courtId: string) => {
+    onChange(value.includes(courtId) ? value.filter((id) => id !== courtId) : [...value, courtId]);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        Courts
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className={`px-3 py-1.5 rounded-lg border text-sm ${
+            value.length === 0
+              ? "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400"
+              : "border-gray-300 dark:border-gray-700 text-gray-600 dark:text-gray-400"
+          }`}
+        >
+          Whole venue
+        </button>
+        {courts.map((court) => (
+          <button
+            key={court.id}
+            type="button"
+            onClick={() => toggleCourt(court.id)}
+            title={describeCourtFeatures(court, COURT_SURFACE_LABELS[court.surface])}
+            className={`px-3 py-1.5 rounded-lg border text-sm ${
+              value.includes(court.id)
+                ? "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400"
+                : "border-gray-300 dark:border-gray-700 text-gray-600 dark:text-gray-400"
+            }`}
+          >
+            {court.name}
+          </button>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        Reserve specific courts to run other sessions at this venue at the same time.
+      </p>
+    </div>
+  );
+});
+
+export default CourtPicker;
@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Session, SessionAttendee } from "../../stores/SessionStore";
+import { rotationStore } from "../../stores/RotationStore";
+import { CourtMatch, RotationRound } from "../../utils/courtRotation";
+import Avatar from "../Avatar";
+
+interface CourtRotationBoardProps {
+  session: Session;
+  canManage: boolean;
+  // Shows a "Record score" action on each court that's currently playing
+  onRecordMatch?: (match: CourtMatch) => void;
+}
+
+interface RoundViewProps {
+  round: RotationRound;
+  players: Map<string, SessionAttendee>;
+  highlight?: boolean;
+  onRecordMatch?: (match: CourtMatch) => void;
+}
+
+const PlayerChip: React.FC<{ player?: SessionAttendee }> = ({ player }) => (
+  <div className="flex items-center gap-1.5 min-w-0">
+    <Avatar src={player?.photoURL} name={player?.displayName} size="xs" />
+    <span className="text-sm truncate">{player?.displayName || "Player"}</span>
+  </div>
+);
+
+const RoundView: React.FC<RoundViewProps> = ({ round, players, highlight = false, onRecordMatch }) => (
+  <div className="space-y-3">
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {round.matches.map((match) => (
+        <div
+          key={match.court}
+          className={`rounded-lg border p-3 ${
+            highlight
+              ? "border-green-300 dark:border-green-800 bg-green-50 dark:bg-green-900/10"
+              : "border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+          }`}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400">
+              Court {match.court}
+            </p>
+            {onRecordMatch && (
+              <button
+                onClick={() => onRecordMatch(match)}
+                className="text-xs text-green-600 dark:text-green-400 hover:underline"
+              >
+                Record score
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+            <div className="space-y-1">
+              {match.teamA.map((id) => (
+                <PlayerChip key={id} player={players.get(id)} />
+              ))}
+            </div>
+            <span className="text-xs font-bold text-gray-400">VS</span>
+            <div className="space-y-1">
+              {match.teamB.map((id) => (
+                <PlayerChip key={id} player={players.get(id)} />
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+    {round.sittingOut.length > 0 && (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Sitting out:{" "}
+        {round.sittingOut.map((id) => players.get(id)?.displayName || "Player").join(", ")}
+      </p>
+    )}
+  </div>
+);
+
+/**
+ * CourtRotationBoard - Live "now playing / up next" board for doubles open play
+ */
+const CourtRotationBoard: React.FC<CourtRotationBoardProps> = observer(({ session, canManage, onRecordMatch }) => {
+  const rotation = rotationStore.rotations[session._id];
+  const [courtCount, setCourtCount] = useState(rotation?.courtCount || 2);
+  const players = new Map(session.attendees.map((a) => [a._id, a]));
+  const eligibleCount = rotationStore.getRotationPlayers(session).length;
+
+  if (!rotation) {
+    return (
+      <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-6 text-center">
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-1">Court Rotation</h3>
+        {canManage ? (
+          <>
+            {rotationStore.error && (
+              <p className="mb-3 text-sm text-red-600 dark:text-red-400">{rotationStore.error}</p>
+            )}
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Generate doubles games for {eligibleCount} players. Partners and opponents are mixed up
+              round by round, rated players are balanced by skill, and sit-outs are shared evenly.
+            </p>
+            <div className="flex items-center justify-center gap-3">
+              <label className="text-sm text-gray-700 dark:text-gray-300">Courts</label>
+              <input
+                type="number"
+                value={courtCount}
+                onChange={(e) => setCourtCount(parseInt(e.target.value) || 1)}
+                min={1}
+                max={12}
+                className="w-20 p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
+              />
+              <button
+                onClick={() => rotationStore.startRotation(session._id, courtCount)}
+                disabled={rotationStore.loading || eligibleCount < 4}
+                className="px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 font-medium text-sm disabled:opacity-50"
+              >
+                {rotationStore.loading ? "Starting..." : "Start Rotation"}
+              </button>
+            </div>
+            {eligibleCount < 4 && (
+              <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+                At least 4 players are needed for doubles.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            The coach hasn't started the court rotation yet.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const current = rotation.rounds[rotation.currentRound];
+  const upNext = rotation.rounds[rotation.currentRound + 1];
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+          Court Rotation · Round {current.number}
+        </h3>
+        {canManage && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => rotationStore.reshuffleNext(session._id)}
+              disabled={rotationStore.loading}
+              className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Reshuffle Next
+            </button>
+            <button
+              onClick={() => rotationStore.advanceRound(session._id)}
+              disabled={rotationStore.loading}
+              className="px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+            >
+              Next Round
+            </button>
+          </div>
+        )}
+      </div>
+
+      {canManage && rotationStore.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{rotationStore.error}</p>
+      )}
+
+      <section>
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-green-600 dark:text-green-400 mb-2">
+          Now playing
+        </h4>
+        <RoundView round={current} players={players} highlight onRecordMatch={onRecordMatch} />
+      </section>
+
+      {upNext && (
+        <section>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-amber-600 dark:text-amber-400 mb-2">
+            Up next
+          </h4>
+          <RoundView round={upNext} players={players} />
+        </section>
+      )}
+
+      {canManage && (
+        <div className="text-right">
+          <button
+            onClick={() => rotationStore.endRotation(session._id)}
+            className="text-xs text-red-600 dark:text-red-400 hover:underline"
+          >
+            End rotation
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default CourtRotationBoard;
@@ -0,0 +1,88 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Car, Footprints, Navigation } from "lucide-react";
+import { locationStore } from "../../stores/LocationStore";
+import { formatDistance } from "../../utils/geoUtils";
+import {
+  estimateTravel,
+  formatTravelTime,
+  getDirectionsLinks,
+  getLeaveBy,
+} from "../../utils/directionsUtils";
+
+interface DirectionsPanelProps {
+  latitude: number;
+  longitude: number;
+  // Session start, to suggest when to leave
+  startsAt?: Date;
+  // Just the distance and travel time, without the app links
+  compact?: boolean;
+}
+
+/**
+ * DirectionsPanel - Distance and ETA from the user's location plus links into map apps
+ */
+const DirectionsPanel: React.FC<DirectionsPanelProps> = observer(
+  ({ latitude, longitude, startsAt, compact = false }) => {
+    const location = locationStore.location;
+    const estimate = location ? estimateTravel(location, { latitude, longitude }) : null;
+    const leaveBy = estimate && startsAt && startsAt > new Date() ? getLeaveBy(startsAt, estimate) : null;
+    const ModeIcon = estimate?.mode === "walking" ? Footprints : Car;
+
+    const summary = estimate && (
+      <p className={`flex items-center gap-1.5 text-gray-600 dark:text-gray-400 ${compact ? "text-xs" : "text-sm"}`}>
+        <ModeIcon className={compact ? "w-3.5 h-3.5" : "w-4 h-4"} />
+        {formatDistance(estimate.km)} · about {formatTravelTime(estimate.minutes)}
+        {estimate.mode === "walking" ? " on foot" : " by car"}
+      </p>
+    );
+
+    if (compact) return summary || null;
+
+    return (
+      <div className="space-y-3">
+        {summary || (
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <span>Share your location to see distance and travel time.</span>
+            <button
+              onClick={() => locationStore.requestDeviceLocation()}
+              disabled={locationStore.locating}
+              className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+            >
+              {locationStore.locating ? "Locating..." : "Use my location"}
+            </button>
+          </div>
+        )}
+        {leaveBy && (
+          <p className="text-sm font-medium text-amber-700 dark:text-amber-400">
+            Leave by {leaveBy.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })} to arrive on time
+          </p>
+        )}
+        {locationStore.error && !estimate && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">{locationStore.error}</p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {getDirectionsLinks({ latitude, longitude }).map((link) => (
+            <a
+              key={link.app}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <Navigation className="w-4 h-4" />
+              {link.label}
+            </a>
+          ))}
+        </div>
+        {estimate && (
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            Straight-line estimate; check your map app for live traffic.
+          </p>
+        )}
+      </div>
+    );
+  }
+);
+
+export default DirectionsPanel;
@@ -5,7 +5,7 @@ import { authStore } from "../../stores/AuthStore";
 import Avatar from "../Avatar";
 import { userStore } from "../../stores/UserStore";
 import ImageCropper from "../ImageCropper";
-import axios from "axios";
+import { useImageUpload } from "../../hooks/useImageUpload";
 
 interface EditProfileProps {
   open: boolean;
@@ -36,6 +36,8 @@ const EditProfile: React.FC<EditProfileProps> = observer(
     );
     const [tempCoverPhoto, setTempCoverPhoto] = useState<string | null>(null);
 
+    const { uploadImage } = useImageUpload();
+
     const profileInputRef = useRef<HTMLInputElement>(null);
     const coverInputRef = useRef<HTMLInputElement>(null);
 
@@ -172,32 +174,6 @@ const EditProfile: React.FC<EditProfileProps> = observer(
       }
     };
 
-    // Update uploadImage function to accept folder parameter
-    const uploadImage = async (file: File, folder: string): Promise<string> => {
-      const signRes = await axios.post("/uploads/sign", {
-        folder: folder,  // "profile-photos" or "cover-photos"
-      });
-
-      const { timestamp, signature, api_key, cloud_name } = signRes.data;
-
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("api_key", api_key);
-      formData.append("timestamp", String(timestamp));
-      formData.append("signature", signature);
-      if (folder) formData.append("folder", folder);
-
-      const uploadUrl = `https://api.cloudinary.com/v1_1/${cloud_name}/image/upload`;
-      const response = await fetch(uploadUrl, { method: "POST", body: formData });
-
-      if (!response.ok) {
-        throw new Error("Failed to upload image to Cloudinary");
-      }
-
-      const data = await response.json();
-      return data.secure_url as string;
-    };
-
     // Update handleSave to use correct folder for each upload type
     const handleSave = async () => {
       setLoading(true);
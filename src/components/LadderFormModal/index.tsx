@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { LADDER_FORMAT_LABELS, Ladder, LadderFormData, LadderFormat, ladderStore } from "../../stores/LadderStore";
+import { containsProfanity, getProfanityErrorMessage } from "../../utils/profanityFilter";
+import { containsDangerousPatterns, sanitizeFormInput } from "../../utils/securityUtils";
+
+const NAME_MAX = 80;
+const DESCRIPTION_MAX = 1000;
+
+interface LadderFormModalProps {
+  // Ladder to edit; omit to create a new one
+  ladder?: Ladder;
+  onClose: () => void;
+  onSaved?: (ladder: Ladder | null) => void;
+}
+
+/**
+ * LadderFormModal - Create a challenge ladder or change its rules
+ */
+const LadderFormModal: React.FC<LadderFormModalProps> = observer(({ ladder, onClose, onSaved }) => {
+  const isEdit = !!ladder;
+  const [name, setName] = useState(ladder?.name || "");
+  const [description, setDescription] = useState(ladder?.description || "");
+  const [format, setFormat] = useState<LadderFormat>(ladder?.format || "singles");
+  const [challengeRange, setChallengeRange] = useState(ladder?.challengeRange || 3);
+  const [challengeDays, setChallengeDays] = useState(ladder?.challengeDays || 7);
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (name.trim().length < 3) {
+      setError("Name must be at least 3 characters");
+      return;
+    }
+    if (containsProfanity(name) || containsProfanity(description)) {
+      setError(getProfanityErrorMessage());
+      return;
+    }
+    if (containsDangerousPatterns(name) || containsDangerousPatterns(description)) {
+      setError("Ladder details contain invalid characters");
+      return;
+    }
+    if (challengeRange < 1 || challengeDays < 1) {
+      setError("Challenge range and time limit must be at least 1");
+      return;
+    }
+
+    const data: LadderFormData = {
+      name: sanitizeFormInput(name.trim(), NAME_MAX),
+      description: sanitizeFormInput(description.trim(), DESCRIPTION_MAX),
+      format,
+      challengeRange,
+      challengeDays,
+    };
+
+    setSaving(true);
+    try {
+      if (isEdit && ladder) {
+        const success = await ladderStore.updateLadder(ladder._id, data);
+        if (!success) {
+          setError(ladderStore.error || "Failed to update ladder");
+          return;
+        }
+        onSaved?.(ladderStore.getLadder(ladder._id) || null);
+      } else {
+        const created = await ladderStore.createLadder(data);
+        if (!created) {
+          setError(ladderStore.error || "Failed to create ladder");
+          return;
+        }
+        onSaved?.(created);
+      }
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full p-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500";
+  const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {isEdit ? "Edit Ladder" : "New Ladder"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={NAME_MAX}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={DESCRIPTION_MAX}
+              rows={3}
+              placeholder="Who can join, where matches are played..."
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as LadderFormat)}
+              disabled={isEdit}
+              className={`${inputClass} disabled:opacity-60`}
+            >
+              {(Object.keys(LADDER_FORMAT_LABELS) as LadderFormat[]).map((key) => (
+                <option key={key} value={key}>
+                  {LADDER_FORMAT_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Challenge up to (places)</label>
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={challengeRange}
+                onChange={(e) => setChallengeRange(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Days to play a challenge</label>
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={challengeDays}
+                onChange={(e) => setChallengeDays(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-lg font-medium text-white bg-brand-600 hover:bg-brand-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : isEdit ? "Save Changes" : "Create Ladder"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+export default LadderFormModal;
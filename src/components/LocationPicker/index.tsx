@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Crosshair, MapPin } from "lucide-react";
+import { locationStore } from "../../stores/LocationStore";
+import { venueStore } from "../../stores/VenueStore";
+import { hasCoordinates, parseCoordinates } from "../../utils/geoUtils";
+
+/**
+ * LocationPicker - Use the device position, or fall back to a venue or typed coordinates
+ */
+const LocationPicker: React.FC = observer(() => {
+  const [showManual, setShowManual] = useState(false);
+  const [coordinates, setCoordinates] = useState("");
+  const [manualError, setManualError] = useState("");
+  const { location, locating, error } = locationStore;
+  const landmarks = venueStore.venues.filter(hasCoordinates);
+
+  const handleUseDevice = async () => {
+    const success = await locationStore.requestDeviceLocation();
+    if (!success) setShowManual(true);
+  };
+
+  const handleCoordinates = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseCoordinates(coordinates);
+    if (!parsed) {
+      setManualError("Enter coordinates as latitude, longitude (e.g. 14.5995, 120.9842)");
+      return;
+    }
+    locationStore.setManualLocation(parsed);
+    setManualError("");
+    setCoordinates("");
+    setShowManual(false);
+  };
+
+  const handleLandmark = (venueId: string) => {
+    const venue = landmarks.find((v) => v.id === venueId);
+    if (!venue) return;
+    locationStore.setManualLocation(
+      { latitude: venue.latitude, longitude: venue.longitude },
+      `Near ${venue.name}`
+    );
+    setShowManual(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+          <MapPin className="w-4 h-4" />
+          {location
+            ? location.label || (location.source === "device" ? "Your current location" : "Custom location")
+            : "Location not set"}
+        </span>
+        <button
+          onClick={handleUseDevice}
+          disabled={locating}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+        >
+          <Crosshair className="w-4 h-4" />
+          {locating ? "Locating..." : "Use my location"}
+        </button>
+        <button
+          onClick={() => setShowManual(!showManual)}
+          className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+        >
+          Set manually
+        </button>
+        {location && (
+          <button
+            onClick={() => locationStore.clearLocation()}
+            className="text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-amber-600 dark:text-amber-400">{error}</p>}
+
+      {showManual && (
+        <div className="flex flex-col sm:flex-row gap-2 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+          {landmarks.length > 0 && (
+            <select
+              defaultValue=""
+              onChange={(e) => handleLandmark(e.target.value)}
+              className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+            >
+              <option value="" disabled>
+                I'm near a venue...
+              </option>
+              {landmarks.map((venue) => (
+                <option key={venue.id} value={venue.id}>
+                  {venue.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <form onSubmit={handleCoordinates} className="flex flex-1 gap-2">
+            <input
+              type="text"
+              value={coordinates}
+              onChange={(e) => setCoordinates(e.target.value)}
+              placeholder="Latitude, longitude"
+              className="flex-1 p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+            />
+            <button
+              type="submit"
+              className="px-3 py-2 rounded-lg bg-gray-700 text-white text-sm hover:bg-gray-800"
+            >
+              Set
+            </button>
+          </form>
+        </div>
+      )}
+      {manualError && <p className="text-xs text-red-600 dark:text-red-400">{manualError}</p>}
+    </div>
+  );
+});
+
+export default LocationPicker;
@@ -0,0 +1,82 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Match, MatchPlayer, matchStore } from "../../stores/MatchStore";
+import UserBadge from "../UserBadge";
+import { SCORING_FORMAT_LABELS } from "../../utils/matchUtils";
+
+interface MatchListProps {
+  matches: Match[];
+}
+
+const TeamColumn: React.FC<{ players: MatchPlayer[]; match: Match; won: boolean }> = observer(
+  ({ players, match, won }) => (
+    <div className={`space-y-1 min-w-0 ${won ? "" : "opacity-70"}`}>
+      {players.map((player) => {
+        const change = match.ratingChanges?.[player._id];
+        return (
+          <div key={player._id} className="flex items-center gap-2 min-w-0">
+            <UserBadge
+              photoURL={player.photoURL}
+              displayName={player.displayName}
+              userId={player._id}
+              size="xs"
+              rating={matchStore.getRating(player._id)}
+            />
+            {change !== undefined && (
+              <span
+                className={`text-[10px] font-semibold ${
+                  change >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                }`}
+              >
+                {change >= 0 ? "+" : ""}
+                {change}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  )
+);
+
+/**
+ * MatchList - Recorded games for a session with scores and rating changes
+ */
+const MatchList: React.FC<MatchListProps> = ({ matches }) => {
+  if (matches.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+        No scores recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {matches.map((match) => {
+        const teamAWon = match.scoreA > match.scoreB;
+        return (
+          <li
+            key={match._id}
+            className="rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+          >
+            <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+              <TeamColumn players={match.teamA} match={match} won={teamAWon} />
+              <div className="text-center">
+                <p className="text-lg font-bold text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                  {match.scoreA} - {match.scoreB}
+                </p>
+                <p className="text-[10px] text-gray-500 dark:text-gray-400 capitalize">
+                  {match.type} · {SCORING_FORMAT_LABELS[match.scoringFormat]}
+                </p>
+              </div>
+              <TeamColumn players={match.teamB} match={match} won={!teamAWon} />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default MatchList;
@@ -14,6 +14,8 @@ import {
   Sun,
   Moon,
   Search,
+  Trophy,
+  ListOrdered,
   ShieldCheck,  // For Admin
   Crown,        // For Super Admin
 } from "lucide-react";
@@ -25,6 +27,7 @@ import { useTheme } from "../../contexts/ThemeContext";
 import Footer from "../Footer";
 import Avatar from "../Avatar";
 import UserSearchModal from "../UserSearchModal";
+import NotificationBell from "../NotificationBell";
 
 interface NavbarProps {
   children?: React.ReactNode;
@@ -87,6 +90,8 @@ const Navbar: React.FC<NavbarProps> = observer(({ children }) => {
           { path: "/venues", label: "Venues", icon: <MapPin size={20} /> },
           { path: "/profile", label: "Profile", icon: <User size={20} /> },
           { path: "/clubs", label: "Clubs", icon: <Book size={20} /> },
+          { path: "/tournaments", label: "Tournaments", icon: <Trophy size={20} /> },
+          { path: "/ladders", label: "Ladders", icon: <ListOrdered size={20} /> },
         ]
       : [];
 
@@ -215,21 +220,25 @@ const Navbar: React.FC<NavbarProps> = observer(({ children }) => {
                   alt={userDisplayName}
                   size="md"
                 />
-                <div className="flex flex-col">
-                  <span className="font-medium text-sm dark:text-gray-300">
+                <div className="flex flex-col flex-1 min-w-0">
+                  <span className="font-medium text-sm dark:text-gray-300 truncate">
                     {userDisplayName}
                   </span>
                 </div>
+                <NotificationBell />
               </div>
             ) : (
               <>
                 {!isMobile && (
-                  <Avatar
-                    src={userProfile?.photoURL || user?.photoURL}
-                    name={userDisplayName}
-                    alt={userDisplayName}
-                    size="md"
-                  />
+                  <div className="flex flex-col items-center gap-2">
+                    <Avatar
+                      src={userProfile?.photoURL || user?.photoURL}
+                      name={userDisplayName}
+                      alt={userDisplayName}
+                      size="md"
+                    />
+                    <NotificationBell />
+                  </div>
                 )}
                 {isMobile && (
                   <div className="flex items-center space-x-3">
@@ -446,8 +455,11 @@ const Navbar: React.FC<NavbarProps> = observer(({ children }) => {
                 ? "Super Admin"
                 : location.pathname === "/settings"
                 ? "Settings"
+                : location.pathname === "/notifications"
+                ? "Notifications"
                 : "Home"}
             </div>
+            <NotificationBell align="right" className="ml-auto" />
           </div>
         )}
 
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { notificationStore } from "../../stores/NotificationStore";
+import NotificationItem from "../NotificationItem";
+
+const PREVIEW_COUNT = 5;
+
+interface NotificationBellProps {
+  align?: "left" | "right"; // Which edge of the bell the dropdown lines up with
+  className?: string;
+}
+
+/**
+ * NotificationBell - Bell icon with an unread badge and a dropdown of the
+ * latest notifications
+ */
+const NotificationBell: React.FC<NotificationBellProps> = observer(({ align = "left", className = "" }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const unread = notificationStore.unreadCount;
+  const latest = notificationStore.notifications.slice(0, PREVIEW_COUNT);
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-dark-muted"
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : "Notifications"}
+      >
+        <Bell size={20} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-bold leading-[1.125rem] text-center">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute z-50 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden ${
+            align === "right" ? "right-0" : "left-0"
+          }`}
+        >
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Notifications</h2>
+            {unread > 0 && (
+              <button
+                type="button"
+                onClick={() => notificationStore.markAllRead()}
+                className="text-xs text-brand-600 hover:text-brand-700 dark:text-brand-400 dark:hover:text-brand-300"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {latest.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">You're all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+              {latest.map((notification) => (
+                <li key={notification.id}>
+                  <NotificationItem notification={notification} compact onOpen={() => setIsOpen(false)} />
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <Link
+            to="/notifications"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2.5 text-sm text-center font-medium border-t border-gray-200 dark:border-gray-700 text-brand-600 hover:bg-gray-50 dark:text-brand-400 dark:hover:bg-gray-700"
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default NotificationBell;
@@ -0,0 +1,78 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, BellRing, ClipboardCheck, UserCheck, X } from "lucide-react";
+import { AppNotification, NotificationType, notificationStore } from "../../stores/NotificationStore";
+import { formatTimeAgo } from "../../utils/notificationUtils";
+
+const TYPE_STYLES: Record<NotificationType, { icon: React.ReactNode; className: string }> = {
+  session_reminder: {
+    icon: <BellRing className="h-4 w-4" />,
+    className: "bg-brand-100 text-brand-700 dark:bg-brand-900/30 dark:text-brand-300",
+  },
+  waitlist_promoted: {
+    icon: <UserCheck className="h-4 w-4" />,
+    className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  },
+  coach_assigned: {
+    icon: <ClipboardCheck className="h-4 w-4" />,
+    className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  },
+  admin_warning: {
+    icon: <AlertTriangle className="h-4 w-4" />,
+    className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  },
+};
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  compact?: boolean; // Tighter layout for the bell dropdown
+  onOpen?: () => void;
+}
+
+/**
+ * NotificationItem - A single notification row. Opening it marks it read
+ * and follows its link.
+ */
+const NotificationItem: React.FC<NotificationItemProps> = observer(({ notification, compact = false, onOpen }) => {
+  const navigate = useNavigate();
+  const style = TYPE_STYLES[notification.type];
+
+  const handleOpen = () => {
+    notificationStore.markRead(notification.id);
+    onOpen?.();
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <div
+      className={`group flex items-start gap-3 ${compact ? "px-4 py-3" : "p-4"} ${
+        notification.read ? "" : "bg-brand-50/60 dark:bg-brand-900/10"
+      }`}
+    >
+      <span className={`flex-shrink-0 mt-0.5 p-1.5 rounded-full ${style.className}`}>{style.icon}</span>
+      <button type="button" onClick={handleOpen} className="flex-1 min-w-0 text-left">
+        <p className="flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+          {!notification.read && <span className="h-2 w-2 rounded-full bg-brand-500 flex-shrink-0" />}
+          <span className="truncate">{notification.title}</span>
+        </p>
+        <p className={`text-sm text-gray-600 dark:text-gray-300 ${compact ? "line-clamp-2" : ""}`}>
+          {notification.message}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">{formatTimeAgo(notification.createdAt)}</p>
+      </button>
+      {!compact && (
+        <button
+          type="button"
+          onClick={() => notificationStore.remove(notification.id)}
+          className="p-1 rounded text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+          aria-label="Delete notification"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+});
+
+export default NotificationItem;
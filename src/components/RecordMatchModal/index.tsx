@@ -0,0 +1,208 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Session } from "../../stores/SessionStore";
+import { matchStore } from "../../stores/MatchStore";
+import {
+  MatchType,
+  ScoringFormat,
+  SCORING_FORMAT_LABELS,
+  GAME_POINTS_TO_WIN,
+  GAME_WIN_BY,
+  validateGameScore,
+  calculateRatingChange,
+  getTeamRating,
+} from "../../utils/matchUtils";
+
+interface RecordMatchModalProps {
+  session: Session;
+  // Prefill from a court in the rotation
+  initialTeamA?: string[];
+  initialTeamB?: string[];
+  onClose: () => void;
+}
+
+const RecordMatchModal: React.FC<RecordMatchModalProps> = observer(
+  ({ session, initialTeamA, initialTeamB, onClose }) => {
+    const [type, setType] = useState<MatchType>(
+      initialTeamA && initialTeamA.length === 1 ? "singles" : "doubles"
+    );
+    const [scoringFormat, setScoringFormat] = useState<ScoringFormat>("rally");
+    const [teamA, setTeamA] = useState<string[]>(initialTeamA || ["", ""]);
+    const [teamB, setTeamB] = useState<string[]>(initialTeamB || ["", ""]);
+    const [scoreA, setScoreA] = useState("");
+    const [scoreB, setScoreB] = useState("");
+    const [error, setError] = useState("");
+
+    const teamSize = type === "doubles" ? 2 : 1;
+    const selected = new Set([...teamA.slice(0, teamSize), ...teamB.slice(0, teamSize)]);
+
+    // Estimated rating swing for team A, shown before saving. The server
+    // applies each player's own provisional status when it records the match.
+    const sideA = teamA.slice(0, teamSize).filter(Boolean);
+    const sideB = teamB.slice(0, teamSize).filter(Boolean);
+    const parsedA = parseInt(scoreA);
+    const parsedB = parseInt(scoreB);
+    let preview: number | null = null;
+    if (
+      sideA.length === teamSize &&
+      sideB.length === teamSize &&
+      validateGameScore(parsedA, parsedB) === null
+    ) {
+      const ratings = matchStore.getRatingMap([...sideA, ...sideB]);
+      const matchesPlayed = Math.min(
+        ...sideA.map((id) => matchStore.ratings[id]?.matchesPlayed || 0)
+      );
+      preview = calculateRatingChange(
+        getTeamRating(sideA, ratings),
+        getTeamRating(sideB, ratings),
+        parsedA > parsedB,
+        parsedA - parsedB,
+        matchesPlayed
+      );
+    }
+
+    const handleTypeChange = (next: MatchType) => {
+      setType(next);
+      setTeamA((prev) => [prev[0] || "", prev[1] || ""]);
+      setTeamB((prev) => [prev[0] || "", prev[1] || ""]);
+    };
+
+    const updateSlot = (team: "A" | "B", index: number, userId: string) => {
+      const setter = team === "A" ? setTeamA : setTeamB;
+      setter((prev) => prev.map((id, i) => (i === index ? userId : id)));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setError("");
+
+      const scoreError = validateGameScore(parsedA, parsedB);
+      if (scoreError) {
+        setError(scoreError);
+        return;
+      }
+
+      const success = await matchStore.recordMatch({
+        sessionId: session._id,
+        type,
+        scoringFormat,
+        teamA: sideA,
+        teamB: sideB,
+        scoreA: parsedA,
+        scoreB: parsedB,
+      });
+
+      if (success) {
+        onClose();
+      } else {
+        setError(matchStore.error || "Failed to record match");
+      }
+    };
+
+    const renderTeam = (team: "A" | "B", ids: string[]) => (
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Team {team}</p>
+        {Array.from({ length: teamSize }).map((_, index) => (
+          <select
+            key={index}
+            value={ids[index] || ""}
+            onChange={(e) => updateSlot(team, index, e.target.value)}
+            className="w-full p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+          >
+            <option value="">Select player</option>
+            {session.attendees.map((attendee) => (
+              <option
+                key={attendee._id}
+                value={attendee._id}
+                disabled={selected.has(attendee._id) && ids[index] !== attendee._id}
+              >
+                {attendee.displayName || "Anonymous"}
+              </option>
+            ))}
+          </select>
+        ))}
+        <input
+          type="number"
+          value={team === "A" ? scoreA : scoreB}
+          onChange={(e) => (team === "A" ? setScoreA(e.target.value) : setScoreB(e.target.value))}
+          min={0}
+          placeholder="Score"
+          className="w-full p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-center text-lg font-semibold"
+        />
+      </div>
+    );
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full p-6 animate-in fade-in zoom-in duration-200">
+          <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-1">Record Match</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Games to {GAME_POINTS_TO_WIN}, win by {GAME_WIN_BY}
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={type}
+                onChange={(e) => handleTypeChange(e.target.value as MatchType)}
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+              >
+                <option value="doubles">Doubles</option>
+                <option value="singles">Singles</option>
+              </select>
+              <select
+                value={scoringFormat}
+                onChange={(e) => setScoringFormat(e.target.value as ScoringFormat)}
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+              >
+                {(Object.keys(SCORING_FORMAT_LABELS) as ScoringFormat[]).map((format) => (
+                  <option key={format} value={format}>
+                    {SCORING_FORMAT_LABELS[format]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {renderTeam("A", teamA)}
+              {renderTeam("B", teamB)}
+            </div>
+
+            {preview !== null && (
+              <p className="text-xs text-center text-gray-500 dark:text-gray-400">
+                Estimated rating change: Team A {preview >= 0 ? "+" : ""}
+                {preview}, Team B {preview <= 0 ? "+" : ""}
+                {-preview}
+              </p>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={matchStore.loading}
+                className="flex-1 px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 font-medium disabled:opacity-50"
+              >
+                {matchStore.loading ? "Saving..." : "Save Score"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+);
+
+export default RecordMatchModal;
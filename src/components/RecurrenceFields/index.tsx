@@ -0,0 +1,169 @@
+import React from "react";
+import { SessionRecurrence, RecurrenceFrequency } from "../../stores/SessionStore";
+import {
+  WEEKDAY_LABELS,
+  MAX_SERIES_OCCURRENCES,
+  generateOccurrenceDates,
+  describeRecurrence,
+  getRecurrenceError,
+  parseDateInput,
+} from "../../utils/recurrenceUtils";
+
+interface RecurrenceFieldsProps {
+  startDate: string;
+  value: SessionRecurrence | null;
+  onChange: (recurrence: SessionRecurrence | null) => void;
+}
+
+type EndMode = "date" | "count";
+
+const inputClass =
+  "w-full p-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100";
+
+/**
+ * RecurrenceFields - "Repeat" controls shared by the session creation forms
+ */
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ startDate, value, onChange }) => {
+  const endMode: EndMode = value?.endDate !== undefined ? "date" : "count";
+
+  const handleToggle = (enabled: boolean) => {
+    if (!enabled) {
+      onChange(null);
+      return;
+    }
+    // Default to repeating on the weekday of the chosen start date
+    const weekday = startDate ? parseDateInput(startDate).getDay() : new Date().getDay();
+    onChange({ frequency: "weekly", weekdays: [weekday], occurrences: 8 });
+  };
+
+  if (!value) {
+    return (
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={false}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+        />
+        Repeat this session
+      </label>
+    );
+  }
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((d) => d !== day)
+      : [...value.weekdays, day];
+    onChange({ ...value, weekdays });
+  };
+
+  const setEndMode = (mode: EndMode) => {
+    const { endDate: _endDate, occurrences: _occurrences, ...rest } = value;
+    onChange(mode === "date" ? { ...rest, endDate: "" } : { ...rest, occurrences: 8 });
+  };
+
+  const recurrenceError = getRecurrenceError(startDate, value);
+  const previewDates = generateOccurrenceDates(startDate, value);
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-zinc-800/50">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+        />
+        Repeat this session
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Frequency */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Frequency
+          </label>
+          <select
+            value={value.frequency}
+            onChange={(e) => onChange({ ...value, frequency: e.target.value as RecurrenceFrequency })}
+            className={inputClass}
+          >
+            <option value="weekly">Every week</option>
+            <option value="biweekly">Every 2 weeks</option>
+          </select>
+        </div>
+
+        {/* Ends */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Ends
+          </label>
+          <div className="flex gap-2">
+            <select
+              value={endMode}
+              onChange={(e) => setEndMode(e.target.value as EndMode)}
+              className={inputClass}
+            >
+              <option value="count">After</option>
+              <option value="date">On date</option>
+            </select>
+            {endMode === "count" ? (
+              <input
+                type="number"
+                value={value.occurrences || ""}
+                onChange={(e) => onChange({ ...value, occurrences: parseInt(e.target.value) || 0 })}
+                min={1}
+                max={MAX_SERIES_OCCURRENCES}
+                placeholder="Sessions"
+                className={inputClass}
+              />
+            ) : (
+              <input
+                type="date"
+                value={value.endDate || ""}
+                onChange={(e) => onChange({ ...value, endDate: e.target.value })}
+                min={startDate}
+                className={inputClass}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Weekdays */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          On
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`w-12 py-1.5 text-sm rounded-lg border transition-colors ${
+                value.weekdays.includes(day)
+                  ? "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400"
+                  : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-gray-300"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {recurrenceError ? (
+        <p className="text-xs text-red-600 dark:text-red-400">{recurrenceError}</p>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {previewDates.length > 0
+            ? `${describeRecurrence(value)} · ${previewDates.length} session${previewDates.length !== 1 ? "s" : ""} from ${previewDates[0]} to ${previewDates[previewDates.length - 1]}`
+            : "Pick a start date and at least one weekday."}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
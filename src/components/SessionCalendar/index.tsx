@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Session, sessionStore } from "../../stores/SessionStore";
+import {
+  CalendarView,
+  CALENDAR_START_HOUR,
+  CALENDAR_END_HOUR,
+  getViewDays,
+  getViewRange,
+  getViewTitle,
+  shiftAnchor,
+  groupSessionsByDay,
+  isSameDay,
+  timeToHours,
+  getVenueColor,
+} from "../../utils/calendarUtils";
+import { toDateInput, WEEKDAY_LABELS } from "../../utils/recurrenceUtils";
+import { formatTime, isPublicSession } from "../../utils/sessionUtils";
+
+const VIEWS: CalendarView[] = ["month", "week", "day"];
+const HOUR_HEIGHT = 48; // px per hour on the time grid
+
+// Coached sessions are solid, open play is outlined in the venue's color
+const getEventStyle = (session: Session): React.CSSProperties => {
+  const color = getVenueColor(session);
+  return session.coachId
+    ? { backgroundColor: color, borderColor: color, color: "#ffffff" }
+    : { backgroundColor: `${color}1a`, borderColor: color, color };
+};
+
+const EventChip: React.FC<{ session: Session }> = ({ session }) => (
+  <Link
+    to={`/sessions/${session._id}`}
+    style={getEventStyle(session)}
+    className={`block truncate rounded border-l-4 px-1.5 py-0.5 text-[11px] font-medium hover:opacity-80 ${
+      session.status === "cancelled" ? "line-through opacity-60" : ""
+    }`}
+    title={`${session.title || "Open Play"} · ${session.venueId?.name || ""}`}
+  >
+    {formatTime(session.startTime)} {session.title || session.venueId?.name || "Open Play"}
+  </Link>
+);
+
+// ============================================
+// Month View
+// ============================================
+interface MonthViewProps {
+  anchor: Date;
+  sessionsByDay: Record<string, Session[]>;
+  onSelectDay: (day: Date) => void;
+}
+
+const MAX_CHIPS_PER_DAY = 3;
+
+const MonthView: React.FC<MonthViewProps> = ({ anchor, sessionsByDay, onSelectDay }) => {
+  const days = getViewDays("month", anchor);
+  const today = new Date();
+
+  return (
+    <div className="grid grid-cols-7 border-t border-l border-gray-200 dark:border-gray-700">
+      {WEEKDAY_LABELS.map((label) => (
+        <div
+          key={label}
+          className="border-r border-b border-gray-200 dark:border-gray-700 py-2 text-center text-xs font-semibold text-gray-500 dark:text-gray-400"
+        >
+          {label}
+        </div>
+      ))}
+      {days.map((day) => {
+        const daySessions = sessionsByDay[toDateInput(day)] || [];
+        const inMonth = day.getMonth() === anchor.getMonth();
+        return (
+          <div
+            key={day.toISOString()}
+            className={`min-h-[96px] border-r border-b border-gray-200 dark:border-gray-700 p-1 space-y-1 ${
+              inMonth ? "" : "bg-gray-50 dark:bg-gray-900/40"
+            }`}
+          >
+            <button
+              onClick={() => onSelectDay(day)}
+              className={`text-xs w-6 h-6 rounded-full ${
+                isSameDay(day, today)
+                  ? "bg-green-600 text-white"
+                  : inMonth
+                    ? "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    : "text-gray-400 dark:text-gray-600"
+              }`}
+            >
+              {day.getDate()}
+            </button>
+            {daySessions.slice(0, MAX_CHIPS_PER_DAY).map((session) => (
+              <EventChip key={session._id} session={session} />
+            ))}
+            {daySessions.length > MAX_CHIPS_PER_DAY && (
+              <button
+                onClick={() => onSelectDay(day)}
+                className="text-[11px] text-gray-500 dark:text-gray-400 hover:underline"
+              >
+                +{daySessions.length - MAX_CHIPS_PER_DAY} more
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// ============================================
+// Week / Day Time Grid
+// ============================================
+interface TimeGridViewProps {
+  days: Date[];
+  sessionsByDay: Record<string, Session[]>;
+  onSelectDay: (day: Date) => void;
+}
+
+const TimeGridView: React.FC<TimeGridViewProps> = ({ days, sessionsByDay, onSelectDay }) => {
+  const hours = Array.from(
+    { length: CALENDAR_END_HOUR - CALENDAR_START_HOUR },
+    (_, i) => CALENDAR_START_HOUR + i
+  );
+  const today = new Date();
+
+  return (
+    <div className="overflow-x-auto">
+      <div
+        className="grid min-w-[640px]"
+        style={{ gridTemplateColumns: `56px repeat(${days.length}, minmax(0, 1fr))` }}
+      >
+        {/* Day headers */}
+        <div />
+        {days.map((day) => (
+          <button
+            key={day.toISOString()}
+            onClick={() => onSelectDay(day)}
+            className={`py-2 text-center text-xs font-semibold border-b border-gray-200 dark:border-gray-700 ${
+              isSameDay(day, today) ? "text-green-600 dark:text-green-400" : "text-gray-600 dark:text-gray-400"
+            }`}
+          >
+            {WEEKDAY_LABELS[day.getDay()]} {day.getDate()}
+          </button>
+        ))}
+
+        {/* Hour labels */}
+        <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+          {hours.map((hour, i) => (
+            <span
+              key={hour}
+              className="absolute right-2 -translate-y-1/2 text-[10px] text-gray-400"
+              style={{ top: i * HOUR_HEIGHT }}
+            >
+              {i > 0 ? formatTime(`${hour}:00`) : ""}
+            </span>
+          ))}
+        </div>
+
+        {/* Day columns */}
+        {days.map((day) => {
+          const daySessions = sessionsByDay[toDateInput(day)] || [];
+          return (
+            <div
+              key={day.toISOString()}
+              className="relative border-l border-gray-200 dark:border-gray-700"
+              style={{ height: hours.length * HOUR_HEIGHT }}
+            >
+              {hours.map((hour, i) => (
+                <div
+                  key={hour}
+                  className="absolute inset-x-0 border-t border-gray-100 dark:border-gray-800"
+                  style={{ top: i * HOUR_HEIGHT }}
+                />
+              ))}
+              {daySessions.map((session, index) => {
+                const start = Math.max(timeToHours(session.startTime), CALENDAR_START_HOUR);
+                const end = Math.min(timeToHours(session.endTime), CALENDAR_END_HOUR);
+                // Side-by-side sessions at different venues share the column
+                const overlapping = daySessions.filter(
+                  (other) => other.startTime < session.endTime && other.endTime > session.startTime
+                );
+                const slot = overlapping.indexOf(session);
+                const width = 100 / overlapping.length;
+                return (
+                  <Link
+                    key={session._id}
+                    to={`/sessions/${session._id}`}
+                    style={{
+                      ...getEventStyle(session),
+                      top: (start - CALENDAR_START_HOUR) * HOUR_HEIGHT,
+                      height: Math.max((end - start) * HOUR_HEIGHT, 20),
+                      left: `${slot * width}%`,
+                      width: `${width}%`,
+                      zIndex: index + 1,
+                    }}
+                    className={`absolute rounded border-l-4 px-1.5 py-1 text-[11px] overflow-hidden hover:opacity-80 ${
+                      session.status === "cancelled" ? "line-through opacity-60" : ""
+                    }`}
+                  >
+                    <p className="font-semibold truncate">{session.title || "Open Play"}</p>
+                    <p className="truncate">
+                      {formatTime(session.startTime)} · {session.venueId?.name}
+                    </p>
+                    {session.coachId?.displayName && (
+                      <p className="truncate">Coach {session.coachId.displayName}</p>
+                    )}
+                  </Link>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// Calendar
+// ============================================
+
+/**
+ * SessionCalendar - Month/week/day calendar of sessions, color-coded by venue
+ * (solid = coached, outlined = open play). Fetches only the visible range.
+ */
+const SessionCalendar: React.FC = observer(() => {
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const { from, to } = getViewRange(view, anchor);
+
+  useEffect(() => {
+    sessionStore.fetchCalendarSessions(from, to);
+  }, [from, to]);
+
+  // Members-only club sessions stay off the public calendar
+  const calendarSessions = sessionStore.calendarSessions.filter(isPublicSession);
+  const sessionsByDay = groupSessionsByDay(calendarSessions);
+
+  // Legend only lists venues that appear in the visible range
+  const legendVenues = new Map<string, Session>();
+  calendarSessions.forEach((s) => {
+    if (s.venueId && !legendVenues.has(s.venueId._id)) legendVenues.set(s.venueId._id, s);
+  });
+
+  const handleSelectDay = (day: Date) => {
+    setAnchor(day);
+    setView("day");
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-md p-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+            aria-label="Previous"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="px-3 py-1 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300"
+            aria-label="Next"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+          <h2 className="ml-2 text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {getViewTitle(view, anchor)}
+          </h2>
+          {sessionStore.calendarLoading && (
+            <div className="ml-2 animate-spin rounded-full h-4 w-4 border-b-2 border-green-500"></div>
+          )}
+        </div>
+
+        <div className="flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+          {VIEWS.map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 text-sm capitalize ${
+                view === option
+                  ? "bg-green-600 text-white"
+                  : "text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {sessionStore.calendarError && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {sessionStore.calendarError}
+        </div>
+      )}
+
+      {view === "month" ? (
+        <MonthView anchor={anchor} sessionsByDay={sessionsByDay} onSelectDay={handleSelectDay} />
+      ) : (
+        <TimeGridView
+          days={getViewDays(view, anchor)}
+          sessionsByDay={sessionsByDay}
+          onSelectDay={handleSelectDay}
+        />
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-4 text-xs text-gray-600 dark:text-gray-400">
+        {Array.from(legendVenues.values()).map((session) => (
+          <span key={session.venueId._id} className="flex items-center gap-1.5">
+            <span
+              className="w-3 h-3 rounded-sm"
+              style={{ backgroundColor: getVenueColor(session) }}
+            />
+            {session.venueId.name}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5 ml-auto">
+          <span className="w-3 h-3 rounded-sm bg-gray-500" /> Coached
+          <span className="w-3 h-3 rounded-sm border-2 border-gray-500 ml-2" /> Open play
+        </span>
+      </div>
+    </div>
+  );
+});
+
+export default SessionCalendar;
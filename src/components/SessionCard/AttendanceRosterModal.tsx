@@ -0,0 +1,120 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { Session, AttendanceStatus, sessionStore } from "../../stores/SessionStore";
+import Avatar from "../Avatar";
+import CoachBadge from "../CoachBadge";
+import { formatTime } from "../../utils/sessionUtils";
+
+interface AttendanceRosterModalProps {
+  session: Session;
+  onClose: () => void;
+}
+
+/**
+ * AttendanceRosterModal - Coach/admin roster for marking attendees present or no-show
+ */
+const AttendanceRosterModal: React.FC<AttendanceRosterModalProps> = observer(({ session, onClose }) => {
+  // Read from the store so marks made here re-render immediately
+  const current = sessionStore.getSessionById(session._id) || session;
+  const presentCount = current.checkIns?.filter((c) => c.status === "present").length || 0;
+  const noShowCount = current.checkIns?.filter((c) => c.status === "no_show").length || 0;
+
+  const handleMark = async (userId: string, status: AttendanceStatus) => {
+    await sessionStore.markAttendance(current._id, userId, status);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                Attendance Roster
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {current.title || "Session"} · {formatTime(current.startTime)} - {formatTime(current.endTime)}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label="Close roster"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          <div className="flex gap-4 mt-3 text-sm">
+            <span className="text-green-600 dark:text-green-400">{presentCount} present</span>
+            <span className="text-red-600 dark:text-red-400">{noShowCount} no-show</span>
+            <span className="text-gray-500 dark:text-gray-400">
+              {current.attendees.length - presentCount - noShowCount} unmarked
+            </span>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {current.attendees.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+              No one signed up for this session.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {current.attendees.map((attendee) => {
+                const checkIn = sessionStore.getCheckIn(current._id, attendee._id);
+                return (
+                  <li
+                    key={attendee._id}
+                    className="flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  >
+                    <Link to={`/profile/${attendee._id}`} className="flex items-center gap-3 min-w-0">
+                      <Avatar src={attendee.photoURL} name={attendee.displayName} size="sm" />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium truncate">
+                            {attendee.displayName || "Anonymous"}
+                          </span>
+                          <CoachBadge role={attendee.role} size="xs" />
+                        </div>
+                        {checkIn?.selfCheckIn && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">Self checked-in</p>
+                        )}
+                      </div>
+                    </Link>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleMark(attendee._id, "present")}
+                        className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+                          checkIn?.status === "present"
+                            ? "bg-green-600 text-white"
+                            : "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400 hover:bg-green-100"
+                        }`}
+                      >
+                        Present
+                      </button>
+                      <button
+                        onClick={() => handleMark(attendee._id, "no_show")}
+                        className={`px-2.5 py-1 text-xs font-medium rounded-lg transition-colors ${
+                          checkIn?.status === "no_show"
+                            ? "bg-red-600 text-white"
+                            : "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400 hover:bg-red-100"
+                        }`}
+                      >
+                        No-show
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default AttendanceRosterModal;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Session, sessionStore } from "../../stores/SessionStore";
+import { rotationStore } from "../../stores/RotationStore";
+import { socketStore } from "../../stores/SocketStore";
+import { authStore } from "../../stores/AuthStore";
+import { matchStore } from "../../stores/MatchStore";
+import CourtRotationBoard from "../CourtRotationBoard";
+import MatchList from "../MatchList";
+import RecordMatchModal from "../RecordMatchModal";
+import { CourtMatch } from "../../utils/courtRotation";
+import { formatTime } from "../../utils/sessionUtils";
+
+interface CourtRotationModalProps {
+  session: Session;
+  canManage: boolean;
+  onClose: () => void;
+}
+
+interface MatchDraft {
+  teamA?: string[];
+  teamB?: string[];
+}
+
+/**
+ * CourtRotationModal - Open play court rotation and scores for a session, kept live over the session room
+ */
+const CourtRotationModal: React.FC<CourtRotationModalProps> = observer(({ session, canManage, onClose }) => {
+  const [loading, setLoading] = useState(true);
+  const [matchDraft, setMatchDraft] = useState<MatchDraft | null>(null);
+  const socketConnected = socketStore.connected;
+  // Read from the store so attendee changes reach the board
+  const current = sessionStore.getSessionById(session._id) || session;
+  const user = authStore.user;
+  const canRecordScores = Boolean(user && (canManage || current.attendees.some((a) => a._id === user.id)));
+  const matches = matchStore.matchesBySession[session._id] || [];
+
+  useEffect(() => {
+    const loadData = async () => {
+      await Promise.all([
+        rotationStore.fetchRotation(session._id),
+        matchStore.fetchSessionMatches(session._id),
+        // Ratings feed the badges and the skill balancing in the rotation
+        matchStore.fetchRatings(session.attendees.map((a) => a._id)),
+      ]);
+      setLoading(false);
+    };
+
+    loadData();
+  }, [session._id]);
+
+  useEffect(() => {
+    if (!socketConnected) return;
+
+    socketStore.joinSession(session._id);
+    return () => socketStore.leaveSession(session._id);
+  }, [socketConnected, session._id]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-2xl w-full max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">Open Play</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {current.title || "Session"} · {formatTime(current.startTime)} - {formatTime(current.endTime)}
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label="Close court rotation"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {loading ? (
+            <div className="flex justify-center items-center p-8">
+              <div className="animate-spin h-8 w-8 border-2 border-green-500 rounded-full border-t-transparent"></div>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <CourtRotationBoard
+                session={current}
+                canManage={canManage}
+                onRecordMatch={
+                  canRecordScores
+                    ? (match: CourtMatch) => setMatchDraft({ teamA: [...match.teamA], teamB: [...match.teamB] })
+                    : undefined
+                }
+              />
+
+              {/* Scores */}
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold text-gray-900 dark:text-gray-100">Scores</h3>
+                  {canRecordScores && (
+                    <button
+                      onClick={() => setMatchDraft({})}
+                      className="px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700"
+                    >
+                      Record Match
+                    </button>
+                  )}
+                </div>
+                <MatchList matches={matches} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {matchDraft && (
+        <RecordMatchModal
+          session={current}
+          initialTeamA={matchDraft.teamA}
+          initialTeamB={matchDraft.teamB}
+          onClose={() => setMatchDraft(null)}
+        />
+      )}
+    </div>
+  );
+});
+
+export default CourtRotationModal;
@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Session, SeriesScope, CreateSessionData, sessionStore } from "../../stores/SessionStore";
+import { describeRecurrence } from "../../utils/recurrenceUtils";
+
+interface EditSessionModalProps {
+  session: Session;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full p-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 disabled:opacity-50";
+
+/**
+ * EditSessionModal - Edits a session; for series lets the user pick this vs all future occurrences
+ */
+const EditSessionModal: React.FC<EditSessionModalProps> = observer(({ session, onClose }) => {
+  const isSeries = Boolean(session.seriesId);
+  const [scope, setScope] = useState<SeriesScope>("this");
+  const [date, setDate] = useState(session.date.split("T")[0]);
+  const [startTime, setStartTime] = useState(session.startTime);
+  const [endTime, setEndTime] = useState(session.endTime);
+  const [maxPlayers, setMaxPlayers] = useState(session.maxPlayers);
+  const [title, setTitle] = useState(session.title || "");
+  const [description, setDescription] = useState(session.description || "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (startTime >= endTime) {
+      setError("End time must be after start time");
+      return;
+    }
+
+    if (maxPlayers < session.attendees.length) {
+      setError(`Max players can't be below the ${session.attendees.length} players already signed up`);
+      return;
+    }
+
+    const updates: Partial<CreateSessionData> = {
+      startTime,
+      endTime,
+      maxPlayers,
+      title,
+      description,
+      // Moving a single occurrence to another day only makes sense for that occurrence
+      ...(scope === "this" && { date }),
+    };
+
+    setSaving(true);
+    const success = isSeries
+      ? await sessionStore.updateSeriesSessions(session._id, updates, scope)
+      : await sessionStore.updateSession(session._id, updates);
+    setSaving(false);
+
+    if (success) {
+      onClose();
+    } else {
+      setError(sessionStore.error || "Failed to update session");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-md w-full p-6 animate-in fade-in zoom-in duration-200">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-1">
+          Edit Session
+        </h3>
+        {isSeries && session.recurrence && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Part of a series · {describeRecurrence(session.recurrence)}
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-lg text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isSeries && (
+            <div className="flex gap-2">
+              {(["this", "future"] as SeriesScope[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setScope(option)}
+                  className={`flex-1 p-2 text-sm rounded-lg border-2 transition-all ${
+                    scope === option
+                      ? "border-green-500 bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400"
+                      : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-gray-300"
+                  }`}
+                >
+                  {option === "this" ? "This occurrence" : "All future occurrences"}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Date
+              </label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                disabled={scope === "future"}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Start Time
+              </label>
+              <input
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                End Time
+              </label>
+              <input
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Max Players
+              </label>
+              <input
+                type="number"
+                value={maxPlayers}
+                onChange={(e) => setMaxPlayers(parseInt(e.target.value) || 1)}
+                min={1}
+                max={100}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Title
+              </label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Description
+            </label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={saving}
+              className="flex-1 py-2 px-4 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2 px-4 rounded-lg bg-green-600 text-white hover:bg-green-700 font-medium text-sm transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+export default EditSessionModal;
@@ -1,10 +1,17 @@
 import React, { useState } from "react";
 import { observer } from "mobx-react-lite";
 import { Link } from "react-router-dom";
-import { Session, sessionStore } from "../../stores/SessionStore";
+import { Session, SeriesScope, sessionStore } from "../../stores/SessionStore";
 import { authStore } from "../../stores/AuthStore";
+import { clubStore } from "../../stores/ClubStore";
+import { policyStore } from "../../stores/PolicyStore";
 import Avatar from "../Avatar";
 import CoachBadge from "../CoachBadge";
+import EditSessionModal from "./EditSessionModal";
+import AttendanceRosterModal from "./AttendanceRosterModal";
+import CourtRotationModal from "./CourtRotationModal";
+import { canJoinClubSession, isWithinCheckInWindow } from "../../utils/sessionUtils";
+import { downloadSessionIcs } from "../../utils/icsUtils";
 
 interface SessionCardProps {
   session: Session;
@@ -27,15 +34,26 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [showRosterModal, setShowRosterModal] = useState(false);
+  const [showRotationModal, setShowRotationModal] = useState(false);
+  const [cancelScope, setCancelScope] = useState<SeriesScope>("this");
   const isAttending = sessionStore.isUserAttending(session._id);
   const isAuthenticated = authStore.isAuthenticated;
   const isFull = session.status === "full";
   const isCancelled = session.status === "cancelled";
   const spotsLeft = session.maxPlayers - session.attendees.length;
+  const waitlistCount = session.waitlist?.length || 0;
+  const waitlistPosition = sessionStore.getWaitlistPosition(session._id);
+  // Members-only club session and the user isn't in the club
+  const isMembersOnlyLocked =
+    !isAttending && !waitlistPosition && !canJoinClubSession(session, clubStore.userClubs);
   
   // Check if current user can delete this session (admin or session coach)
   const user = authStore.user;
   const canDelete = user && (user.isAdmin || session.coachId?._id === user.id);
+  // Series occurrences are cancelled (kept for history) rather than deleted
+  const isSeries = Boolean(session.seriesId);
 
   // Check if session has ended
   const isEnded = () => {
@@ -48,6 +66,8 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
   };
 
   const hasEnded = isEnded();
+  const checkIn = isAttending ? sessionStore.getCheckIn(session._id) : undefined;
+  const canSelfCheckIn = isAttending && !checkIn && !isCancelled && isWithinCheckInWindow(session);
 
   const formatTime = (time: string) => {
     const [hours, minutes] = time.split(":");
@@ -80,6 +100,9 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
   };
 
   const handleLeaveClick = async () => {
+    const lateWarning = policyStore.getLateCancellationWarning(session);
+    if (lateWarning && !window.confirm(lateWarning)) return;
+
     if (onLeave) {
       onLeave();
     } else {
@@ -87,13 +110,23 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
     }
   };
 
+  const handleJoinWaitlistClick = async () => {
+    await sessionStore.joinWaitlist(session._id);
+  };
+
+  const handleLeaveWaitlistClick = async () => {
+    await sessionStore.leaveWaitlist(session._id);
+  };
+
   const handleDeleteClick = () => {
     setShowDeleteModal(true);
   };
 
   const confirmDelete = async () => {
     setDeleting(true);
-    const success = await sessionStore.deleteSession(session._id);
+    const success = isSeries
+      ? await sessionStore.cancelSeriesSessions(session._id, cancelScope)
+      : await sessionStore.deleteSession(session._id);
     setDeleting(false);
     if (success) {
       setShowDeleteModal(false);
@@ -147,6 +180,8 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
               >
                 Leave
               </button>
+            ) : isMembersOnlyLocked ? (
+              <span className="text-xs text-gray-500 dark:text-gray-400">Members only</span>
             ) : !isFull ? (
               <button
                 onClick={handleAttendClick}
@@ -154,8 +189,21 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
               >
                 Join
               </button>
+            ) : waitlistPosition ? (
+              <button
+                onClick={handleLeaveWaitlistClick}
+                title="Leave waitlist"
+                className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 hover:bg-amber-200 dark:hover:bg-amber-900/50"
+              >
+                #{waitlistPosition} waitlist
+              </button>
             ) : (
-              <span className="text-xs text-gray-500">Full</span>
+              <button
+                onClick={handleJoinWaitlistClick}
+                className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Waitlist
+              </button>
             )
           )}
           {hasEnded && (
@@ -180,7 +228,11 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
         <div className="flex items-start justify-between">
           <div>
             {session.title && (
-              <h3 className="font-semibold text-lg mb-1">{session.title}</h3>
+              <h3 className="font-semibold text-lg mb-1">
+                <Link to={`/sessions/${session._id}`} className="hover:underline">
+                  {session.title}
+                </Link>
+              </h3>
             )}
             <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -210,19 +262,53 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
               </span>
             ) : isFull ? (
               <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
-                Full
+                Full{waitlistCount > 0 ? ` · ${waitlistCount} waiting` : ""}
               </span>
             ) : (
               <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
                 {spotsLeft} spots left
               </span>
             )}
-            {/* Delete button for admins/coaches on upcoming sessions */}
+            {!hasEnded && (
+              <button
+                onClick={() => downloadSessionIcs(session)}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+                title="Add to calendar (.ics)"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2zm7-7v4m-2-2h4" />
+                </svg>
+              </button>
+            )}
+            {/* Roster for admins/coaches, including after the session ends */}
+            {canDelete && !isCancelled && (
+              <button
+                onClick={() => setShowRosterModal(true)}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 transition-colors"
+                title="Attendance roster"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                </svg>
+              </button>
+            )}
+            {/* Edit and delete buttons for admins/coaches on upcoming sessions */}
+            {canDelete && !hasEnded && !isCancelled && (
+              <button
+                onClick={() => setShowEditModal(true)}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 transition-colors"
+                title="Edit session"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+              </button>
+            )}
             {canDelete && !hasEnded && !isCancelled && (
               <button
                 onClick={handleDeleteClick}
                 className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
-                title="Delete session"
+                title={isSeries ? "Cancel session" : "Delete session"}
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -242,6 +328,22 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
           </div>
         )}
 
+        {session.clubId && (
+          <div className="mt-2 flex items-center gap-2 text-sm">
+            <Link
+              to={`/clubs/${session.clubId._id}`}
+              className="text-brand-600 dark:text-brand-400 hover:underline"
+            >
+              Hosted by {session.clubId.name}
+            </Link>
+            {session.membersOnly && (
+              <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">
+                Members only
+              </span>
+            )}
+          </div>
+        )}
+
         {session.description && (
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
             {session.description}
@@ -291,6 +393,14 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
           <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
             Attendees ({session.attendees.length}/{session.maxPlayers})
           </span>
+          {isAuthenticated && !isCancelled && session.attendees.length >= 4 && (
+            <button
+              onClick={() => setShowRotationModal(true)}
+              className="text-xs font-medium text-green-600 hover:text-green-700 dark:text-green-400 dark:hover:text-green-300"
+            >
+              Court rotation
+            </button>
+          )}
         </div>
 
         {session.attendees.length > 0 ? (
@@ -323,6 +433,32 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
         )}
       </div>
 
+      {/* Check-in */}
+      {canSelfCheckIn && (
+        <div className="px-4 pb-2">
+          <button
+            onClick={() => sessionStore.checkIn(session._id)}
+            disabled={sessionStore.loading}
+            className="w-full py-2 px-4 rounded-lg bg-green-600 text-white hover:bg-green-700 font-medium text-sm transition-colors disabled:opacity-50"
+          >
+            {sessionStore.loading ? "Checking in..." : "I'm here · Check In"}
+          </button>
+        </div>
+      )}
+      {checkIn && (
+        <div className="px-4 pb-2">
+          <p
+            className={`text-center text-sm font-medium ${
+              checkIn.status === "present"
+                ? "text-green-600 dark:text-green-400"
+                : "text-red-600 dark:text-red-400"
+            }`}
+          >
+            {checkIn.status === "present" ? "✓ Checked in" : "Marked as no-show"}
+          </p>
+        </div>
+      )}
+
       {/* Action button */}
       {isAuthenticated && !isCancelled && !hasEnded && (
         <div className="px-4 pb-4">
@@ -334,6 +470,14 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
             >
               {sessionStore.loading ? "Leaving..." : "Leave Session"}
             </button>
+          ) : isMembersOnlyLocked ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+              Only{" "}
+              <Link to={`/clubs/${session.clubId?._id}`} className="font-medium text-brand-600 dark:text-brand-400 hover:underline">
+                {session.clubId?.name}
+              </Link>{" "}
+              members can join this session.
+            </p>
           ) : !isFull ? (
             <button
               onClick={handleAttendClick}
@@ -342,12 +486,26 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
             >
               {sessionStore.loading ? "Joining..." : "Join Session"}
             </button>
+          ) : waitlistPosition ? (
+            <div className="space-y-2">
+              <p className="text-center text-sm text-amber-700 dark:text-amber-400">
+                You're #{waitlistPosition} on the waitlist. We'll move you in if a spot opens.
+              </p>
+              <button
+                onClick={handleLeaveWaitlistClick}
+                disabled={sessionStore.loading}
+                className="w-full py-2 px-4 rounded-lg border border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20 font-medium text-sm transition-colors disabled:opacity-50"
+              >
+                {sessionStore.loading ? "Leaving..." : "Leave Waitlist"}
+              </button>
+            </div>
           ) : (
             <button
-              disabled
-              className="w-full py-2 px-4 rounded-lg bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400 font-medium text-sm cursor-not-allowed"
+              onClick={handleJoinWaitlistClick}
+              disabled={sessionStore.loading}
+              className="w-full py-2 px-4 rounded-lg bg-amber-500 text-white hover:bg-amber-600 font-medium text-sm transition-colors disabled:opacity-50"
             >
-              Session Full
+              {sessionStore.loading ? "Joining..." : "Session Full · Join Waitlist"}
             </button>
           )}
         </div>
@@ -411,6 +569,25 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
         </div>
       )}
 
+      {/* Roster Modal */}
+      {showRosterModal && (
+        <AttendanceRosterModal session={session} onClose={() => setShowRosterModal(false)} />
+      )}
+
+      {/* Court Rotation Modal */}
+      {showRotationModal && (
+        <CourtRotationModal
+          session={session}
+          canManage={Boolean(canDelete)}
+          onClose={() => setShowRotationModal(false)}
+        />
+      )}
+
+      {/* Edit Modal */}
+      {showEditModal && (
+        <EditSessionModal session={session} onClose={() => setShowEditModal(false)} />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
@@ -422,13 +599,34 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
                 </svg>
               </div>
               <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-2">
-                Delete Session
+                {isSeries ? "Cancel Session" : "Delete Session"}
               </h3>
               <p className="text-gray-600 dark:text-gray-400 text-sm">
-                Are you sure you want to delete this session? This action cannot be undone.
+                {isSeries
+                  ? "This session is part of a repeating series. Which sessions should be cancelled?"
+                  : "Are you sure you want to delete this session? This action cannot be undone."}
               </p>
             </div>
 
+            {isSeries && (
+              <div className="flex gap-2 mb-4">
+                {(["this", "future"] as SeriesScope[]).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setCancelScope(option)}
+                    className={`flex-1 p-2 text-sm rounded-lg border-2 transition-all ${
+                      cancelScope === option
+                        ? "border-red-500 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400"
+                        : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-gray-300"
+                    }`}
+                  >
+                    {option === "this" ? "This occurrence" : "All future occurrences"}
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 mb-6">
               {session.title && (
                 <p className="font-semibold text-lg mb-2">{session.title}</p>
@@ -453,14 +651,16 @@ const SessionCard: React.FC<SessionCardProps> = observer(({
                 disabled={deleting}
                 className="flex-1 py-2 px-4 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm transition-colors disabled:opacity-50"
               >
-                Cancel
+                {isSeries ? "Keep" : "Cancel"}
               </button>
               <button
                 onClick={confirmDelete}
                 disabled={deleting}
                 className="flex-1 py-2 px-4 rounded-lg bg-red-600 text-white hover:bg-red-700 font-medium text-sm transition-colors disabled:opacity-50"
               >
-                {deleting ? "Deleting..." : "Delete Session"}
+                {isSeries
+                  ? deleting ? "Cancelling..." : cancelScope === "this" ? "Cancel Session" : "Cancel Sessions"
+                  : deleting ? "Deleting..." : "Delete Session"}
               </button>
             </div>
           </div>
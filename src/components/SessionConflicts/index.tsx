@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from "react";
+import { Session, sessionStore } from "../../stores/SessionStore";
+import {
+  SessionSlot,
+  SessionConflict,
+  findConflictsForSlots,
+  findNextFreeSlot,
+  describeConflictReasons,
+} from "../../utils/conflictUtils";
+import { formatTime } from "../../utils/sessionUtils";
+import { parseDateInput } from "../../utils/recurrenceUtils";
+
+interface SessionConflictsProps {
+  // One slot per date being scheduled (several for a series)
+  slots: SessionSlot[];
+  onShift: (startTime: string, endTime: string) => void;
+  onConflictsChange: (hasConflicts: boolean) => void;
+}
+
+const CHECK_DELAY_MS = 300;
+
+/**
+ * SessionConflicts - Inline overlap warning for the session forms, listing
+ * each clashing session with a one-click shift to the next free time.
+ */
+const SessionConflicts: React.FC<SessionConflictsProps> = ({ slots, onShift, onConflictsChange }) => {
+  const [existing, setExisting] = useState<Session[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [checkFailed, setCheckFailed] = useState(false);
+
+  const dates = slots.map((slot) => slot.date).sort();
+  const from = dates[0];
+  const to = dates[dates.length - 1];
+
+  // Fetch once per date range; the overlap math below runs on every edit
+  useEffect(() => {
+    if (!from || !to) {
+      setExisting([]);
+      setChecking(false);
+      setCheckFailed(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setChecking(true);
+      const sessions = await sessionStore.fetchSessionsBetween(from, to);
+      if (!cancelled) {
+        setExisting(sessions || []);
+        setCheckFailed(!sessions);
+        setChecking(false);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [from, to]);
+
+  const validSlots = slots.filter((slot) => slot.venueId && slot.startTime < slot.endTime);
+  const conflicts: SessionConflict[] = findConflictsForSlots(validSlots, existing);
+  const hasConflicts = conflicts.length > 0;
+
+  useEffect(() => {
+    onConflictsChange(hasConflicts);
+  }, [hasConflicts, onConflictsChange]);
+
+  if (!hasConflicts) {
+    if (checking) {
+      return <p className="text-xs text-gray-500 dark:text-gray-400">Checking for conflicts...</p>;
+    }
+    return checkFailed ? (
+      <p className="text-xs text-amber-600 dark:text-amber-400">
+        Couldn't check for conflicts. Make sure the venue and coach are free before saving.
+      </p>
+    ) : null;
+  }
+
+  const nextFree = findNextFreeSlot(validSlots, existing);
+
+  return (
+    <div className="p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+      <p className="text-sm font-medium text-red-700 dark:text-red-400 mb-2">
+        This time clashes with {conflicts.length} existing session{conflicts.length > 1 ? "s" : ""}:
+      </p>
+      <ul className="space-y-1 mb-3">
+        {conflicts.slice(0, 5).map((conflict) => (
+          <li
+            key={`${conflict.date}-${conflict.session._id}`}
+            className="text-sm text-gray-700 dark:text-gray-300"
+          >
+            <span className="font-medium">{conflict.session.title || "Session"}</span>
+            {" · "}
+            {parseDateInput(conflict.date).toLocaleDateString("en-US", {
+              weekday: "short",
+              month: "short",
+              day: "numeric",
+            })}{" "}
+            {formatTime(conflict.session.startTime)} - {formatTime(conflict.session.endTime)}
+            {" at "}
+            {conflict.session.venueId?.name}
+            {conflict.session.coachId?.displayName && ` with ${conflict.session.coachId.displayName}`}
+            <span className="text-xs text-red-600 dark:text-red-400">
+              {" "}({describeConflictReasons(conflict.reasons)})
+            </span>
+          </li>
+        ))}
+        {conflicts.length > 5 && (
+          <li className="text-xs text-gray-500 dark:text-gray-400">
+            and {conflicts.length - 5} more
+          </li>
+        )}
+      </ul>
+      {nextFree ? (
+        <button
+          type="button"
+          onClick={() => onShift(nextFree.startTime, nextFree.endTime)}
+          className="px-3 py-1.5 text-sm rounded-lg bg-white dark:bg-zinc-800 border border-red-300 dark:border-red-700 text-red-700 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30"
+        >
+          Shift to next free slot ({formatTime(nextFree.startTime)} - {formatTime(nextFree.endTime)})
+        </button>
+      ) : (
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          No free slot of the same length later that day. Try another date or venue.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SessionConflicts;
@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import {
+  TOURNAMENT_FORMAT_LABELS,
+  Tournament,
+  TournamentFormData,
+  TournamentFormat,
+  tournamentStore,
+} from "../../stores/TournamentStore";
+import { venueStore } from "../../stores/VenueStore";
+import { toDateTimeInput } from "../../utils/bracketUtils";
+import { containsProfanity, getProfanityErrorMessage } from "../../utils/profanityFilter";
+import { containsDangerousPatterns, sanitizeFormInput } from "../../utils/securityUtils";
+
+const NAME_MAX = 80;
+const DESCRIPTION_MAX = 1000;
+
+interface TournamentFormModalProps {
+  // Tournament to edit; omit to create a new one
+  tournament?: Tournament;
+  onClose: () => void;
+  onSaved?: (tournament: Tournament | null) => void;
+}
+
+/**
+ * TournamentFormModal - Create a tournament or edit its details before it starts
+ */
+const TournamentFormModal: React.FC<TournamentFormModalProps> = observer(({ tournament, onClose, onSaved }) => {
+  const isEdit = !!tournament;
+  const [name, setName] = useState(tournament?.name || "");
+  const [description, setDescription] = useState(tournament?.description || "");
+  const [date, setDate] = useState(tournament ? toDateTimeInput(new Date(tournament.date)) : "");
+  const [venueId, setVenueId] = useState(tournament?.venueId || "");
+  const [format, setFormat] = useState<TournamentFormat>(tournament?.format || "single_elimination");
+  const [poolCount, setPoolCount] = useState(tournament?.poolCount || 1);
+  const [maxTeams, setMaxTeams] = useState(tournament?.maxTeams || 16);
+  const [matchMinutes, setMatchMinutes] = useState(tournament?.matchMinutes || 30);
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+  // Format can't change once the bracket is drawn
+  const started = tournament && tournament.status !== "registration";
+
+  useEffect(() => {
+    if (venueStore.venues.length === 0) venueStore.fetchVenues();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (name.trim().length < 3) {
+      setError("Name must be at least 3 characters");
+      return;
+    }
+    if (!date) {
+      setError("Pick a start date and time");
+      return;
+    }
+    if (containsProfanity(name) || containsProfanity(description)) {
+      setError(getProfanityErrorMessage());
+      return;
+    }
+    if (containsDangerousPatterns(name) || containsDangerousPatterns(description)) {
+      setError("Tournament details contain invalid characters");
+      return;
+    }
+    if (maxTeams < 2) {
+      setError("A tournament needs room for at least two teams");
+      return;
+    }
+
+    const data: TournamentFormData = {
+      name: sanitizeFormInput(name.trim(), NAME_MAX),
+      description: sanitizeFormInput(description.trim(), DESCRIPTION_MAX),
+      date: new Date(date).toISOString(),
+      venueId: venueId || null,
+      format,
+      maxTeams,
+      matchMinutes,
+      ...(format === "round_robin" && { poolCount }),
+    };
+
+    setSaving(true);
+    try {
+      if (isEdit && tournament) {
+        const success = await tournamentStore.updateTournament(tournament._id, data);
+        if (!success) {
+          setError(tournamentStore.error || "Failed to update tournament");
+          return;
+        }
+        onSaved?.(tournamentStore.getTournament(tournament._id) || null);
+      } else {
+        const created = await tournamentStore.createTournament(data);
+        if (!created) {
+          setError(tournamentStore.error || "Failed to create tournament");
+          return;
+        }
+        onSaved?.(created);
+      }
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full p-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500";
+  const labelClass = "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {isEdit ? "Edit Tournament" : "New Tournament"}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={NAME_MAX}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={DESCRIPTION_MAX}
+              rows={3}
+              placeholder="Divisions, entry rules, prizes..."
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Starts</label>
+              <input
+                type="datetime-local"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Venue</label>
+              <select value={venueId} onChange={(e) => setVenueId(e.target.value)} className={inputClass}>
+                <option value="">To be announced</option>
+                {venueStore.venues.map((venue) => (
+                  <option key={venue.id} value={venue.id}>
+                    {venue.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+              disabled={started}
+              className={`${inputClass} disabled:opacity-60`}
+            >
+              {(Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]).map((key) => (
+                <option key={key} value={key}>
+                  {TOURNAMENT_FORMAT_LABELS[key]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Max teams</label>
+              <input
+                type="number"
+                min={2}
+                max={64}
+                value={maxTeams}
+                onChange={(e) => setMaxTeams(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Match length (min)</label>
+              <input
+                type="number"
+                min={10}
+                max={120}
+                step={5}
+                value={matchMinutes}
+                onChange={(e) => setMatchMinutes(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            {format === "round_robin" && (
+              <div>
+                <label className={labelClass}>Pools</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={poolCount}
+                  onChange={(e) => setPoolCount(Number(e.target.value))}
+                  disabled={started}
+                  className={`${inputClass} disabled:opacity-60`}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-lg font-medium text-white bg-brand-600 hover:bg-brand-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : isEdit ? "Save Changes" : "Create Tournament"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+export default TournamentFormModal;
@@ -10,6 +10,8 @@ interface UserBadgeProps {
   showName?: boolean;
   className?: string;
   linkToProfile?: boolean;
+  rating?: number | null; // Shown as a small pill after the name when provided
+  ladderPosition?: number | null; // Ladder rank, shown as "#3" after the name
 }
 
 /**
@@ -26,6 +28,8 @@ const UserBadge: React.FC<UserBadgeProps> = ({
   showName = true,
   className = "",
   linkToProfile = true,
+  rating,
+  ladderPosition,
 }) => {
   const avatarSize = size === "xs" ? "xs" : size === "sm" ? "sm" : "md";
   const nameSize =
@@ -45,6 +49,22 @@ const UserBadge: React.FC<UserBadgeProps> = ({
           {displayName}
         </span>
       )}
+      {rating != null && (
+        <span
+          className="flex-shrink-0 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300"
+          title="Player rating"
+        >
+          {Math.round(rating)}
+        </span>
+      )}
+      {ladderPosition != null && (
+        <span
+          className="flex-shrink-0 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300"
+          title="Ladder position"
+        >
+          #{ladderPosition}
+        </span>
+      )}
     </div>
   );
 
@@ -1,21 +1,29 @@
 import React, { useState, useEffect, useRef, useCallback } from "react";
 import { observer } from "mobx-react-lite";
 import { useNavigate } from "react-router-dom";
-import { userStore } from "../../stores/UserStore";
+import { userStore, UserSearchResult } from "../../stores/UserStore";
 import Avatar from "../Avatar";
 import CoachBadge from "../CoachBadge";
 
 interface UserSearchModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Pick mode: hand the clicked user back instead of opening their profile
+  onSelect?: (user: UserSearchResult) => void;
+  // Users already picked, hidden from the results
+  excludeIds?: string[];
+  placeholder?: string;
 }
 
 /**
- * UserSearchModal - Search and click to view user profiles
+ * UserSearchModal - Search and click to view user profiles, or pick a user when onSelect is set
  */
 const UserSearchModal: React.FC<UserSearchModalProps> = observer(({
   isOpen,
   onClose,
+  onSelect,
+  excludeIds = [],
+  placeholder = "Search users by name...",
 }) => {
   const [query, setQuery] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
@@ -51,9 +59,13 @@ const UserSearchModal: React.FC<UserSearchModalProps> = observer(({
     handleSearch(value);
   };
 
-  const handleUserClick = (userId: string) => {
+  const handleUserClick = (user: UserSearchResult) => {
     onClose();
-    navigate(`/profile/${userId}`);
+    if (onSelect) {
+      onSelect(user);
+    } else {
+      navigate(`/profile/${user._id}`);
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -64,7 +76,8 @@ const UserSearchModal: React.FC<UserSearchModalProps> = observer(({
 
   if (!isOpen) return null;
 
-  const { searchResults, searchLoading } = userStore;
+  const { searchLoading } = userStore;
+  const searchResults = userStore.searchResults.filter((u) => !excludeIds.includes(u._id));
 
   return (
     <div
@@ -101,7 +114,7 @@ const UserSearchModal: React.FC<UserSearchModalProps> = observer(({
               value={query}
               onChange={handleInputChange}
               onKeyDown={handleKeyDown}
-              placeholder="Search users by name..."
+              placeholder={placeholder}
               className="w-full pl-10 pr-4 py-3 bg-gray-100 dark:bg-gray-700 border-0 rounded-lg focus:ring-2 focus:ring-green-500 dark:focus:ring-green-400 text-gray-900 dark:text-white placeholder-gray-500"
             />
             {searchLoading && (
@@ -133,7 +146,7 @@ const UserSearchModal: React.FC<UserSearchModalProps> = observer(({
               {searchResults.map((user) => (
                 <button
                   key={user._id}
-                  onClick={() => handleUserClick(user._id)}
+                  onClick={() => handleUserClick(user)}
                   className="w-full flex items-center gap-3 p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors text-left"
                 >
                   <Avatar
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { Venue } from "../../stores/VenueStore";
+import type { Session } from "../../stores/SessionStore";
+import { VENUE_STATUS_LABELS } from "../../stores/VenueStore";
+import type { UserLocation } from "../../stores/LocationStore";
+import { clusterByGrid, hasCoordinates } from "../../utils/geoUtils";
+import { createMap, escapeHtml, L } from "../../utils/mapUtils";
+import { formatTime } from "../../utils/sessionUtils";
+import { getEffectiveStatus } from "../../utils/venueStatusUtils";
+import { getDirectionsLinks } from "../../utils/directionsUtils";
+
+interface VenuesMapProps {
+  venues: Venue[];
+  // Today's sessions, listed in each venue's popup
+  sessions: Session[];
+  userLocation?: UserLocation | null;
+  // Venue to pan to and open, e.g. when picked from a list
+  focusVenueId?: string | null;
+}
+
+// Markers closer than this on screen merge into one cluster
+const CLUSTER_CELL_PX = 60;
+// Metro Manila, for when no venue has coordinates yet
+const DEFAULT_CENTER: [number, number] = [14.5995, 120.9842];
+
+const buildPopup = (venue: Venue, sessions: Session[]): string => {
+  const todays = sessions
+    .filter((s) => s.venueId?._id === venue.id && s.status !== "cancelled")
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  const sessionItems = todays.length
+    ? todays
+        .map(
+          (s) =>
+            `<li><a href="/sessions/${s._id}" data-session-id="${s._id}">${formatTime(s.startTime)} ${escapeHtml(
+              s.title || "Session"
+            )}</a> <span style="color:#6b7280">${s.attendees.length}/${s.maxPlayers}</span></li>`
+        )
+        .join("")
+    : `<li style="color:#6b7280">No sessions today</li>`;
+
+  const directions = hasCoordinates(venue)
+    ? `<div style="margin-top:6px;font-size:12px">Directions: ${getDirectionsLinks(venue)
+        .map((link) => `<a href="${link.url}" target="_blank" rel="noopener noreferrer">${link.label}</a>`)
+        .join(" · ")}</div>`
+    : "";
+
+  return `<div style="min-width:180px">
+    <b>${escapeHtml(venue.name)}</b>
+    <div style="font-size:12px;color:#6b7280">${VENUE_STATUS_LABELS[getEffectiveStatus(venue)]}</div>
+    <ul style="margin:6px 0 0;padding-left:16px;font-size:13px">${sessionItems}</ul>
+    ${directions}
+  </div>`;
+};
+
+/**
+ * VenuesMap - Every venue with coordinates on one map, clustered when zoomed out
+ */
+const VenuesMap: React.FC<VenuesMapProps> = ({ venues, sessions, userLocation, focusVenueId }) => {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const mappedVenues = useMemo(() => venues.filter(hasCoordinates), [venues]);
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    mapRef.current = createMap(containerRef.current).setView(DEFAULT_CENTER, 11);
+    layerRef.current = L.layerGroup().addTo(mapRef.current);
+    setReady(true);
+
+    return () => {
+      mapRef.current?.remove();
+      mapRef.current = null;
+      layerRef.current = null;
+      setReady(false);
+    };
+  }, []);
+
+  // Session links inside popups are plain HTML; route them through the SPA
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleClick = (e: MouseEvent) => {
+      const link = (e.target as HTMLElement).closest("a[data-session-id]");
+      if (link) {
+        e.preventDefault();
+        navigate(`/sessions/${link.getAttribute("data-session-id")}`);
+      }
+    };
+    container.addEventListener("click", handleClick);
+    return () => container.removeEventListener("click", handleClick);
+  }, [navigate]);
+
+  // Fit to the venues the first time they're available
+  const fitted = useRef(false);
+  useEffect(() => {
+    if (!ready || !mapRef.current || fitted.current || mappedVenues.length === 0) return;
+    mapRef.current.fitBounds(
+      L.latLngBounds(mappedVenues.map((v) => [v.latitude, v.longitude] as L.LatLngTuple)),
+      { padding: [40, 40], maxZoom: 15 }
+    );
+    fitted.current = true;
+  }, [ready, mappedVenues.length]);
+
+  // Redraw markers and clusters whenever the data or zoom changes
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!ready || !map) return;
+
+    const render = () => {
+      const layer = layerRef.current;
+      if (!layer) return;
+      layer.clearLayers();
+
+      const zoom = map.getZoom();
+      const clusters = clusterByGrid(
+        mappedVenues.map((venue) => {
+          const point = map.project([venue.latitude, venue.longitude], zoom);
+          return { x: point.x, y: point.y, item: venue };
+        }),
+        CLUSTER_CELL_PX
+      );
+
+      clusters.forEach((cluster) => {
+        if (cluster.items.length === 1) {
+          const venue = cluster.items[0];
+          L.marker([venue.latitude, venue.longitude])
+            .bindPopup(buildPopup(venue, sessions))
+            .addTo(layer);
+          return;
+        }
+
+        const center = map.unproject(L.point(cluster.x, cluster.y), zoom);
+        L.marker(center, {
+          icon: L.divIcon({
+            html: `<div style="display:flex;align-items:center;justify-content:center;width:36px;height:36px;border-radius:9999px;background:#16a34a;color:#fff;font-weight:600;border:3px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.3)">${cluster.items.length}</div>`,
+            className: "",
+            iconSize: [36, 36],
+          }),
+        })
+          .on("click", () => {
+            map.fitBounds(
+              L.latLngBounds(cluster.items.map((v) => [v.latitude, v.longitude] as L.LatLngTuple)),
+              { padding: [40, 40] }
+            );
+          })
+          .addTo(layer);
+      });
+
+      if (userLocation) {
+        L.circleMarker([userLocation.latitude, userLocation.longitude], {
+          radius: 8,
+          color: "#fff",
+          weight: 3,
+          fillColor: "#2563eb",
+          fillOpacity: 1,
+        })
+          .bindTooltip(escapeHtml(userLocation.label || "You are here"))
+          .addTo(layer);
+      }
+    };
+
+    render();
+    map.on("zoomend", render);
+    return () => {
+      map.off("zoomend", render);
+    };
+  }, [ready, mappedVenues, sessions, userLocation]);
+
+  // Pan to a venue picked outside the map
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!ready || !map || !focusVenueId) return;
+    const venue = mappedVenues.find((v) => v.id === focusVenueId);
+    if (!venue) return;
+
+    map.setView([venue.latitude, venue.longitude], Math.max(map.getZoom(), 16));
+    L.popup()
+      .setLatLng([venue.latitude, venue.longitude])
+      .setContent(buildPopup(venue, sessions))
+      .openOn(map);
+  }, [ready, focusVenueId]);
+
+  return (
+    <div className="relative w-full h-full min-h-[400px] rounded-xl overflow-hidden bg-gray-100 dark:bg-gray-800">
+      <div ref={containerRef} className="absolute inset-0" />
+      {ready && mappedVenues.length === 0 && (
+        <div className="absolute bottom-3 left-3 right-3 z-[400] p-3 rounded-lg bg-white/90 dark:bg-gray-900/90 text-sm text-gray-600 dark:text-gray-300">
+          No venues have map coordinates yet.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VenuesMap;
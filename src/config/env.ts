@@ -20,3 +20,34 @@ export const SOCKET_URL =
   (import.meta.env as any)?.VITE_SOCKET_URL ||
   inferredFromApi ||
   (IS_DEV ? "http://localhost:5000" : window.location.origin);
+
+// Map tiles: OpenStreetMap by default, or a self-hosted tile server via
+// VITE_MAP_TILE_URL. Satellite imagery is only offered when a licensed
+// source is configured in VITE_MAP_SATELLITE_URL.
+export interface TileProviderConfig {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+const OSM_TILES: TileProviderConfig = {
+  url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19,
+};
+
+export const MAP_TILES: TileProviderConfig = import.meta.env.VITE_MAP_TILE_URL
+  ? {
+      url: import.meta.env.VITE_MAP_TILE_URL,
+      attribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION || OSM_TILES.attribution,
+      maxZoom: 19,
+    }
+  : OSM_TILES;
+
+export const MAP_SATELLITE_TILES: TileProviderConfig | null = import.meta.env.VITE_MAP_SATELLITE_URL
+  ? {
+      url: import.meta.env.VITE_MAP_SATELLITE_URL,
+      attribution: import.meta.env.VITE_MAP_SATELLITE_ATTRIBUTION || "",
+      maxZoom: 20,
+    }
+  : null;
@@ -7,17 +7,21 @@ interface UseImageUploadReturn {
   inputRef: React.RefObject<HTMLInputElement>;
   handleFileChange: (e: ChangeEvent<HTMLInputElement>) => void;
   uploadToCloudinary: (folder: string) => Promise<string>;
+  /** Uploads a file picked or cropped outside the hook */
+  uploadImage: (file: File, folder: string) => Promise<string>;
+  uploading: boolean;
   reset: () => void;
   triggerFileSelect: () => void;
 }
 
 /**
  * Custom hook for handling image uploads to Cloudinary.
- * Extracts duplicated upload logic from AdminPage.
+ * Shared by the admin venue forms, profile editing and clubs.
  */
 export function useImageUpload(): UseImageUploadReturn {
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
@@ -35,33 +39,42 @@ export function useImageUpload(): UseImageUploadReturn {
     }
   };
 
-  const uploadToCloudinary = async (folder: string): Promise<string> => {
-    if (!file) {
-      throw new Error("No file selected");
-    }
+  const uploadImage = async (imageFile: File, folder: string): Promise<string> => {
+    setUploading(true);
+
+    try {
+      // Get signed upload credentials from backend
+      const signRes = await axios.post("/uploads/sign", { folder });
+      const { timestamp, signature, api_key, cloud_name, folder: signedFolder } = signRes.data;
 
-    // Get signed upload credentials from backend
-    const signRes = await axios.post("/uploads/sign", { folder });
-    const { timestamp, signature, api_key, cloud_name, folder: signedFolder } = signRes.data;
+      // Build form data for Cloudinary. The folder must be the one that was signed.
+      const formData = new FormData();
+      formData.append("file", imageFile);
+      formData.append("api_key", api_key);
+      formData.append("timestamp", String(timestamp));
+      formData.append("signature", signature);
+      if (signedFolder) formData.append("folder", signedFolder);
 
-    // Build form data for Cloudinary
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("api_key", api_key);
-    formData.append("timestamp", String(timestamp));
-    formData.append("signature", signature);
-    if (signedFolder) formData.append("folder", signedFolder);
+      // Upload to Cloudinary
+      const uploadUrl = `https://api.cloudinary.com/v1_1/${cloud_name}/image/upload`;
+      const response = await fetch(uploadUrl, { method: "POST", body: formData });
 
-    // Upload to Cloudinary
-    const uploadUrl = `https://api.cloudinary.com/v1_1/${cloud_name}/image/upload`;
-    const response = await fetch(uploadUrl, { method: "POST", body: formData });
+      if (!response.ok) {
+        throw new Error("Failed to upload image to Cloudinary");
+      }
 
-    if (!response.ok) {
-      throw new Error("Failed to upload image to Cloudinary");
+      const data = await response.json();
+      return data.secure_url as string;
+    } finally {
+      setUploading(false);
     }
+  };
 
-    const data = await response.json();
-    return data.secure_url as string;
+  const uploadToCloudinary = async (folder: string): Promise<string> => {
+    if (!file) {
+      throw new Error("No file selected");
+    }
+    return uploadImage(file, folder);
   };
 
   const reset = () => {
@@ -82,6 +95,8 @@ export function useImageUpload(): UseImageUploadReturn {
     inputRef,
     handleFileChange,
     uploadToCloudinary,
+    uploadImage,
+    uploading,
     reset,
     triggerFileSelect,
   };
@@ -1,25 +1,29 @@
 import React, { useState, FormEvent } from "react";
-import { useImageUpload } from "../hooks/useImageUpload";
+import { useImageUpload } from "../../../hooks/useImageUpload";
+import OpeningHoursEditor from "./OpeningHoursEditor";
+import {
+  CreateVenueData,
+  OpeningHours,
+  VenueStatus,
+  VENUE_STATUS_LABELS,
+} from "../../../stores/VenueStore";
+import { VENUE_STATUS_STYLES } from "../../../utils/venueStatusUtils";
+import { validateOpeningHours } from "../../../utils/openingHoursUtils";
 
 // Temporary feature flag: hide manual location inputs
 const SHOW_LOCATION_FIELDS = false;
 
 interface AddVenueFormProps {
-  onSubmit: (data: {
-    name: string;
-    status: string;
-    photoURL?: string;
-    latitude?: number;
-    longitude?: number;
-  }) => Promise<void>;
+  onSubmit: (data: CreateVenueData) => Promise<void>;
   loading: boolean;
 }
 
 const AddVenueForm: React.FC<AddVenueFormProps> = ({ onSubmit, loading }) => {
   const [name, setName] = useState("");
-  const [status, setStatus] = useState("Available");
+  const [status, setStatus] = useState<VenueStatus>("available");
   const [latitude, setLatitude] = useState("");
   const [longitude, setLongitude] = useState("");
+  const [openingHours, setOpeningHours] = useState<OpeningHours>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const imageUpload = useImageUpload();
@@ -32,6 +36,12 @@ const AddVenueForm: React.FC<AddVenueFormProps> = ({ onSubmit, loading }) => {
       return;
     }
 
+    const hoursError = validateOpeningHours(openingHours);
+    if (hoursError) {
+      alert(hoursError);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -47,13 +57,15 @@ const AddVenueForm: React.FC<AddVenueFormProps> = ({ onSubmit, loading }) => {
         photoURL,
         latitude: latitude ? parseFloat(latitude) : undefined,
         longitude: longitude ? parseFloat(longitude) : undefined,
+        ...(openingHours.length > 0 && { openingHours }),
       });
 
       // Reset form on success
       setName("");
-      setStatus("Available");
+      setStatus("available");
       setLatitude("");
       setLongitude("");
+      setOpeningHours([]);
       imageUpload.reset();
     } catch (error) {
       console.error("Error adding venue:", error);
@@ -99,11 +111,14 @@ const AddVenueForm: React.FC<AddVenueFormProps> = ({ onSubmit, loading }) => {
                 <select
                   id="venueStatus"
                   value={status}
-                  onChange={(e) => setStatus(e.target.value)}
+                  onChange={(e) => setStatus(e.target.value as VenueStatus)}
                   className="w-full p-3 border border-gray-300 dark:border-gray-800 rounded-md focus:ring-2 focus:ring-brand-500 dark:focus:ring-brand-400 focus:border-transparent transition-all duration-200 dark:bg-zinc-800 dark:text-gray-100"
                 >
-                  <option value="Available">Available</option>
-                  <option value="Unavailable">Unavailable</option>
+                  {(Object.keys(VENUE_STATUS_LABELS) as VenueStatus[]).map((option) => (
+                    <option key={option} value={option}>
+                      {VENUE_STATUS_LABELS[option]}
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -121,6 +136,13 @@ const AddVenueForm: React.FC<AddVenueFormProps> = ({ onSubmit, loading }) => {
                 />
               </div>
 
+              <div>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">
+                  Opening Hours
+                </span>
+                <OpeningHoursEditor value={openingHours} onChange={setOpeningHours} />
+              </div>
+
               {SHOW_LOCATION_FIELDS && (
                 <div className="grid grid-cols-2 gap-4">
                   <div>
@@ -195,12 +217,8 @@ const AddVenueForm: React.FC<AddVenueFormProps> = ({ onSubmit, loading }) => {
                 <h4 className="text-lg font-medium text-gray-800 dark:text-gray-200">
                   {name || "Venue Name"}
                 </h4>
-                <span className={`px-3 py-1 rounded-full text-xs font-medium ${
-                  status === "Available"
-                    ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
-                    : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
-                }`}>
-                  {status}
+                <span className={`px-3 py-1 rounded-full text-xs font-medium ${VENUE_STATUS_STYLES[status].badge}`}>
+                  {VENUE_STATUS_LABELS[status]}
                 </span>
               </div>
               <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -1,6 +1,8 @@
 import React from "react";
 import Avatar from "../../../components/Avatar";
 import { Attendee, SelectedVenue } from "../types";
+import { VENUE_STATUS_LABELS } from "../../../stores/VenueStore";
+import { VENUE_STATUS_STYLES } from "../../../utils/venueStatusUtils";
 
 interface AttendeesModalProps {
   venue: SelectedVenue;
@@ -22,12 +24,8 @@ const AttendeesModal: React.FC<AttendeesModalProps> = ({ venue, attendees, onClo
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
                   {venue.name} - Attendees
                 </h3>
-                <span className={`px-3 py-1 rounded-full text-xs font-medium ${
-                  venue.status === "Available"
-                    ? "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200"
-                    : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
-                }`}>
-                  {venue.status}
+                <span className={`px-3 py-1 rounded-full text-xs font-medium ${VENUE_STATUS_STYLES[venue.status].badge}`}>
+                  {VENUE_STATUS_LABELS[venue.status]}
                 </span>
               </div>
               <button
@@ -75,7 +73,9 @@ const AttendeesModal: React.FC<AttendeesModalProps> = ({ venue, attendees, onClo
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
                 </svg>
                 <p className="mt-4 text-gray-500 dark:text-gray-400">
-                  {venue.status === "Available" ? "No attendees yet" : "Venue is currently unavailable"}
+                  {venue.status === "available"
+                    ? "No attendees yet"
+                    : `Venue is currently ${VENUE_STATUS_LABELS[venue.status].toLowerCase()}`}
                 </p>
               </div>
             )}
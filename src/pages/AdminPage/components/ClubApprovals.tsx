@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { clubStore } from "../../../stores/ClubStore";
+
+const ClubApprovals: React.FC = observer(() => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const clubs = clubStore.clubsAwaitingReview;
+
+  // Load on mount so the button can show how many are waiting
+  useEffect(() => {
+    clubStore.fetchClubsAwaitingReview();
+  }, []);
+
+  const handleReview = async (clubId: string, approve: boolean) => {
+    let reason: string | undefined;
+    if (!approve) {
+      const input = window.prompt("Reason for rejecting (shown to the club's creator):");
+      if (input === null) return;
+      reason = input.trim() || undefined;
+    }
+
+    setBusyId(clubId);
+    setError("");
+    const success = await clubStore.reviewClub(clubId, approve, reason);
+    if (!success) setError(clubStore.error || "Failed to review club");
+    setBusyId(null);
+  };
+
+  return (
+    <div className="mb-6">
+      {/* Toggle Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+        {isOpen ? "Hide Club Approvals" : "Club Approvals"}
+        {clubs.length > 0 && (
+          <span className="ml-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-white text-teal-700">
+            {clubs.length}
+          </span>
+        )}
+      </button>
+
+      {/* Panel */}
+      {isOpen && (
+        <div className="mt-4 bg-white dark:bg-zinc-900 rounded-lg shadow-md border border-gray-200 dark:border-gray-800 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            New Clubs Awaiting Review
+          </h3>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+
+          {clubs.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400">No clubs are waiting for approval.</p>
+          ) : (
+            <div className="space-y-4">
+              {clubs.map((club) => (
+                <div
+                  key={club._id}
+                  className="flex flex-col sm:flex-row sm:items-start gap-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700"
+                >
+                  {club.logo ? (
+                    <img src={club.logo} alt={club.name} className="w-14 h-14 rounded-full object-cover" />
+                  ) : (
+                    <div className="w-14 h-14 rounded-full bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center text-brand-600 dark:text-brand-400 font-bold">
+                      {club.name.substring(0, 2).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{club.name}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">
+                      {club.description}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleReview(club._id, true)}
+                      disabled={busyId === club._id}
+                      className="px-3 py-1.5 text-sm rounded-md bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReview(club._id, false)}
+                      disabled={busyId === club._id}
+                      className="px-3 py-1.5 text-sm rounded-md bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ClubApprovals;
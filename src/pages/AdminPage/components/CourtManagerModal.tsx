@@ -0,0 +1,200 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import {
+  venueStore,
+  Court,
+  CourtData,
+  CourtSurface,
+  COURT_SURFACE_LABELS,
+} from "../../../stores/VenueStore";
+import { describeCourtFeatures } from "../../../utils/courtUtils";
+
+interface CourtManagerModalProps {
+  venueId: string;
+  venueName: string;
+  onClose: () => void;
+}
+
+const emptyCourt = (index: number): CourtData => ({
+  name: `Court ${index}`,
+  surface: "concrete",
+  indoor: false,
+  lights: false,
+});
+
+const CourtManagerModal: React.FC<CourtManagerModalProps> = observer(({ venueId, venueName, onClose }) => {
+  const courts = venueStore.getCourts(venueId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CourtData>(emptyCourt(courts.length + 1));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const startEdit = (court: Court) => {
+    setEditingId(court.id);
+    setDraft({ name: court.name, surface: court.surface, indoor: court.indoor, lights: court.lights });
+    setError("");
+  };
+
+  const resetDraft = () => {
+    setEditingId(null);
+    setDraft(emptyCourt(venueStore.getCourts(venueId).length + 1));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) {
+      setError("Court name is required");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    const success = editingId
+      ? await venueStore.updateCourt(venueId, editingId, { ...draft, name: draft.name.trim() })
+      : await venueStore.addCourt(venueId, { ...draft, name: draft.name.trim() });
+    setSaving(false);
+
+    if (success) {
+      resetDraft();
+    } else {
+      setError(venueStore.error || "Failed to save court");
+    }
+  };
+
+  const handleDelete = async (court: Court) => {
+    if (!window.confirm(`Remove ${court.name}? Sessions that reserved it will use the whole venue.`)) return;
+    const success = await venueStore.deleteCourt(venueId, court.id);
+    if (!success) {
+      setError(venueStore.error || "Failed to delete court");
+    } else if (editingId === court.id) {
+      resetDraft();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">Courts</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{venueName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {courts.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No courts yet. Sessions here book the whole venue until courts are added.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {courts.map((court) => (
+                <li
+                  key={court.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{court.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {describeCourtFeatures(court, COURT_SURFACE_LABELS[court.surface])}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 text-sm">
+                    <button onClick={() => startEdit(court)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                      Edit
+                    </button>
+                    <button onClick={() => handleDelete(court)} className="text-red-600 dark:text-red-400 hover:underline">
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">
+              {editingId ? "Edit court" : "Add a court"}
+            </h4>
+
+            {error && (
+              <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Court name"
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+              />
+              <select
+                value={draft.surface}
+                onChange={(e) => setDraft({ ...draft, surface: e.target.value as CourtSurface })}
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+              >
+                {(Object.keys(COURT_SURFACE_LABELS) as CourtSurface[]).map((surface) => (
+                  <option key={surface} value={surface}>
+                    {COURT_SURFACE_LABELS[surface]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex gap-4 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.indoor}
+                  onChange={(e) => setDraft({ ...draft, indoor: e.target.checked })}
+                />
+                Indoor
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.lights}
+                  onChange={(e) => setDraft({ ...draft, lights: e.target.checked })}
+                />
+                Lights
+              </label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={resetDraft}
+                  className="px-4 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                >
+                  Cancel edit
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : editingId ? "Save Court" : "Add Court"}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default CourtManagerModal;
@@ -1,8 +1,15 @@
 import React, { useState, useEffect } from "react";
 import { observer } from "mobx-react-lite";
 import axios from "axios";
-import { sessionStore, CreateSessionData } from "../../../stores/SessionStore";
+import { sessionStore, CreateSessionData, SessionRecurrence } from "../../../stores/SessionStore";
+import { clubStore } from "../../../stores/ClubStore";
 import { venueStore } from "../../../stores/VenueStore";
+import CourtPicker from "../../../components/CourtPicker";
+import SessionConflicts from "../../../components/SessionConflicts";
+import ClubSessionFields, { ClubSessionValue } from "../../../components/ClubSessionFields";
+import RecurrenceFields from "../../../components/RecurrenceFields";
+import { generateOccurrenceDates, getRecurrenceError, parseDateInput } from "../../../utils/recurrenceUtils";
+import { checkOpeningHours, formatDayHours, getDayHours } from "../../../utils/openingHoursUtils";
 
 interface Coach {
   _id: string;
@@ -22,6 +29,7 @@ const CreateSessionForm: React.FC = observer(() => {
   // Form state
   const [sessionType, setSessionType] = useState<SessionType>("open");
   const [venueId, setVenueId] = useState("");
+  const [courtIds, setCourtIds] = useState<string[]>([]);
   const [date, setDate] = useState("");
   const [startTime, setStartTime] = useState("09:00");
   const [endTime, setEndTime] = useState("12:00");
@@ -29,11 +37,15 @@ const CreateSessionForm: React.FC = observer(() => {
   const [maxPlayers, setMaxPlayers] = useState(20);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [recurrence, setRecurrence] = useState<SessionRecurrence | null>(null);
+  const [clubSession, setClubSession] = useState<ClubSessionValue>({ clubId: "", membersOnly: false });
+  const [hasConflicts, setHasConflicts] = useState(false);
 
   // Fetch coaches when form opens
   useEffect(() => {
     if (isOpen) {
       fetchCoaches();
+      clubStore.fetchClubs();
     }
   }, [isOpen]);
 
@@ -49,6 +61,7 @@ const CreateSessionForm: React.FC = observer(() => {
   const resetForm = () => {
     setSessionType("open");
     setVenueId("");
+    setCourtIds([]);
     setDate("");
     setStartTime("09:00");
     setEndTime("12:00");
@@ -56,6 +69,8 @@ const CreateSessionForm: React.FC = observer(() => {
     setMaxPlayers(20);
     setTitle("");
     setDescription("");
+    setRecurrence(null);
+    setClubSession({ clubId: "", membersOnly: false });
     setError("");
   };
 
@@ -82,6 +97,38 @@ const CreateSessionForm: React.FC = observer(() => {
       return;
     }
 
+    const recurrenceError = recurrence ? getRecurrenceError(date, recurrence) : null;
+    if (recurrenceError) {
+      setError(recurrenceError);
+      setLoading(false);
+      return;
+    }
+
+    if (recurrence && generateOccurrenceDates(date, recurrence).length === 0) {
+      setError("The repeat settings don't produce any sessions");
+      setLoading(false);
+      return;
+    }
+
+    const selectedVenue = venueStore.venues.find((v) => v.id === venueId);
+    const sessionDates = recurrence ? generateOccurrenceDates(date, recurrence) : [date];
+    const hoursError = selectedVenue
+      ? sessionDates
+          .map((sessionDate) => checkOpeningHours(selectedVenue, sessionDate, startTime, endTime))
+          .find(Boolean)
+      : null;
+    if (hoursError) {
+      setError(hoursError);
+      setLoading(false);
+      return;
+    }
+
+    if (hasConflicts) {
+      setError("This time clashes with existing sessions. Pick another time or shift to the next free slot.");
+      setLoading(false);
+      return;
+    }
+
     try {
       const sessionData: CreateSessionData = {
         venueId,
@@ -89,12 +136,16 @@ const CreateSessionForm: React.FC = observer(() => {
         startTime,
         endTime,
         maxPlayers,
+        ...(courtIds.length > 0 && { courtIds }),
         ...(sessionType === "coached" && coachId && { coachId }),
         title: title || (sessionType === "open" ? "Open Play" : undefined),
         ...(description && { description }),
+        ...(clubSession.clubId && { clubId: clubSession.clubId, membersOnly: clubSession.membersOnly }),
       };
 
-      const result = await sessionStore.createSession(sessionData);
+      const result = recurrence
+        ? await sessionStore.createSessionSeries({ ...sessionData, recurrence })
+        : await sessionStore.createSession(sessionData);
 
       if (result) {
         setSuccess(true);
@@ -115,6 +166,26 @@ const CreateSessionForm: React.FC = observer(() => {
 
   const today = new Date().toISOString().split("T")[0];
 
+  // Every date this form would create, checked against existing sessions
+  const conflictSlots = date
+    ? (recurrence ? generateOccurrenceDates(date, recurrence) : [date]).map((slotDate) => ({
+        date: slotDate,
+        startTime,
+        endTime,
+        venueId,
+        courtIds,
+        coachId: sessionType === "coached" ? coachId : undefined,
+      }))
+    : [];
+
+  const selectedVenue = venueStore.venues.find((v) => v.id === venueId);
+  const selectedDayHours = selectedVenue && date ? getDayHours(selectedVenue, parseDateInput(date)) : null;
+
+  const handleShift = (nextStart: string, nextEnd: string) => {
+    setStartTime(nextStart);
+    setEndTime(nextEnd);
+  };
+
   return (
     <div className="mb-6">
       {/* Toggle Button */}
@@ -229,7 +300,10 @@ const CreateSessionForm: React.FC = observer(() => {
                 </label>
                 <select
                   value={venueId}
-                  onChange={(e) => setVenueId(e.target.value)}
+                  onChange={(e) => {
+                    setVenueId(e.target.value);
+                    setCourtIds([]);
+                  }}
                   required
                   className="w-full p-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
                 >
@@ -285,6 +359,12 @@ const CreateSessionForm: React.FC = observer(() => {
                 />
               </div>
 
+              {selectedDayHours && (
+                <p className="md:col-span-2 -mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {selectedVenue?.name} hours that day: {formatDayHours(selectedDayHours)}
+                </p>
+              )}
+
               {/* Max Players */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -329,6 +409,23 @@ const CreateSessionForm: React.FC = observer(() => {
               />
             </div>
 
+            <CourtPicker venueId={venueId} value={courtIds} onChange={setCourtIds} />
+
+            {/* Repeat */}
+            <RecurrenceFields startDate={date} value={recurrence} onChange={setRecurrence} />
+
+            <ClubSessionFields
+              clubs={clubStore.clubs.filter((club) => !club.approvalStatus || club.approvalStatus === "approved")}
+              value={clubSession}
+              onChange={setClubSession}
+            />
+
+            <SessionConflicts
+              slots={conflictSlots}
+              onShift={handleShift}
+              onConflictsChange={setHasConflicts}
+            />
+
             {/* Submit */}
             <div className="flex justify-end gap-3 pt-2">
               <button
@@ -350,7 +447,7 @@ const CreateSessionForm: React.FC = observer(() => {
                     : "bg-amber-600 hover:bg-amber-700"
                 }`}
               >
-                {loading ? "Creating..." : `Create ${sessionType === "open" ? "Open Play" : "Coached Session"}`}
+                {loading ? "Creating..." : `Create ${sessionType === "open" ? "Open Play" : "Coached Session"}${recurrence ? " Series" : ""}`}
               </button>
             </div>
           </form>
@@ -0,0 +1,73 @@
+import React from "react";
+import type { DayHours, OpeningHours } from "../../../stores/VenueStore";
+import { DEFAULT_OPENING_HOURS } from "../../../utils/openingHoursUtils";
+import { WEEKDAY_LABELS } from "../../../utils/recurrenceUtils";
+
+interface OpeningHoursEditorProps {
+  value: OpeningHours;
+  onChange: (hours: OpeningHours) => void;
+}
+
+// Monday first, to match how schedules are usually posted
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const OpeningHoursEditor: React.FC<OpeningHoursEditorProps> = ({ value, onChange }) => {
+  const hasHours = value.length === 7;
+
+  const updateDay = (day: number, changes: Partial<DayHours>) => {
+    onChange(value.map((hours, index) => (index === day ? { ...hours, ...changes } : hours)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={hasHours}
+          onChange={(e) => onChange(e.target.checked ? DEFAULT_OPENING_HOURS : [])}
+        />
+        Set opening hours
+      </label>
+
+      {hasHours && (
+        <div className="space-y-1.5">
+          {DAY_ORDER.map((day) => {
+            const hours = value[day];
+            return (
+              <div key={day} className="flex items-center gap-2 text-sm">
+                <span className="w-10 font-medium text-gray-700 dark:text-gray-300">
+                  {WEEKDAY_LABELS[day]}
+                </span>
+                <input
+                  type="time"
+                  value={hours.open}
+                  disabled={hours.closed}
+                  onChange={(e) => updateDay(day, { open: e.target.value })}
+                  className="p-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 disabled:opacity-40"
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                  type="time"
+                  value={hours.close}
+                  disabled={hours.closed}
+                  onChange={(e) => updateDay(day, { close: e.target.value })}
+                  className="p-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 disabled:opacity-40"
+                />
+                <label className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={hours.closed}
+                    onChange={(e) => updateDay(day, { closed: e.target.checked })}
+                  />
+                  Closed
+                </label>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpeningHoursEditor;
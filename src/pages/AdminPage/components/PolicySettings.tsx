@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from "react";
+import { observer } from "mobx-react-lite";
+import { policyStore, AttendancePolicy } from "../../../stores/PolicyStore";
+
+const FIELDS: { key: keyof AttendancePolicy; label: string; help: string; min: number; max: number }[] = [
+  {
+    key: "lateCancelWindowHours",
+    label: "Late-cancel window (hours)",
+    help: "Leaving a session closer than this to its start time counts as a strike",
+    min: 0,
+    max: 72,
+  },
+  {
+    key: "strikeLimit",
+    label: "Strike limit",
+    help: "Strikes within the rolling window that trigger a cooldown",
+    min: 1,
+    max: 10,
+  },
+  {
+    key: "strikeWindowDays",
+    label: "Rolling window (days)",
+    help: "How long a strike counts against a player",
+    min: 1,
+    max: 365,
+  },
+  {
+    key: "cooldownDays",
+    label: "Cooldown (days)",
+    help: "How long sign-ups are blocked after hitting the limit",
+    min: 0,
+    max: 90,
+  },
+];
+
+const PolicySettings: React.FC = observer(() => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<AttendancePolicy>(policyStore.policy);
+  const [success, setSuccess] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      policyStore.fetchPolicy().then(() => setDraft(policyStore.policy));
+    }
+  }, [isOpen]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+
+    const success = await policyStore.updatePolicy(draft);
+    if (success) {
+      setSuccess("Attendance policy updated");
+      setTimeout(() => setSuccess(""), 3000);
+    } else {
+      setError(policyStore.error || "Failed to update policy");
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      {/* Toggle Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700 transition-colors"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+        </svg>
+        {isOpen ? "Hide Attendance Policy" : "Attendance Policy"}
+      </button>
+
+      {/* Panel */}
+      {isOpen && (
+        <div className="mt-4 bg-white dark:bg-zinc-900 rounded-lg shadow-md border border-gray-200 dark:border-gray-800 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            Cancellation & No-show Policy
+          </h3>
+
+          {success && (
+            <div className="mb-4 p-3 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded-md">
+              {success}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {field.label}
+                  </label>
+                  <input
+                    type="number"
+                    value={draft[field.key]}
+                    onChange={(e) =>
+                      setDraft({ ...draft, [field.key]: parseInt(e.target.value) || 0 })
+                    }
+                    min={field.min}
+                    max={field.max}
+                    className="w-full p-2.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{field.help}</p>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Players get a strike for each no-show and each cancellation within{" "}
+              {draft.lateCancelWindowHours} hours of start. {draft.strikeLimit} strikes in{" "}
+              {draft.strikeWindowDays} days blocks sign-ups for {draft.cooldownDays} days.
+            </p>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={policyStore.loading}
+                className="px-6 py-2 rounded-lg font-medium text-white bg-rose-600 hover:bg-rose-700 disabled:opacity-50"
+              >
+                {policyStore.loading ? "Saving..." : "Save Policy"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default PolicySettings;
@@ -1,9 +1,10 @@
 import React, { useState } from "react";
 import { PendingStatusAction } from "../types";
+import { VenueStatus, VenueStatusUpdate, VENUE_STATUS_LABELS } from "../../../stores/VenueStore";
 
 interface StatusConfirmModalProps {
   pendingAction: PendingStatusAction;
-  onConfirm: () => Promise<void>;
+  onConfirm: (update: VenueStatusUpdate) => Promise<void>;
   onCancel: () => void;
 }
 
@@ -12,26 +13,44 @@ const StatusConfirmModal: React.FC<StatusConfirmModalProps> = ({
   onConfirm,
   onCancel,
 }) => {
+  const [status, setStatus] = useState<VenueStatus>(
+    pendingAction.currentStatus === "available" ? "maintenance" : "available"
+  );
+  const [reason, setReason] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
   const [confirmInput, setConfirmInput] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const isScheduled = status !== "available" && (startsAt !== "" || endsAt !== "");
+  // Taking the venue out of play right now removes everyone attending it
+  const removesAttendees = status !== "available" && !startsAt;
+  const isConfirmValid = !removesAttendees || confirmInput.toLowerCase() === "confirm";
+
   const handleConfirm = async () => {
-    if (confirmInput.toLowerCase() !== "confirm") {
+    if (!isConfirmValid) {
       alert("Please type 'confirm' to proceed");
       return;
     }
+    if (startsAt && endsAt && startsAt >= endsAt) {
+      alert("The status must end after it starts");
+      return;
+    }
 
     setIsSubmitting(true);
     try {
-      await onConfirm();
+      await onConfirm({
+        status,
+        ...(reason.trim() && { reason: reason.trim() }),
+        ...(isScheduled && startsAt && { startsAt: new Date(startsAt).toISOString() }),
+        ...(isScheduled && endsAt && { endsAt: new Date(endsAt).toISOString() }),
+      });
     } finally {
       setIsSubmitting(false);
       setConfirmInput("");
     }
   };
 
-  const isConfirmValid = confirmInput.toLowerCase() === "confirm";
-
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
       <div className="flex items-end sm:items-center justify-center min-h-full p-4 text-center sm:p-0">
@@ -46,29 +65,84 @@ const StatusConfirmModal: React.FC<StatusConfirmModalProps> = ({
             </div>
             <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left">
               <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-gray-100" id="modal-title">
-                Change Status Confirmation
+                Change Venue Status
               </h3>
-              <div className="mt-2">
+              <div className="mt-2 space-y-3">
                 <p className="text-sm text-gray-700 dark:text-gray-200">
-                  {pendingAction.currentStatus === "Available"
-                    ? "Making this venue unavailable will remove all current attendees. Are you sure you want to continue?"
-                    : "Making this venue available will allow users to join it. Are you sure you want to continue?"}
+                  Currently {VENUE_STATUS_LABELS[pendingAction.currentStatus]}.
                 </p>
-              </div>
-              <div className="mt-4">
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2" htmlFor="confirm-text">
-                  Type "confirm" to continue
-                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(VENUE_STATUS_LABELS) as VenueStatus[]).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setStatus(option)}
+                      className={`px-3 py-2 rounded-md border text-sm ${
+                        status === option
+                          ? "border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300"
+                          : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                      }`}
+                    >
+                      {VENUE_STATUS_LABELS[option]}
+                    </button>
+                  ))}
+                </div>
                 <input
                   type="text"
-                  id="confirm-text"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-dark-border rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 dark:focus:ring-yellow-600 dark:bg-dark-input dark:text-gray-800 transition-shadow duration-200"
-                  value={confirmInput}
-                  onChange={(e) => setConfirmInput(e.target.value)}
-                  placeholder="confirm"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason (shown to players)"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-dark-border rounded-md dark:bg-dark-input dark:text-gray-800 text-sm"
                   disabled={isSubmitting}
                 />
+                {status !== "available" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Starts (optional)
+                      <input
+                        type="datetime-local"
+                        value={startsAt}
+                        onChange={(e) => setStartsAt(e.target.value)}
+                        className="mt-1 w-full px-2 py-1.5 border border-gray-300 dark:border-dark-border rounded-md dark:bg-dark-input dark:text-gray-800 text-sm"
+                        disabled={isSubmitting}
+                      />
+                    </label>
+                    <label className="text-xs text-gray-600 dark:text-gray-400">
+                      Ends (optional)
+                      <input
+                        type="datetime-local"
+                        value={endsAt}
+                        onChange={(e) => setEndsAt(e.target.value)}
+                        className="mt-1 w-full px-2 py-1.5 border border-gray-300 dark:border-dark-border rounded-md dark:bg-dark-input dark:text-gray-800 text-sm"
+                        disabled={isSubmitting}
+                      />
+                    </label>
+                  </div>
+                )}
+                <p className="text-sm text-gray-700 dark:text-gray-200">
+                  {status === "available"
+                    ? "Making this venue available will allow users to join it."
+                    : removesAttendees
+                    ? `Marking this venue ${VENUE_STATUS_LABELS[status].toLowerCase()} now will remove all current attendees.`
+                    : "The venue stays open until the scheduled start."}
+                </p>
               </div>
+              {removesAttendees && (
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2" htmlFor="confirm-text">
+                    Type "confirm" to continue
+                  </label>
+                  <input
+                    type="text"
+                    id="confirm-text"
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-dark-border rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 dark:focus:ring-yellow-600 dark:bg-dark-input dark:text-gray-800 transition-shadow duration-200"
+                    value={confirmInput}
+                    onChange={(e) => setConfirmInput(e.target.value)}
+                    placeholder="confirm"
+                    disabled={isSubmitting}
+                  />
+                </div>
+              )}
             </div>
           </div>
           <div className="mt-5 sm:mt-4 sm:flex sm:flex-row-reverse gap-3">
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { venueStore, VENUE_STATUS_LABELS } from "../../../stores/VenueStore";
+import { VENUE_STATUS_STYLES } from "../../../utils/venueStatusUtils";
+
+interface StatusHistoryModalProps {
+  venueId: string;
+  venueName: string;
+  onClose: () => void;
+}
+
+const formatDateTime = (iso: string): string =>
+  new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const StatusHistoryModal: React.FC<StatusHistoryModalProps> = observer(({ venueId, venueName, onClose }) => {
+  const [loading, setLoading] = useState(true);
+  const history = venueStore.statusHistory[venueId];
+
+  useEffect(() => {
+    venueStore.fetchStatusHistory(venueId).finally(() => setLoading(false));
+  }, [venueId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">Status History</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{venueName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading && !history ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-700 dark:border-gray-300"></div>
+            </div>
+          ) : !history || history.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No status changes recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {history.map((change) => (
+                <li key={change.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div className="flex items-center justify-between gap-2">
+                    <span
+                      className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${VENUE_STATUS_STYLES[change.status].badge}`}
+                    >
+                      {VENUE_STATUS_LABELS[change.status]}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDateTime(change.changedAt)}
+                    </span>
+                  </div>
+                  {change.reason && (
+                    <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">{change.reason}</p>
+                  )}
+                  {(change.startsAt || change.endsAt) && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {change.startsAt ? formatDateTime(change.startsAt) : "Immediately"}
+                      {" – "}
+                      {change.endsAt ? formatDateTime(change.endsAt) : "until changed"}
+                    </p>
+                  )}
+                  {change.changedBy && (
+                    <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+                      by {change.changedBy.displayName || "Unknown admin"}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default StatusHistoryModal;
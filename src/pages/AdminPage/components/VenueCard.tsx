@@ -1,19 +1,33 @@
 import React, { useState } from "react";
 import OptimizedImage from "../../../components/OptimizedImage";
-import { useImageUpload } from "../hooks/useImageUpload";
-import { Venue } from "../types";
+import CourtOccupancy from "../../../components/CourtOccupancy";
+import CourtManagerModal from "./CourtManagerModal";
+import VenueHoursModal from "./VenueHoursModal";
+import StatusHistoryModal from "./StatusHistoryModal";
+import {
+  describeStatusWindow,
+  getEffectiveStatus,
+  VENUE_STATUS_STYLES,
+} from "../../../utils/venueStatusUtils";
+import { getClosureReason, summarizeOpeningHours } from "../../../utils/openingHoursUtils";
+import type { Session } from "../../../stores/SessionStore";
+import { useImageUpload } from "../../../hooks/useImageUpload";
+import { SelectedVenue, Venue } from "../types";
+import { VenueStatus, VENUE_STATUS_LABELS } from "../../../stores/VenueStore";
 
 interface VenueCardProps {
   venue: Venue;
+  sessions: Session[];
   loading: boolean;
-  onStatusChange: (venueId: string, currentStatus: string) => void;
+  onStatusChange: (venueId: string, currentStatus: VenueStatus) => void;
   onDelete: (venueId: string, name: string) => void;
-  onShowAttendees: (venue: { id: string; name: string; status: string }) => void;
+  onShowAttendees: (venue: SelectedVenue) => void;
   onImageUpload: (venueId: string, photoURL: string) => Promise<void>;
 }
 
 const VenueCard: React.FC<VenueCardProps> = ({
   venue,
+  sessions,
   loading,
   onStatusChange,
   onDelete,
@@ -21,6 +35,12 @@ const VenueCard: React.FC<VenueCardProps> = ({
   onImageUpload,
 }) => {
   const [isUploading, setIsUploading] = useState(false);
+  const [showCourts, setShowCourts] = useState(false);
+  const [showHours, setShowHours] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const effectiveStatus = getEffectiveStatus(venue);
+  const statusNote = describeStatusWindow(venue);
+  const closedToday = getClosureReason(venue, new Date());
   const imageUpload = useImageUpload();
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -79,19 +99,27 @@ const VenueCard: React.FC<VenueCardProps> = ({
             {venue.name}
           </h3>
           <button
-            onClick={() => onStatusChange(venue.id, venue.status)}
-            className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
-              venue.status === "Available"
-                ? "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200 hover:bg-green-200 dark:hover:bg-green-800/50"
-                : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
-            }`}
+            onClick={() => onStatusChange(venue.id, effectiveStatus)}
+            className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 hover:opacity-80 ${VENUE_STATUS_STYLES[effectiveStatus].badge}`}
           >
-            {venue.status}
+            {VENUE_STATUS_LABELS[effectiveStatus]}
           </button>
         </div>
 
+        {(statusNote || venue.statusReason) && (
+          <p className="-mt-2 text-xs text-gray-500 dark:text-gray-400">
+            {[statusNote, venue.statusReason].filter(Boolean).join(" · ")}
+          </p>
+        )}
+        <button
+          onClick={() => setShowHistory(true)}
+          className="-mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Status history
+        </button>
+
         <button
-          onClick={() => onShowAttendees({ id: venue.id, name: venue.name, status: venue.status })}
+          onClick={() => onShowAttendees({ id: venue.id, name: venue.name, status: effectiveStatus })}
           className="w-full flex items-center justify-between px-4 py-2 bg-gray-50 dark:bg-gray-800/50 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-colors duration-200"
         >
           <span className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -101,7 +129,7 @@ const VenueCard: React.FC<VenueCardProps> = ({
             View Attendees
           </span>
           <span className={`flex items-center justify-center w-6 h-6 rounded-full text-xs font-medium ${
-            venue.status === "Available"
+            effectiveStatus === "available"
               ? "bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200"
               : "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
           }`}>
@@ -109,6 +137,43 @@ const VenueCard: React.FC<VenueCardProps> = ({
           </span>
         </button>
 
+        <div className="px-4 py-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Hours</span>
+            <button
+              onClick={() => setShowHours(true)}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Hours & closures
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {summarizeOpeningHours(venue.openingHours)}
+          </p>
+          {closedToday && (
+            <p className="text-xs font-medium text-red-600 dark:text-red-400">
+              Closed today: {closedToday}
+            </p>
+          )}
+        </div>
+
+        <div className="px-4 py-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              {venue.courts.length === 0
+                ? "No courts"
+                : `${venue.courts.length} court${venue.courts.length === 1 ? "" : "s"}`}
+            </span>
+            <button
+              onClick={() => setShowCourts(true)}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Manage courts
+            </button>
+          </div>
+          <CourtOccupancy venueId={venue.id} courts={venue.courts} sessions={sessions} />
+        </div>
+
         {/* Image upload preview */}
         {imageUpload.file && (
           <div className="pt-4 border-t border-gray-200 dark:border-dark-border">
@@ -158,6 +223,30 @@ const VenueCard: React.FC<VenueCardProps> = ({
           </button>
         </div>
       </div>
+
+      {showCourts && (
+        <CourtManagerModal
+          venueId={venue.id}
+          venueName={venue.name}
+          onClose={() => setShowCourts(false)}
+        />
+      )}
+
+      {showHours && (
+        <VenueHoursModal
+          venueId={venue.id}
+          venueName={venue.name}
+          onClose={() => setShowHours(false)}
+        />
+      )}
+
+      {showHistory && (
+        <StatusHistoryModal
+          venueId={venue.id}
+          venueName={venue.name}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 };
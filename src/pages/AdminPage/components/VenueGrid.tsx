@@ -1,18 +1,22 @@
 import React from "react";
 import VenueCard from "./VenueCard";
-import { Venue } from "../types";
+import { SelectedVenue, Venue } from "../types";
+import type { VenueStatus } from "../../../stores/VenueStore";
+import type { Session } from "../../../stores/SessionStore";
 
 interface VenueGridProps {
   venues: Venue[];
+  sessions: Session[];
   loading: boolean;
-  onStatusChange: (venueId: string, currentStatus: string) => void;
+  onStatusChange: (venueId: string, currentStatus: VenueStatus) => void;
   onDelete: (venueId: string, name: string) => void;
-  onShowAttendees: (venue: { id: string; name: string; status: string }) => void;
+  onShowAttendees: (venue: SelectedVenue) => void;
   onImageUpload: (venueId: string, photoURL: string) => Promise<void>;
 }
 
 const VenueGrid: React.FC<VenueGridProps> = ({
   venues,
+  sessions,
   loading,
   onStatusChange,
   onDelete,
@@ -40,6 +44,7 @@ const VenueGrid: React.FC<VenueGridProps> = ({
             <VenueCard
               key={venue.id}
               venue={venue}
+              sessions={sessions}
               loading={loading}
               onStatusChange={onStatusChange}
               onDelete={onDelete}
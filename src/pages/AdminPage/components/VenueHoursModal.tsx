@@ -0,0 +1,192 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { venueStore, OpeningHours } from "../../../stores/VenueStore";
+import OpeningHoursEditor from "./OpeningHoursEditor";
+import { validateOpeningHours } from "../../../utils/openingHoursUtils";
+import { parseDateInput, toDateInput } from "../../../utils/recurrenceUtils";
+
+interface VenueHoursModalProps {
+  venueId: string;
+  venueName: string;
+  onClose: () => void;
+}
+
+const VenueHoursModal: React.FC<VenueHoursModalProps> = observer(({ venueId, venueName, onClose }) => {
+  const venue = venueStore.venues.find((v) => v.id === venueId);
+  const [openingHours, setOpeningHours] = useState<OpeningHours>(venue?.openingHours || []);
+  const [blackoutDate, setBlackoutDate] = useState("");
+  const [blackoutReason, setBlackoutReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  if (!venue) return null;
+
+  const today = toDateInput(new Date());
+  const upcomingBlackouts = venue.blackoutDates
+    .filter((blackout) => blackout.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const handleSaveHours = async () => {
+    const hoursError = validateOpeningHours(openingHours);
+    if (hoursError) {
+      setError(hoursError);
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    setMessage("");
+    const success = await venueStore.updateOpeningHours(venueId, openingHours);
+    setSaving(false);
+
+    if (success) {
+      setMessage("Opening hours saved");
+    } else {
+      setError(venueStore.error || "Failed to update opening hours");
+    }
+  };
+
+  const handleAddBlackout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!blackoutDate) {
+      setError("Pick a date to close the venue");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    setMessage("");
+    const success = await venueStore.addBlackoutDate(venueId, {
+      date: blackoutDate,
+      reason: blackoutReason.trim(),
+    });
+    setSaving(false);
+
+    if (success) {
+      setBlackoutDate("");
+      setBlackoutReason("");
+    } else {
+      setError(venueStore.error || "Failed to add closure date");
+    }
+  };
+
+  const handleRemoveBlackout = async (blackoutId: string) => {
+    const success = await venueStore.removeBlackoutDate(venueId, blackoutId);
+    if (!success) {
+      setError(venueStore.error || "Failed to remove closure date");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">Hours & Closures</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{venueName}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="p-3 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded-md text-sm">
+              {message}
+            </div>
+          )}
+
+          <section className="space-y-3">
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Weekly hours</h4>
+            <OpeningHoursEditor value={openingHours} onChange={setOpeningHours} />
+            <div className="flex justify-end">
+              <button
+                onClick={handleSaveHours}
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Hours"}
+              </button>
+            </div>
+          </section>
+
+          <section className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h4 className="font-medium text-gray-900 dark:text-gray-100">Closure dates</h4>
+
+            {upcomingBlackouts.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No upcoming closures.</p>
+            ) : (
+              <ul className="space-y-2">
+                {upcomingBlackouts.map((blackout) => (
+                  <li
+                    key={blackout.id}
+                    className="flex items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700"
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-gray-100">
+                        {parseDateInput(blackout.date).toLocaleDateString("en-US", {
+                          weekday: "short",
+                          month: "short",
+                          day: "numeric",
+                          year: "numeric",
+                        })}
+                      </p>
+                      {blackout.reason && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{blackout.reason}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleRemoveBlackout(blackout.id)}
+                      className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleAddBlackout} className="grid grid-cols-[auto_1fr_auto] gap-2">
+              <input
+                type="date"
+                value={blackoutDate}
+                min={today}
+                onChange={(e) => setBlackoutDate(e.target.value)}
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+              />
+              <input
+                type="text"
+                value={blackoutReason}
+                onChange={(e) => setBlackoutReason(e.target.value)}
+                placeholder="Reason (e.g. typhoon, barangay event)"
+                className="p-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 text-sm"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm rounded-lg bg-gray-700 text-white hover:bg-gray-800 disabled:opacity-50"
+              >
+                Close Date
+              </button>
+            </form>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default VenueHoursModal;
@@ -3,9 +3,18 @@ import { observer } from "mobx-react-lite";
 import { useNavigate } from "react-router-dom";
 import axios from "axios";
 
-import { venueStore } from "../../stores/VenueStore";
+import {
+  venueStore,
+  CreateVenueData,
+  VenueStatus,
+  VenueStatusUpdate,
+  VENUE_STATUS_LABELS,
+} from "../../stores/VenueStore";
+import { sessionStore } from "../../stores/SessionStore";
 import { authStore } from "../../stores/AuthStore";
 import { socketStore } from "../../stores/SocketStore";
+import { toDateInput } from "../../utils/recurrenceUtils";
+import { getEffectiveStatus, VENUE_STATUS_STYLES } from "../../utils/venueStatusUtils";
 
 import AddVenueForm from "./components/AddVenueForm";
 import VenueGrid from "./components/VenueGrid";
@@ -13,6 +22,8 @@ import AttendeesModal from "./components/AttendeesModal";
 import StatusConfirmModal from "./components/StatusConfirmModal";
 import CreateSessionForm from "./components/CreateSessionForm";
 import RoleManagement from "./components/RoleManagement";
+import PolicySettings from "./components/PolicySettings";
+import ClubApprovals from "./components/ClubApprovals";
 import { PendingStatusAction, SelectedVenue, Attendee } from "./types";
 
 const AdminPage: React.FC = observer(() => {
@@ -42,6 +53,8 @@ const AdminPage: React.FC = observer(() => {
         }
 
         await venueStore.fetchVenues();
+        // Today's sessions drive the per-court occupancy on each venue card
+        await sessionStore.fetchSessions({ date: toDateInput(new Date()) });
       } catch (error) {
         console.error("Failed to initialize admin page:", error);
       } finally {
@@ -53,31 +66,29 @@ const AdminPage: React.FC = observer(() => {
   }, [navigate, isAuthenticated, isAdmin]);
 
   // Handlers
-  const handleAddVenue = async (data: {
-    name: string;
-    status: string;
-    photoURL?: string;
-    latitude?: number;
-    longitude?: number;
-  }) => {
+  const handleAddVenue = async (data: CreateVenueData) => {
     const success = await venueStore.createVenue(data);
     if (!success) {
       throw new Error("Failed to create venue");
     }
   };
 
-  const handleStatusChange = (venueId: string, currentStatus: string) => {
+  const handleStatusChange = (venueId: string, currentStatus: VenueStatus) => {
     setPendingAction({ venueId, currentStatus });
   };
 
-  const handleConfirmStatusChange = async () => {
+  const handleConfirmStatusChange = async (update: VenueStatusUpdate) => {
     if (!pendingAction) return;
 
     try {
-      const newStatus = pendingAction.currentStatus === "Available" ? "Unavailable" : "Available";
-      const success = await venueStore.updateVenueStatus(pendingAction.venueId, newStatus);
+      const success = await venueStore.updateVenueStatus(pendingAction.venueId, update);
+      if (!success) {
+        alert(venueStore.error || "Failed to update venue status");
+        return;
+      }
 
-      if (success && newStatus === "Unavailable") {
+      // A scheduled change leaves today's players in place until it starts
+      if (update.status !== "available" && !update.startsAt) {
         await venueStore.removeAllAttendees(pendingAction.venueId);
       }
 
@@ -132,8 +143,13 @@ const AdminPage: React.FC = observer(() => {
 
   // Stats
   const totalVenues = venueStore.venues.length;
-  const availableVenues = venueStore.venues.filter((v) => v.status === "Available").length;
-  const unavailableVenues = totalVenues - availableVenues;
+  const statusCounts = venueStore.venues.reduce(
+    (counts, venue) => {
+      counts[getEffectiveStatus(venue)] += 1;
+      return counts;
+    },
+    { available: 0, maintenance: 0, closed: 0, reserved: 0 } as Record<VenueStatus, number>
+  );
 
   // Get attendees for selected venue
   const currentAttendees: Attendee[] = selectedVenueForAttendees
@@ -153,14 +169,14 @@ const AdminPage: React.FC = observer(() => {
                 <span className="text-lg font-semibold text-gray-900 dark:text-gray-100">{totalVenues}</span>
               </div>
               <div className="flex items-center space-x-4">
-                <div className="flex items-center">
-                  <span className="w-3 h-3 rounded-full bg-green-600 mr-2"></span>
-                  <span className="text-sm text-gray-700 dark:text-gray-300">Available ({availableVenues})</span>
-                </div>
-                <div className="flex items-center">
-                  <span className="w-3 h-3 rounded-full bg-gray-500 mr-2"></span>
-                  <span className="text-sm text-gray-700 dark:text-gray-300">Unavailable ({unavailableVenues})</span>
-                </div>
+                {(Object.keys(statusCounts) as VenueStatus[]).map((status) => (
+                  <div key={status} className="flex items-center">
+                    <span className={`w-3 h-3 rounded-full ${VENUE_STATUS_STYLES[status].dot} mr-2`}></span>
+                    <span className="text-sm text-gray-700 dark:text-gray-300">
+                      {VENUE_STATUS_LABELS[status]} ({statusCounts[status]})
+                    </span>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -173,12 +189,15 @@ const AdminPage: React.FC = observer(() => {
         <div className="flex flex-wrap gap-4 mb-6">
           <CreateSessionForm />
           <RoleManagement />
+          <PolicySettings />
+          <ClubApprovals />
         </div>
 
         <AddVenueForm onSubmit={handleAddVenue} loading={venueStore.loading} />
 
         <VenueGrid
           venues={venueStore.venues}
+          sessions={sessionStore.sessions}
           loading={venueStore.loading}
           onStatusChange={handleStatusChange}
           onDelete={handleDeleteVenue}
@@ -1,5 +1,7 @@
 // AdminPage type definitions
 
+import type { BlackoutDate, Court, OpeningHours, VenueStatus } from "../../stores/VenueStore";
+
 export interface Attendee {
   id: string;
   displayName?: string | null;
@@ -10,34 +12,37 @@ export interface Attendee {
 export interface Venue {
   id: string;
   name: string;
-  status: string;
+  status: VenueStatus;
+  statusReason?: string;
+  statusStartsAt?: string;
+  statusEndsAt?: string;
   photoURL?: string;
   attendees: Attendee[];
+  courts: Court[];
+  openingHours: OpeningHours;
+  blackoutDates: BlackoutDate[];
   createdAt: string;
   updatedAt: string;
-  timeRange?: string;
-  day?: string;
-  cancellationCounts?: Record<string, number>;
   latitude?: number;
   longitude?: number;
 }
 
 export interface VenueFormData {
   name: string;
-  status: string;
+  status: VenueStatus;
   latitude?: string;
   longitude?: string;
 }
 
 export interface PendingStatusAction {
   venueId: string;
-  currentStatus: string;
+  currentStatus: VenueStatus;
 }
 
 export interface SelectedVenue {
   id: string;
   name: string;
-  status: string;
+  status: VenueStatus;
 }
 
 
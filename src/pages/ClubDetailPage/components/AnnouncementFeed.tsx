@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { ImagePlus, Pin, Trash2, X } from "lucide-react";
+import { announcementStore } from "../../../stores/AnnouncementStore";
+import { socketStore } from "../../../stores/SocketStore";
+import Avatar from "../../../components/Avatar";
+import { useImageUpload } from "../../../hooks/useImageUpload";
+import { containsProfanity, getProfanityErrorMessage } from "../../../utils/profanityFilter";
+import { containsDangerousPatterns, sanitizeFormInput } from "../../../utils/securityUtils";
+
+const BODY_MAX = 2000;
+
+interface AnnouncementFeedProps {
+  clubId: string;
+  // Officers can post, pin and delete
+  canPost: boolean;
+}
+
+const formatPostedAt = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const AnnouncementFeed: React.FC<AnnouncementFeedProps> = observer(({ clubId, canPost }) => {
+  const [body, setBody] = useState("");
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [posting, setPosting] = useState(false);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { uploadImage, uploading } = useImageUpload();
+  const socketConnected = socketStore.connected;
+  const feed = announcementStore.getFeed(clubId);
+
+  useEffect(() => {
+    announcementStore.fetchAnnouncements(clubId);
+  }, [clubId]);
+
+  // New posts arrive live while the page is open
+  useEffect(() => {
+    if (!socketConnected) return;
+
+    socketStore.joinClub(clubId);
+    return () => socketStore.leaveClub(clubId);
+  }, [socketConnected, clubId]);
+
+  useEffect(() => {
+    return () => {
+      if (imagePreview) URL.revokeObjectURL(imagePreview);
+    };
+  }, [imagePreview]);
+
+  const clearImage = () => {
+    setImageFile(null);
+    setImagePreview(null);
+  };
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      const file = e.target.files[0];
+      setImageFile(file);
+      setImagePreview(URL.createObjectURL(file));
+    }
+    e.target.value = "";
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const text = body.trim();
+    if (!text && !imageFile) {
+      setError("Write something or add a photo");
+      return;
+    }
+    if (containsProfanity(text)) {
+      setError(getProfanityErrorMessage());
+      return;
+    }
+    if (containsDangerousPatterns(text)) {
+      setError("Announcement contains invalid characters");
+      return;
+    }
+
+    setPosting(true);
+    try {
+      const imageUrl = imageFile ? await uploadImage(imageFile, "club-announcements") : undefined;
+      const success = await announcementStore.postAnnouncement(clubId, {
+        body: sanitizeFormInput(text, BODY_MAX),
+        ...(imageUrl && { imageUrl }),
+      });
+
+      if (success) {
+        setBody("");
+        clearImage();
+      } else {
+        setError(announcementStore.error || "Failed to post announcement");
+      }
+    } catch (err) {
+      console.error("Failed to post announcement:", err);
+      setError("Couldn't upload the photo. Please try again.");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (announcementId: string) => {
+    if (!window.confirm("Delete this announcement?")) return;
+    await announcementStore.deleteAnnouncement(clubId, announcementId);
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Announcements</h2>
+      </div>
+
+      {canPost && (
+        <form onSubmit={handlePost} className="p-6 border-b border-gray-200 dark:border-gray-700 space-y-3">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={BODY_MAX}
+            rows={3}
+            placeholder="Share an update with the club..."
+            className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500"
+          />
+          {imagePreview && (
+            <div className="relative inline-block">
+              <img src={imagePreview} alt="Attachment preview" className="max-h-48 rounded-lg" />
+              <button
+                type="button"
+                onClick={clearImage}
+                className="absolute top-1 right-1 p-1 rounded-full bg-black/60 text-white hover:bg-black/80"
+                aria-label="Remove photo"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => imageInputRef.current?.click()}
+              className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              <ImagePlus className="h-4 w-4" />
+              {imageFile ? "Change photo" : "Add photo"}
+            </button>
+            <input
+              ref={imageInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleImageChange}
+              className="hidden"
+            />
+            <button
+              type="submit"
+              disabled={posting}
+              className="px-4 py-2 rounded-md bg-brand-600 hover:bg-brand-700 text-white text-sm font-medium disabled:opacity-50"
+            >
+              {uploading ? "Uploading..." : posting ? "Posting..." : "Post"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {announcementStore.loading && feed.length === 0 ? (
+        <div className="flex justify-center items-center p-12">
+          <div className="animate-spin h-8 w-8 border-2 border-brand-500 dark:border-brand-400 rounded-full border-t-transparent"></div>
+        </div>
+      ) : feed.length === 0 ? (
+        <p className="p-6 text-gray-500 dark:text-gray-400">No announcements yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {feed.map((announcement) => (
+            <article
+              key={announcement._id}
+              className={`p-6 ${announcement.pinned ? "bg-amber-50/60 dark:bg-amber-900/10" : ""}`}
+            >
+              <div className="flex items-start gap-3">
+                <Link to={`/profile/${announcement.author._id}`} className="flex-shrink-0">
+                  <Avatar src={announcement.author.photoURL} name={announcement.author.displayName} size="sm" />
+                </Link>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Link
+                      to={`/profile/${announcement.author._id}`}
+                      className="font-medium text-gray-900 dark:text-gray-100 hover:underline"
+                    >
+                      {announcement.author.displayName || "Club officer"}
+                    </Link>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {formatPostedAt(announcement.createdAt)}
+                    </span>
+                    {announcement.pinned && (
+                      <span className="flex items-center gap-1 text-xs font-medium text-amber-700 dark:text-amber-400">
+                        <Pin className="h-3 w-3" />
+                        Pinned
+                      </span>
+                    )}
+                  </div>
+                  {announcement.body && (
+                    <p className="mt-1 text-gray-700 dark:text-gray-300 whitespace-pre-line break-words">
+                      {announcement.body}
+                    </p>
+                  )}
+                  {announcement.imageUrl && (
+                    <img
+                      src={announcement.imageUrl}
+                      alt=""
+                      loading="lazy"
+                      className="mt-3 max-h-96 rounded-lg object-contain"
+                    />
+                  )}
+                </div>
+                {canPost && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() =>
+                        announcementStore.setPinned(clubId, announcement._id, !announcement.pinned)
+                      }
+                      className="p-1.5 rounded-lg text-gray-400 hover:text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20"
+                      title={announcement.pinned ? "Unpin" : "Pin to top"}
+                    >
+                      <Pin className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(announcement._id)}
+                      className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </article>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default AnnouncementFeed;
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { sessionStore } from "../../../stores/SessionStore";
+import SessionCard from "../../../components/SessionCard";
+
+interface ClubSessionsProps {
+  clubId: string;
+}
+
+const ClubSessions: React.FC<ClubSessionsProps> = observer(({ clubId }) => {
+  const [loadFailed, setLoadFailed] = useState(false);
+  const clubSessions = sessionStore.clubSessions[clubId];
+
+  useEffect(() => {
+    setLoadFailed(false);
+    sessionStore.fetchClubSessions(clubId).then((loaded) => setLoadFailed(!loaded));
+  }, [clubId]);
+
+  const sessions = (clubSessions || [])
+    .filter((s) => s.status !== "cancelled")
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+          Upcoming Sessions
+        </h2>
+      </div>
+
+      {loadFailed && !clubSessions ? (
+        <p className="p-6 text-red-600 dark:text-red-400">Couldn't load this club's sessions.</p>
+      ) : !clubSessions ? (
+        <div className="flex justify-center items-center p-12">
+          <div className="animate-spin h-8 w-8 border-2 border-brand-500 dark:border-brand-400 rounded-full border-t-transparent"></div>
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="p-6 text-gray-500 dark:text-gray-400">No sessions scheduled for this club.</p>
+      ) : (
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sessions.map((session) => (
+            <SessionCard key={session._id} session={session} showVenue />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ClubSessions;
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { clubStore, ClubMemberStats } from "../../../stores/ClubStore";
+import Avatar from "../../../components/Avatar";
+import {
+  STATS_RANGE_LABELS,
+  MIN_MATCHES_FOR_WIN_RATE,
+  StatsRange,
+  StatsRangePreset,
+  fillMonths,
+  formatMonth,
+  formatWinRate,
+  getPresetRange,
+  getWinRate,
+  rankByActivity,
+  rankByWinRate,
+} from "../../../utils/clubStatsUtils";
+
+const LEADERBOARD_SIZE = 10;
+
+interface ClubStatsPanelProps {
+  clubId: string;
+}
+
+interface LeaderboardProps {
+  title: string;
+  members: ClubMemberStats[];
+  renderValue: (member: ClubMemberStats) => React.ReactNode;
+  empty: string;
+}
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ title, members, renderValue, empty }) => (
+  <div>
+    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{title}</h3>
+    {members.length === 0 ? (
+      <p className="text-sm text-gray-500 dark:text-gray-400">{empty}</p>
+    ) : (
+      <ol className="space-y-2">
+        {members.slice(0, LEADERBOARD_SIZE).map((member, index) => (
+          <li key={member.userId} className="flex items-center gap-3">
+            <span className="w-5 text-right text-sm font-medium text-gray-400">{index + 1}</span>
+            <Avatar src={member.photoURL} name={member.displayName} size="xs" />
+            <Link
+              to={`/profile/${member.userId}`}
+              className="flex-1 min-w-0 truncate text-sm text-gray-800 dark:text-gray-200 hover:underline"
+            >
+              {member.displayName || "Anonymous"}
+            </Link>
+            <span className="text-sm text-gray-600 dark:text-gray-400">{renderValue(member)}</span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+const ClubStatsPanel: React.FC<ClubStatsPanelProps> = observer(({ clubId }) => {
+  const [preset, setPreset] = useState<StatsRangePreset>("90d");
+  const [range, setRange] = useState<StatsRange>(() => getPresetRange("90d"));
+  const statsKey = clubStore.getClubStatsKey(clubId, range.from, range.to);
+  const stats = clubStore.clubStats[statsKey];
+  // A range that hasn't been requested yet is about to be
+  const statsLoading = clubStore.clubStatsLoading[statsKey] ?? true;
+
+  useEffect(() => {
+    if (range.from && range.to && range.from <= range.to) {
+      clubStore.fetchClubStats(clubId, range.from, range.to);
+    }
+  }, [clubId, range.from, range.to]);
+
+  const handlePreset = (next: StatsRangePreset) => {
+    setPreset(next);
+    if (next !== "custom") setRange(getPresetRange(next));
+  };
+
+  const months = stats ? fillMonths(stats.months, range) : [];
+  const busiestMonth = Math.max(1, ...months.map((m) => m.attendances));
+  const totalSessions = months.reduce((sum, m) => sum + m.sessions, 0);
+  const totalAttendances = months.reduce((sum, m) => sum + m.attendances, 0);
+  const members = stats?.members || [];
+  const activeMembers = rankByActivity(members);
+  const anyMatches = members.some((m) => m.matchesPlayed > 0);
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Club Stats</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(STATS_RANGE_LABELS) as StatsRangePreset[]).map((key) => (
+            <button
+              key={key}
+              onClick={() => handlePreset(key)}
+              className={`px-3 py-1 text-sm rounded-full transition-colors ${
+                preset === key
+                  ? "bg-brand-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              {STATS_RANGE_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {preset === "custom" && (
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-2">
+            From
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="p-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            To
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="p-1.5 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
+            />
+          </label>
+        </div>
+      )}
+
+      {statsLoading && !stats ? (
+        <div className="flex justify-center items-center p-12">
+          <div className="animate-spin h-8 w-8 border-2 border-brand-500 dark:border-brand-400 rounded-full border-t-transparent"></div>
+        </div>
+      ) : !stats ? (
+        <p className="p-6 text-gray-500 dark:text-gray-400">Stats aren't available right now.</p>
+      ) : (
+        <div className={`p-6 space-y-8 ${statsLoading ? "opacity-60" : ""}`}>
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-4 text-center">
+            {[
+              { label: "Sessions", value: totalSessions },
+              { label: "Sign-ups", value: totalAttendances },
+              { label: "Active members", value: activeMembers.length },
+            ].map((tile) => (
+              <div key={tile.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{tile.value}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{tile.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Monthly attendance */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+              Sessions attended by members per month
+            </h3>
+            <div className="space-y-1.5">
+              {months.map((month) => (
+                <div key={month.month} className="flex items-center gap-3 text-sm">
+                  <span className="w-20 flex-shrink-0 text-gray-500 dark:text-gray-400">
+                    {formatMonth(month.month)}
+                  </span>
+                  <div className="flex-1 h-4 rounded bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                    <div
+                      className="h-full rounded bg-brand-500 dark:bg-brand-600"
+                      style={{ width: `${(month.attendances / busiestMonth) * 100}%` }}
+                    />
+                  </div>
+                  <span
+                    className="w-24 flex-shrink-0 text-right text-gray-600 dark:text-gray-400"
+                    title={`${month.sessions} sessions`}
+                  >
+                    {month.attendances} · {month.sessions} sess.
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Leaderboards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <Leaderboard
+              title="Most active"
+              members={activeMembers}
+              renderValue={(m) => `${m.sessionsAttended} sessions`}
+              empty="No one has attended a session in this period."
+            />
+            <Leaderboard
+              title="Best win rate"
+              members={rankByWinRate(members)}
+              renderValue={(m) => (
+                <>
+                  {formatWinRate(getWinRate(m))}{" "}
+                  <span className="text-xs text-gray-400">
+                    ({m.wins}-{m.losses})
+                  </span>
+                </>
+              )}
+              empty={
+                anyMatches
+                  ? `Members need at least ${MIN_MATCHES_FOR_WIN_RATE} recorded matches to be ranked.`
+                  : "No matches recorded in this period yet."
+              }
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ClubStatsPanel;
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { clubStore } from "../../../stores/ClubStore";
+import Avatar from "../../../components/Avatar";
+
+interface JoinRequestsPanelProps {
+  clubId: string;
+}
+
+const JoinRequestsPanel: React.FC<JoinRequestsPanelProps> = observer(({ clubId }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const requests = clubStore.joinRequests;
+
+  const handleRespond = async (requestId: string, approve: boolean) => {
+    setBusyId(requestId);
+    setError("");
+    const success = await clubStore.respondToJoinRequest(clubId, requestId, approve);
+    if (!success) setError(clubStore.error || "Failed to respond to request");
+    setBusyId(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Join Requests</h2>
+        {requests.length > 0 && (
+          <span className="px-2.5 py-0.5 rounded-full text-sm font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+            {requests.length}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {requests.length === 0 ? (
+        <p className="p-6 text-gray-500 dark:text-gray-400">No one is waiting to join.</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {requests.map((request) => (
+            <div key={request._id} className="p-4 sm:px-6 flex items-center gap-4">
+              <Link to={`/profile/${request.user._id}`} className="flex items-center gap-4 flex-1 min-w-0">
+                <Avatar src={request.user.photoURL} name={request.user.displayName} size="md" />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 dark:text-gray-200 truncate hover:underline">
+                    {request.user.displayName || "Anonymous"}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Requested {new Date(request.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+              </Link>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleRespond(request._id, true)}
+                  disabled={busyId === request._id}
+                  className="px-3 py-1.5 text-sm rounded-md bg-brand-600 hover:bg-brand-700 text-white disabled:opacity-50"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleRespond(request._id, false)}
+                  disabled={busyId === request._id}
+                  className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default JoinRequestsPanel;
@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { clubStore, ClubMember, ClubRole, CLUB_ROLE_LABELS } from "../../../stores/ClubStore";
+import { authStore } from "../../../stores/AuthStore";
+import Avatar from "../../../components/Avatar";
+import { canChangeRoles, canRemoveMember, compareMembers } from "../../../utils/clubUtils";
+
+interface MemberListProps {
+  clubId: string;
+}
+
+const ROLE_BADGE_STYLES: Record<ClubRole, string> = {
+  owner: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  officer: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  member: "",
+};
+
+const MemberList: React.FC<MemberListProps> = observer(({ clubId }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const myRole = clubStore.currentUserRole;
+  const isSiteAdmin = authStore.isAdmin;
+  const myId = authStore.user?.id;
+  const members = [...clubStore.clubMembers].sort(compareMembers);
+
+  const run = async (memberId: string, action: () => Promise<boolean>) => {
+    setBusyId(memberId);
+    setError("");
+    const success = await action();
+    if (!success) setError(clubStore.error || "Something went wrong");
+    setBusyId(null);
+  };
+
+  const handleRemove = (member: ClubMember) => {
+    if (!window.confirm(`Remove ${member.displayName || "this member"} from the club?`)) return;
+    run(member._id, () => clubStore.removeMember(clubId, member._id));
+  };
+
+  const handleRole = (member: ClubMember, role: ClubRole) => {
+    if (
+      role === "owner" &&
+      !window.confirm(
+        `Make ${member.displayName || "this member"} the club owner? You'll become an officer.`
+      )
+    ) {
+      return;
+    }
+    run(member._id, () => clubStore.setMemberRole(clubId, member._id, role));
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+          Members
+        </h2>
+      </div>
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {clubStore.clubMembersLoading ? (
+        <div className="flex justify-center items-center p-12">
+          <div className="animate-spin h-8 w-8 border-2 border-brand-500 dark:border-brand-400 rounded-full border-t-transparent"></div>
+        </div>
+      ) : members.length === 0 ? (
+        <div className="p-12 text-center">
+          <p className="text-gray-500 dark:text-gray-400">
+            This club currently has no members.
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {members.map((member) => {
+            const isSelf = member._id === myId;
+            const showRemove = !isSelf && canRemoveMember(myRole, member.role, isSiteAdmin);
+            const showRoles = !isSelf && member.role !== "owner" && canChangeRoles(myRole, isSiteAdmin);
+
+            return (
+              <div
+                key={member._id}
+                className="p-4 sm:px-6 flex items-center gap-4 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+              >
+                <Link to={`/profile/${member._id}`} className="flex items-center flex-1 min-w-0">
+                  <div className="flex-shrink-0 mr-4">
+                    <Avatar
+                      src={member.photoURL}
+                      name={member.displayName}
+                      alt={member.displayName || "Member"}
+                      size="md"
+                    />
+                  </div>
+                  <div className="min-w-0">
+                    <h3 className="flex items-center gap-2 text-base font-medium text-gray-800 dark:text-gray-200">
+                      <span className="truncate hover:underline">{member.displayName || "Anonymous Member"}</span>
+                      {member.role !== "member" && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ROLE_BADGE_STYLES[member.role]}`}>
+                          {CLUB_ROLE_LABELS[member.role]}
+                        </span>
+                      )}
+                    </h3>
+                    {member.email && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                        {member.email}
+                      </p>
+                    )}
+                  </div>
+                </Link>
+
+                {(showRoles || showRemove) && (
+                  <div className="flex flex-wrap justify-end gap-2 text-sm">
+                    {showRoles && member.role === "member" && (
+                      <button
+                        onClick={() => handleRole(member, "officer")}
+                        disabled={busyId === member._id}
+                        className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                      >
+                        Make officer
+                      </button>
+                    )}
+                    {showRoles && member.role === "officer" && (
+                      <>
+                        <button
+                          onClick={() => handleRole(member, "member")}
+                          disabled={busyId === member._id}
+                          className="text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+                        >
+                          Demote
+                        </button>
+                        <button
+                          onClick={() => handleRole(member, "owner")}
+                          disabled={busyId === member._id}
+                          className="text-amber-600 dark:text-amber-400 hover:underline disabled:opacity-50"
+                        >
+                          Make owner
+                        </button>
+                      </>
+                    )}
+                    {showRemove && (
+                      <button
+                        onClick={() => handleRemove(member)}
+                        disabled={busyId === member._id}
+                        className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default MemberList;
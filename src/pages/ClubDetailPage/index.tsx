@@ -3,14 +3,22 @@ import { observer } from "mobx-react-lite";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { clubStore } from "../../stores/ClubStore";
 import { authStore } from "../../stores/AuthStore";
-import { ArrowLeft, Users } from "lucide-react";
-import Avatar from "../../components/Avatar";
+import { ArrowLeft, Pencil, Trash2, Users } from "lucide-react";
+import { canManageClub } from "../../utils/clubUtils";
+import ClubFormModal from "../../components/ClubFormModal";
+import AnnouncementFeed from "./components/AnnouncementFeed";
+import ClubSessions from "./components/ClubSessions";
+import ClubStatsPanel from "./components/ClubStatsPanel";
+import JoinRequestsPanel from "./components/JoinRequestsPanel";
+import MemberList from "./components/MemberList";
 
 const ClubDetailPage: React.FC = observer(() => {
   const { clubId } = useParams<{ clubId: string }>();
   const navigate = useNavigate();
   const [isJoining, setIsJoining] = useState(false);
   const [isLeaving, setIsLeaving] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [showEditForm, setShowEditForm] = useState(false);
 
   // Check if the user is authenticated
   const isAuthenticated = authStore.isAuthenticated;
@@ -27,7 +35,8 @@ const ClubDetailPage: React.FC = observer(() => {
       // Load both datasets in parallel to prevent flickering
       await Promise.all([
         clubStore.fetchClubWithMembers(clubId),
-        clubStore.fetchUserClubs()
+        clubStore.fetchUserClubs(),
+        clubStore.fetchMyJoinRequests()
       ]);
     };
 
@@ -36,6 +45,17 @@ const ClubDetailPage: React.FC = observer(() => {
 
   // Check if the user is a member of this club
   const isMember = clubStore.userClubs.some((club) => club._id === clubId);
+  const isPending = !isMember && !!clubId && clubStore.pendingClubIds.includes(clubId);
+  const myRole = clubStore.currentUserRole;
+  const canManage = canManageClub(myRole, authStore.isAdmin);
+  const canEdit = myRole === "owner" || authStore.isAdmin;
+
+  // Officers see the request queue; members can't
+  useEffect(() => {
+    if (clubId && canManage) {
+      clubStore.fetchJoinRequests(clubId);
+    }
+  }, [clubId, canManage]);
 
   const handleJoinClub = async () => {
     if (!clubId) return;
@@ -71,6 +91,46 @@ const ClubDetailPage: React.FC = observer(() => {
     }
   };
 
+  const handleCancelRequest = async () => {
+    if (!clubId) return;
+
+    setIsJoining(true);
+    try {
+      await clubStore.cancelJoinRequest(clubId);
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleToggleApproval = async (requiresApproval: boolean) => {
+    if (!clubId) return;
+
+    setIsSavingSettings(true);
+    try {
+      await clubStore.setRequiresApproval(clubId, requiresApproval);
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const handleDeleteClub = async () => {
+    if (!clubId || !clubStore.currentClub) return;
+    if (
+      !window.confirm(
+        `Delete ${clubStore.currentClub.name}? Members, requests and club data will be removed. This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    const success = await clubStore.deleteClub(clubId);
+    if (success) {
+      navigate("/clubs");
+    } else {
+      alert(clubStore.error || "Failed to delete club");
+    }
+  };
+
   if (clubStore.loading) {
     return (
       <div className="flex justify-center items-center min-h-screen bg-gray-50 dark:bg-dark-bg">
@@ -103,6 +163,8 @@ const ClubDetailPage: React.FC = observer(() => {
     );
   }
 
+  const club = clubStore.currentClub;
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4 transition-colors duration-300">
       <div className="max-w-6xl mx-auto">
@@ -117,56 +179,109 @@ const ClubDetailPage: React.FC = observer(() => {
           </Link>
         </div>
 
+        {club.approvalStatus === "pending" && (
+          <div className="mb-6 p-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300 text-sm">
+            This club is waiting for admin approval and isn't listed in the club directory yet.
+          </div>
+        )}
+        {club.approvalStatus === "rejected" && (
+          <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 text-sm">
+            This club wasn't approved{club.rejectionReason ? `: ${club.rejectionReason}` : "."} You can
+            edit it and it will be sent back for review.
+          </div>
+        )}
+
         {/* Club Header */}
         <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
           <div className="p-6 sm:p-8">
             <div className="flex flex-col md:flex-row md:items-center gap-6">
               {/* Club Logo */}
-              {clubStore.currentClub.logo ? (
+              {club.logo ? (
                 <img
-                  src={clubStore.currentClub.logo}
-                  alt={clubStore.currentClub.name}
+                  src={club.logo}
+                  alt={club.name}
                   className="w-24 h-24 rounded-full object-cover border-2 border-gray-200 dark:border-gray-700"
                 />
               ) : (
                 <div className="w-24 h-24 rounded-full bg-brand-100 dark:bg-brand-900/30 flex items-center justify-center text-brand-600 dark:text-brand-400 font-bold text-2xl">
-                  {clubStore.currentClub.name.substring(0, 2).toUpperCase()}
+                  {club.name.substring(0, 2).toUpperCase()}
                 </div>
               )}
 
               {/* Club Info */}
               <div className="flex-1">
                 <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">
-                  {clubStore.currentClub.name}
+                  {club.name}
                 </h1>
                 <p className="text-gray-600 dark:text-gray-300 mb-4">
-                  {clubStore.currentClub.description}
+                  {club.description}
                 </p>
 
                 {/* Member Count */}
-                <div className="flex items-center text-gray-500 dark:text-gray-400">
-                  <Users className="h-5 w-5 mr-2" />
-                  <span>{clubStore.clubMembers.length} Members</span>
+                <div className="flex flex-wrap items-center gap-4 text-gray-500 dark:text-gray-400">
+                  <span className="flex items-center">
+                    <Users className="h-5 w-5 mr-2" />
+                    {clubStore.clubMembers.length} Members
+                  </span>
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => setShowEditForm(true)}
+                        className="flex items-center text-sm hover:text-gray-700 dark:hover:text-gray-200"
+                      >
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit club
+                      </button>
+                      <button
+                        onClick={handleDeleteClub}
+                        className="flex items-center text-sm text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
 
               {/* Join/Leave Button */}
               <div className="mt-4 md:mt-0">
                 {isMember ? (
-                  <button
-                    onClick={handleLeaveClub}
-                    disabled={isLeaving}
-                    className="px-6 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-dark-card hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors font-medium"
-                  >
-                    {isLeaving ? "Leaving..." : "Leave Club"}
-                  </button>
+                  myRole === "owner" ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 max-w-[12rem]">
+                      Hand ownership to another member before leaving.
+                    </p>
+                  ) : (
+                    <button
+                      onClick={handleLeaveClub}
+                      disabled={isLeaving}
+                      className="px-6 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-dark-card hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors font-medium"
+                    >
+                      {isLeaving ? "Leaving..." : "Leave Club"}
+                    </button>
+                  )
+                ) : isPending ? (
+                  <div className="flex flex-col items-start md:items-end gap-2">
+                    <span className="px-3 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                      Request pending
+                    </span>
+                    <button
+                      onClick={handleCancelRequest}
+                      disabled={isJoining}
+                      className="text-sm text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+                    >
+                      Cancel request
+                    </button>
+                  </div>
                 ) : (
                   <button
                     onClick={handleJoinClub}
                     disabled={isJoining}
                     className="px-6 py-2 bg-brand-600 hover:bg-brand-700 text-white rounded-md font-medium shadow-sm transition-colors dark:bg-brand-700 dark:hover:bg-brand-600"
                   >
-                    {isJoining ? "Joining..." : "Join Club"}
+                    {club.requiresApproval
+                      ? isJoining ? "Sending..." : "Request to Join"
+                      : isJoining ? "Joining..." : "Join Club"}
                   </button>
                 )}
               </div>
@@ -174,56 +289,47 @@ const ClubDetailPage: React.FC = observer(() => {
           </div>
         </div>
 
-        {/* Members Section */}
-        <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden dark:border dark:border-dark-border">
-          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
-            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
-              Members
-            </h2>
-          </div>
+        {clubId && (isMember || authStore.isAdmin) && (
+          <AnnouncementFeed clubId={clubId} canPost={canManage} />
+        )}
 
-          {clubStore.clubMembersLoading ? (
-            <div className="flex justify-center items-center p-12">
-              <div className="animate-spin h-8 w-8 border-2 border-brand-500 dark:border-brand-400 rounded-full border-t-transparent"></div>
-            </div>
-          ) : clubStore.clubMembers.length === 0 ? (
-            <div className="p-12 text-center">
-              <p className="text-gray-500 dark:text-gray-400">
-                This club currently has no members.
-              </p>
-            </div>
-          ) : (
-            <div className="divide-y divide-gray-200 dark:divide-gray-700">
-              {clubStore.clubMembers.map((member) => (
-                <Link
-                  key={member._id}
-                  to={`/profile/${member._id}`}
-                  className="p-4 sm:px-6 flex items-center hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
-                >
-                  <div className="flex-shrink-0 mr-4">
-                    <Avatar
-                      src={member.photoURL}
-                      name={member.displayName}
-                      alt={member.displayName || "Member"}
-                      size="md"
-                    />
-                  </div>
-                  <div>
-                    <h3 className="text-base font-medium text-gray-800 dark:text-gray-200 hover:underline">
-                      {member.displayName || "Anonymous Member"}
-                    </h3>
-                    {member.email && (
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        {member.email}
-                      </p>
-                    )}
-                  </div>
-                </Link>
-              ))}
+        {clubId && <ClubSessions clubId={clubId} />}
+
+        {clubId && (isMember || authStore.isAdmin) && <ClubStatsPanel clubId={clubId} />}
+
+        {/* Officer Tools */}
+        {canManage && clubId && (
+          <>
+            <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm mb-8 p-6 dark:border dark:border-dark-border">
+              <label className="flex items-center justify-between gap-4 cursor-pointer">
+                <div>
+                  <p className="font-medium text-gray-800 dark:text-gray-200">Require approval to join</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    New members wait until an officer approves their request.
+                  </p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={!!club.requiresApproval}
+                  disabled={isSavingSettings}
+                  onChange={(e) => handleToggleApproval(e.target.checked)}
+                  className="h-5 w-5 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                />
+              </label>
             </div>
-          )}
-        </div>
+            {(club.requiresApproval || clubStore.joinRequests.length > 0) && (
+              <JoinRequestsPanel clubId={clubId} />
+            )}
+          </>
+        )}
+
+        {/* Members Section */}
+        {clubId && <MemberList clubId={clubId} />}
       </div>
+
+      {showEditForm && (
+        <ClubFormModal club={club} onClose={() => setShowEditForm(false)} />
+      )}
     </div>
   );
 });
@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { observer } from "mobx-react-lite";
-import { clubStore } from "../../stores/ClubStore";
+import { Club, clubStore } from "../../stores/ClubStore";
 import { useLocation } from "react-router-dom";
-import { Search } from "lucide-react";
+import { Plus, Search } from "lucide-react";
 import debounce from "lodash.debounce";
 import { Link } from "react-router-dom";
+import ClubFormModal from "../../components/ClubFormModal";
 
 const ClubsPage: React.FC = observer(() => {
   const location = useLocation();
@@ -17,6 +18,8 @@ const ClubsPage: React.FC = observer(() => {
   );
   const [searchTerm, setSearchTerm] = useState("");
   const [isSearching, setIsSearching] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [submittedNotice, setSubmittedNotice] = useState("");
 
   // Access userClubs to establish reactive dependency for the membership map
   const userClubs = clubStore.userClubs;
@@ -27,7 +30,8 @@ const ClubsPage: React.FC = observer(() => {
       // Fetch both types of data in parallel to prevent sequential loading flickers
       await Promise.all([
         clubStore.fetchClubsWithMemberCount(),
-        clubStore.fetchUserClubs()
+        clubStore.fetchUserClubs(),
+        clubStore.fetchMyJoinRequests()
       ]);
     };
     fetchData();
@@ -115,6 +119,14 @@ const ClubsPage: React.FC = observer(() => {
     ]);
   };
 
+  const handleClubCreated = (club: Club | null) => {
+    if (club && club.approvalStatus !== "approved") {
+      setSubmittedNotice(
+        `"${club.name}" was submitted for review. It'll appear in the directory once an admin approves it.`
+      );
+    }
+  };
+
   return (
     <div className="bg-gray-50 dark:bg-dark-bg min-h-screen py-8 transition-colors duration-300">
       <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -125,21 +137,40 @@ const ClubsPage: React.FC = observer(() => {
                 Pickle Clubs
               </h1>
 
-              {/* Search Bar */}
-              <div className="relative w-full md:w-64">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Search className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+              <div className="flex flex-col sm:flex-row gap-3 md:items-center">
+                <button
+                  onClick={() => setShowCreateForm(true)}
+                  className="inline-flex items-center justify-center px-4 py-2 rounded-md bg-brand-600 text-white hover:bg-brand-700 dark:bg-brand-700 dark:hover:bg-brand-600 transition-colors text-sm font-medium"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Create Club
+                </button>
+
+                {/* Search Bar */}
+                <div className="relative w-full md:w-64">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Search className="h-5 w-5 text-gray-400 dark:text-gray-500" />
+                  </div>
+                  <input
+                    type="text"
+                    value={searchTerm}
+                    onChange={handleSearchChange}
+                    placeholder="Search clubs..."
+                    className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-dark-border rounded-md leading-5 bg-white dark:bg-dark-muted placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-brand-500 dark:focus:ring-brand-600 dark:focus:border-brand-600 dark:text-gray-200 sm:text-sm"
+                  />
                 </div>
-                <input
-                  type="text"
-                  value={searchTerm}
-                  onChange={handleSearchChange}
-                  placeholder="Search clubs..."
-                  className="block w-full pl-10 pr-3 py-2 border border-gray-300 dark:border-dark-border rounded-md leading-5 bg-white dark:bg-dark-muted placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-brand-500 dark:focus:ring-brand-600 dark:focus:border-brand-600 dark:text-gray-200 sm:text-sm"
-                />
               </div>
             </div>
 
+            {submittedNotice && (
+              <div className="mt-4 p-3 flex items-start justify-between gap-3 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded-md text-sm">
+                <span>{submittedNotice}</span>
+                <button onClick={() => setSubmittedNotice("")} className="font-medium hover:underline">
+                  Dismiss
+                </button>
+              </div>
+            )}
+
             {/* Tabs */}
             <div className="mt-6 border-b border-gray-200 dark:border-dark-border">
               <div className="flex space-x-8">
@@ -264,6 +295,16 @@ const ClubsPage: React.FC = observer(() => {
                           <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
                             {club.name}
                           </h3>
+                          {club.approvalStatus === "pending" && (
+                            <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                              Awaiting approval
+                            </span>
+                          )}
+                          {club.approvalStatus === "rejected" && (
+                            <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                              Not approved
+                            </span>
+                          )}
                           <div className="flex items-center mt-1">
                             <svg
                               xmlns="http://www.w3.org/2000/svg"
@@ -287,19 +328,27 @@ const ClubsPage: React.FC = observer(() => {
                       </div>
 
                       <div className="p-4 border-t border-gray-100 dark:border-dark-border flex justify-between items-center">
-                        {isUserInClub ? (
+                        {club.approvalStatus === "pending" || club.approvalStatus === "rejected" ? (
+                          <span className="text-sm text-gray-500 dark:text-gray-400">
+                            {club.approvalStatus === "pending" ? "In review" : "Edit and resubmit"}
+                          </span>
+                        ) : isUserInClub ? (
                           <button
                             onClick={() => handleLeaveClub(clubId)}
                             className="px-4 py-2 border border-gray-300 dark:border-dark-border rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-dark-muted hover:bg-gray-50 dark:hover:bg-dark-muted/80 transition-colors text-sm font-medium"
                           >
                             Leave
                           </button>
+                        ) : clubStore.pendingClubIds.includes(clubId) ? (
+                          <span className="px-3 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                            Request pending
+                          </span>
                         ) : (
                           <button
                             onClick={() => handleJoinClub(clubId)}
                             className="px-4 py-2 border border-transparent rounded-md bg-brand-600 text-white hover:bg-brand-700 dark:bg-brand-700 dark:hover:bg-brand-600 transition-colors text-sm font-medium"
                           >
-                            Join
+                            {club.requiresApproval ? "Request to Join" : "Join"}
                           </button>
                         )}
 
@@ -318,6 +367,13 @@ const ClubsPage: React.FC = observer(() => {
           </div>
         </div>
       </div>
+
+      {showCreateForm && (
+        <ClubFormModal
+          onClose={() => setShowCreateForm(false)}
+          onSaved={handleClubCreated}
+        />
+      )}
     </div>
   );
 });
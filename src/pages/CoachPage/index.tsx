@@ -2,9 +2,17 @@ import React, { useEffect, useState } from "react";
 import { observer } from "mobx-react-lite";
 import { useNavigate } from "react-router-dom";
 import { authStore } from "../../stores/AuthStore";
+import { clubStore } from "../../stores/ClubStore";
 import { venueStore } from "../../stores/VenueStore";
-import { sessionStore, CreateSessionData } from "../../stores/SessionStore";
+import { sessionStore, CreateSessionData, SessionRecurrence } from "../../stores/SessionStore";
 import SessionCard from "../../components/SessionCard";
+import CourtPicker from "../../components/CourtPicker";
+import SessionConflicts from "../../components/SessionConflicts";
+import ClubSessionFields, { ClubSessionValue } from "../../components/ClubSessionFields";
+import RecurrenceFields from "../../components/RecurrenceFields";
+import { generateOccurrenceDates, getRecurrenceError } from "../../utils/recurrenceUtils";
+import { checkOpeningHours } from "../../utils/openingHoursUtils";
+import { isVenueAvailable } from "../../utils/venueStatusUtils";
 
 type SessionType = "open" | "coached";
 
@@ -23,12 +31,16 @@ const CoachPage: React.FC = observer(() => {
   // Form state
   const [sessionType, setSessionType] = useState<SessionType>("coached"); // Default to coached for coaches
   const [venueId, setVenueId] = useState("");
+  const [courtIds, setCourtIds] = useState<string[]>([]);
   const [date, setDate] = useState("");
   const [startTime, setStartTime] = useState("09:00");
   const [endTime, setEndTime] = useState("12:00");
   const [maxPlayers, setMaxPlayers] = useState(20);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [recurrence, setRecurrence] = useState<SessionRecurrence | null>(null);
+  const [clubSession, setClubSession] = useState<ClubSessionValue>({ clubId: "", membersOnly: false });
+  const [hasConflicts, setHasConflicts] = useState(false);
 
   useEffect(() => {
 
@@ -47,6 +59,7 @@ const CoachPage: React.FC = observer(() => {
         await Promise.all([
           venueStore.fetchVenues(),
           sessionStore.fetchSessions(filters),
+          clubStore.fetchUserClubs(),
         ]);
       } catch (err) {
         console.error("Failed to initialize coach page:", err);
@@ -61,12 +74,15 @@ const CoachPage: React.FC = observer(() => {
   const resetForm = () => {
     setSessionType("coached");
     setVenueId("");
+    setCourtIds([]);
     setDate("");
     setStartTime("09:00");
     setEndTime("12:00");
     setMaxPlayers(20);
     setTitle("");
     setDescription("");
+    setRecurrence(null);
+    setClubSession({ clubId: "", membersOnly: false });
     setError("");
   };
 
@@ -87,6 +103,38 @@ const CoachPage: React.FC = observer(() => {
       return;
     }
 
+    const recurrenceError = recurrence ? getRecurrenceError(date, recurrence) : null;
+    if (recurrenceError) {
+      setError(recurrenceError);
+      setCreating(false);
+      return;
+    }
+
+    if (recurrence && generateOccurrenceDates(date, recurrence).length === 0) {
+      setError("The repeat settings don't produce any sessions");
+      setCreating(false);
+      return;
+    }
+
+    const selectedVenue = venueStore.venues.find((v) => v.id === venueId);
+    const sessionDates = recurrence ? generateOccurrenceDates(date, recurrence) : [date];
+    const hoursError = selectedVenue
+      ? sessionDates
+          .map((sessionDate) => checkOpeningHours(selectedVenue, sessionDate, startTime, endTime))
+          .find(Boolean)
+      : null;
+    if (hoursError) {
+      setError(hoursError);
+      setCreating(false);
+      return;
+    }
+
+    if (hasConflicts) {
+      setError("This time clashes with existing sessions. Pick another time or shift to the next free slot.");
+      setCreating(false);
+      return;
+    }
+
     try {
       const sessionData: CreateSessionData = {
         venueId,
@@ -94,16 +142,24 @@ const CoachPage: React.FC = observer(() => {
         startTime,
         endTime,
         maxPlayers,
+        ...(courtIds.length > 0 && { courtIds }),
         // Only assign coach if coached session
         ...(sessionType === "coached" && { coachId: user?.id }),
         title: title || (sessionType === "open" ? "Open Play" : undefined),
         ...(description && { description }),
+        ...(clubSession.clubId && { clubId: clubSession.clubId, membersOnly: clubSession.membersOnly }),
       };
 
-      const result = await sessionStore.createSession(sessionData);
+      const result = recurrence
+        ? await sessionStore.createSessionSeries({ ...sessionData, recurrence })
+        : await sessionStore.createSession(sessionData);
 
       if (result) {
-        setSuccess("Session created successfully!");
+        setSuccess(
+          Array.isArray(result)
+            ? `${result.length} sessions created successfully!`
+            : "Session created successfully!"
+        );
         resetForm();
         setShowCreateForm(false);
         // Refresh sessions
@@ -121,6 +177,23 @@ const CoachPage: React.FC = observer(() => {
 
   const today = new Date().toISOString().split("T")[0];
 
+  // Every date this form would create, checked against existing sessions
+  const conflictSlots = date
+    ? (recurrence ? generateOccurrenceDates(date, recurrence) : [date]).map((slotDate) => ({
+        date: slotDate,
+        startTime,
+        endTime,
+        venueId,
+        courtIds,
+        coachId: sessionType === "coached" ? user?.id : undefined,
+      }))
+    : [];
+
+  const handleShift = (nextStart: string, nextEnd: string) => {
+    setStartTime(nextStart);
+    setEndTime(nextEnd);
+  };
+
   // Get sessions - for coaches show their own, for admins show all
   const mySessions = user?.role === "coach"
     ? sessionStore.sessions.filter((s) => s.coachId?._id === user?.id)
@@ -253,13 +326,16 @@ const CoachPage: React.FC = observer(() => {
                   </label>
                   <select
                     value={venueId}
-                    onChange={(e) => setVenueId(e.target.value)}
+                    onChange={(e) => {
+                      setVenueId(e.target.value);
+                      setCourtIds([]);
+                    }}
                     required
                     className="w-full p-2 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100"
                   >
                     <option value="">Select a venue</option>
                     {venueStore.venues
-                      .filter((v) => v.status === "Available")
+                      .filter((v) => isVenueAvailable(v))
                       .map((venue) => (
                         <option key={venue.id} value={venue.id}>
                           {venue.name}
@@ -355,6 +431,19 @@ const CoachPage: React.FC = observer(() => {
                 />
               </div>
 
+              <CourtPicker venueId={venueId} value={courtIds} onChange={setCourtIds} />
+
+              {/* Repeat */}
+              <RecurrenceFields startDate={date} value={recurrence} onChange={setRecurrence} />
+
+              <ClubSessionFields clubs={clubStore.approvedUserClubs} value={clubSession} onChange={setClubSession} />
+
+              <SessionConflicts
+                slots={conflictSlots}
+                onShift={handleShift}
+                onConflictsChange={setHasConflicts}
+              />
+
               {/* Buttons */}
               <div className="flex justify-end gap-3">
                 <button
@@ -376,7 +465,7 @@ const CoachPage: React.FC = observer(() => {
                       : "bg-amber-600 hover:bg-amber-700"
                   }`}
                 >
-                  {creating ? "Creating..." : `Create ${sessionType === "open" ? "Open Play" : "Coached Session"}`}
+                  {creating ? "Creating..." : `Create ${sessionType === "open" ? "Open Play" : "Coached Session"}${recurrence ? " Series" : ""}`}
                 </button>
               </div>
             </form>
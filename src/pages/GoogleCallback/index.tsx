@@ -87,9 +87,11 @@ const GoogleCallback: React.FC = () => {
     }
   };
 
-  // Helper function to navigate to venues
+  // Helper function to navigate back to where login started, or to venues
   const navigateToAppropriateRoute = () => {
-    navigate("/venues", { replace: true });
+    const redirectTo = sessionStorage.getItem("loginRedirect") || "/venues";
+    sessionStorage.removeItem("loginRedirect");
+    navigate(redirectTo, { replace: true });
   };
 
   // Show a clean loading spinner without debug messages
@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Clock } from "lucide-react";
+import { Ladder, LadderChallenge, LadderEntry, ladderStore } from "../../../stores/LadderStore";
+import { authStore } from "../../../stores/AuthStore";
+import UserBadge from "../../../components/UserBadge";
+import { formatTimeLeft, getEntryName, getOpenChallenges, isOverdue } from "../../../utils/ladderUtils";
+import ResultModal from "./ResultModal";
+
+const RECENT_RESULTS = 10;
+
+interface ChallengeListProps {
+  ladder: Ladder;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const ChallengeList: React.FC<ChallengeListProps> = observer(({ ladder }) => {
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const userId = authStore.user?.id;
+  const isOrganizer = ladderStore.isOrganizer(ladder);
+  const open = getOpenChallenges(ladder).sort(
+    (a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime()
+  );
+  const recent = ladder.challenges
+    .filter((c) => c.status === "completed" || c.status === "forfeited")
+    .sort(
+      (a, b) =>
+        new Date(b.completedAt || b.createdAt).getTime() - new Date(a.completedAt || a.createdAt).getTime()
+    )
+    .slice(0, RECENT_RESULTS);
+  const reporting = open.find((c) => c._id === reportingId);
+
+  const isOn = (entry?: LadderEntry) => !!entry?.players.some((p) => p._id === userId);
+
+  const renderEntry = (entryId: string) => {
+    const entry = ladderStore.getEntry(ladder, entryId);
+    if (!entry) return <span className="text-sm italic text-gray-400">Left the ladder</span>;
+
+    return (
+      <div className="min-w-0">
+        {entry.name && <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{entry.name}</p>}
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-gray-800 dark:text-gray-200">
+          {entry.players.map((player) => (
+            <UserBadge
+              key={player._id}
+              photoURL={player.photoURL}
+              displayName={player.displayName}
+              userId={player._id}
+              size="xs"
+              ladderPosition={entry.position}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const handleCancel = async (challenge: LadderChallenge) => {
+    if (!window.confirm("Withdraw this challenge?")) return;
+    await ladderStore.cancelChallenge(ladder._id, challenge._id);
+  };
+
+  const handleForfeit = async (challenge: LadderChallenge) => {
+    const defender = ladderStore.getEntry(ladder, challenge.defenderId);
+    if (!window.confirm(`Claim the win? ${defender ? getEntryName(defender) : "The defender"} didn't play in time.`)) {
+      return;
+    }
+    const success = await ladderStore.claimForfeit(ladder._id, challenge._id);
+    if (!success) alert(ladderStore.error || "Failed to claim forfeit");
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Challenges</h2>
+      </div>
+
+      {open.length === 0 ? (
+        <p className="p-6 text-gray-500 dark:text-gray-400">No open challenges.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {open.map((challenge) => {
+            const challenger = ladderStore.getEntry(ladder, challenge.challengerId);
+            const defender = ladderStore.getEntry(ladder, challenge.defenderId);
+            const involved = isOn(challenger) || isOn(defender);
+            const overdue = isOverdue(challenge);
+
+            return (
+              <li key={challenge._id} className="p-4 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1 grid grid-cols-[1fr_auto_1fr] items-center gap-3">
+                  {renderEntry(challenge.challengerId)}
+                  <span className="text-xs font-semibold uppercase text-gray-400">vs</span>
+                  {renderEntry(challenge.defenderId)}
+                </div>
+                <span
+                  className={`flex items-center gap-1 text-xs font-medium ${
+                    overdue ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400"
+                  }`}
+                  title={`Play by ${new Date(challenge.deadline).toLocaleString()}`}
+                >
+                  <Clock className="h-3.5 w-3.5" />
+                  {formatTimeLeft(challenge.deadline)}
+                </span>
+                <div className="flex gap-2">
+                  {(involved || isOrganizer) && !overdue && (
+                    <button
+                      onClick={() => setReportingId(challenge._id)}
+                      className="px-3 py-1.5 text-sm rounded-md bg-brand-600 text-white hover:bg-brand-700"
+                    >
+                      Report result
+                    </button>
+                  )}
+                  {overdue && (isOn(challenger) || isOrganizer) && (
+                    <button
+                      onClick={() => handleForfeit(challenge)}
+                      className="px-3 py-1.5 text-sm rounded-md bg-amber-600 text-white hover:bg-amber-700"
+                    >
+                      Claim forfeit
+                    </button>
+                  )}
+                  {(isOn(challenger) || isOrganizer) && (
+                    <button
+                      onClick={() => handleCancel(challenge)}
+                      className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {recent.length > 0 && (
+        <div className="p-6 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Recent results</h3>
+          <ul className="space-y-1.5 text-sm">
+            {recent.map((challenge) => {
+              const winner = challenge.winnerId ? ladderStore.getEntry(ladder, challenge.winnerId) : undefined;
+              const loserId = challenge.winnerId === challenge.challengerId ? challenge.defenderId : challenge.challengerId;
+              const loser = ladderStore.getEntry(ladder, loserId);
+              const upset = challenge.winnerId === challenge.challengerId;
+
+              return (
+                <li key={challenge._id} className="flex items-center justify-between gap-3">
+                  <span className="text-gray-700 dark:text-gray-300 truncate">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {winner ? getEntryName(winner) : "Former player"}
+                    </span>{" "}
+                    beat {loser ? getEntryName(loser) : "a former player"}
+                    {challenge.status === "forfeited"
+                      ? " by forfeit"
+                      : ` ${upset ? challenge.challengerScore : challenge.defenderScore}-${
+                          upset ? challenge.defenderScore : challenge.challengerScore
+                        }`}
+                    {upset && <span className="text-green-600 dark:text-green-400"> ↑</span>}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    {formatDate(challenge.completedAt || challenge.createdAt)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {reporting && <ResultModal ladder={ladder} challenge={reporting} onClose={() => setReportingId(null)} />}
+    </div>
+  );
+});
+
+export default ChallengeList;
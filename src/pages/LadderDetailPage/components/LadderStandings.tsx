@@ -0,0 +1,113 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Swords, Trash2 } from "lucide-react";
+import { Ladder, LadderEntry, ladderStore } from "../../../stores/LadderStore";
+import UserBadge from "../../../components/UserBadge";
+import { getChallengeBlocker, getEntryName, getOpenChallenges } from "../../../utils/ladderUtils";
+
+interface LadderStandingsProps {
+  ladder: Ladder;
+}
+
+const LadderStandings: React.FC<LadderStandingsProps> = observer(({ ladder }) => {
+  const myEntry = ladderStore.getMyEntry(ladder);
+  const isOrganizer = ladderStore.isOrganizer(ladder);
+  const entries = [...ladder.entries].sort((a, b) => a.position - b.position);
+  const busyIds = new Set(getOpenChallenges(ladder).flatMap((c) => [c.challengerId, c.defenderId]));
+
+  const handleChallenge = async (defender: LadderEntry) => {
+    if (!myEntry) return;
+    if (!window.confirm(`Challenge ${getEntryName(defender)} for #${defender.position}?`)) return;
+
+    const success = await ladderStore.issueChallenge(ladder._id, myEntry._id, defender._id);
+    if (!success) alert(ladderStore.error || "Failed to send challenge");
+  };
+
+  const handleRemove = async (entry: LadderEntry) => {
+    const isMine = entry._id === myEntry?._id;
+    const prompt = isMine
+      ? "Leave this ladder? You'll lose your position."
+      : `Remove #${entry.position} from the ladder? Everyone below moves up one.`;
+    if (!window.confirm(prompt)) return;
+
+    await ladderStore.removeEntry(ladder._id, entry._id);
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Standings</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Challenge anyone up to {ladder.challengeRange} places above you. Challenges must be played within{" "}
+          {ladder.challengeDays} days.
+        </p>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="p-6 text-gray-500 dark:text-gray-400">No one has joined yet.</p>
+      ) : (
+        <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+          {entries.map((entry) => {
+            const isMine = entry._id === myEntry?._id;
+            const blocker = myEntry && !isMine ? getChallengeBlocker(ladder, myEntry, entry) : null;
+            // Only offer the button within range; say why when it's blocked for another reason
+            const inRange =
+              !!myEntry &&
+              entry.position < myEntry.position &&
+              myEntry.position - entry.position <= ladder.challengeRange;
+
+            return (
+              <li
+                key={entry._id}
+                className={`p-4 flex items-center gap-4 ${isMine ? "bg-brand-50 dark:bg-brand-900/20" : ""}`}
+              >
+                <span className="w-8 text-center text-lg font-bold text-gray-400">{entry.position}</span>
+                <div className="flex-1 min-w-0">
+                  {entry.name && (
+                    <p className="font-medium text-gray-900 dark:text-gray-100 mb-1">{entry.name}</p>
+                  )}
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-gray-800 dark:text-gray-200">
+                    {entry.players.map((player) => (
+                      <UserBadge
+                        key={player._id}
+                        photoURL={player.photoURL}
+                        displayName={player.displayName}
+                        userId={player._id}
+                        size="sm"
+                      />
+                    ))}
+                  </div>
+                </div>
+                {busyIds.has(entry._id) && (
+                  <span className="text-xs font-medium text-amber-700 dark:text-amber-400">In a challenge</span>
+                )}
+                {inRange && (
+                  <button
+                    onClick={() => handleChallenge(entry)}
+                    disabled={!!blocker}
+                    title={blocker || "Challenge"}
+                    className="inline-flex items-center px-3 py-1.5 rounded-md bg-brand-600 text-white hover:bg-brand-700 text-sm font-medium disabled:opacity-40"
+                  >
+                    <Swords className="h-4 w-4 mr-1" />
+                    Challenge
+                  </button>
+                )}
+                {(isOrganizer || isMine) && (
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    title={isMine ? "Leave ladder" : "Remove from ladder"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+});
+
+export default LadderStandings;
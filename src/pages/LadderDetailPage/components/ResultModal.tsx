@@ -0,0 +1,151 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Ladder, LadderChallenge, ladderStore } from "../../../stores/LadderStore";
+import { getEntryName, reorderAfterChallenge } from "../../../utils/ladderUtils";
+import { validateGameScore } from "../../../utils/matchUtils";
+
+interface ResultModalProps {
+  ladder: Ladder;
+  challenge: LadderChallenge;
+  onClose: () => void;
+}
+
+/**
+ * ResultModal - Report the score of a ladder challenge
+ */
+const ResultModal: React.FC<ResultModalProps> = observer(({ ladder, challenge, onClose }) => {
+  const [challengerScore, setChallengerScore] = useState("");
+  const [defenderScore, setDefenderScore] = useState("");
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const challenger = ladderStore.getEntry(ladder, challenge.challengerId);
+  const defender = ladderStore.getEntry(ladder, challenge.defenderId);
+
+  // Preview of the order the server will apply once a challenger win is saved
+  const challengerWins =
+    challengerScore !== "" &&
+    defenderScore !== "" &&
+    validateGameScore(Number(challengerScore), Number(defenderScore)) === null &&
+    Number(challengerScore) > Number(defenderScore);
+  const moves = challengerWins
+    ? reorderAfterChallenge(ladder.entries, challenge, challenge.challengerId).filter(
+        ({ entryId, position }) => ladderStore.getEntry(ladder, entryId)?.position !== position
+      )
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const a = Number(challengerScore);
+    const b = Number(defenderScore);
+    const scoreError =
+      challengerScore === "" || defenderScore === "" ? "Enter both scores" : validateGameScore(a, b);
+    if (scoreError) {
+      setError(scoreError);
+      return;
+    }
+
+    setSaving(true);
+    const success = await ladderStore.recordResult(ladder._id, challenge, a, b);
+    setSaving(false);
+
+    if (success) {
+      onClose();
+    } else {
+      setError(ladderStore.error || "Failed to record result");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Report Result</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          {[
+            { entry: challenger, label: "Challenger", value: challengerScore, onChange: setChallengerScore },
+            { entry: defender, label: "Defender", value: defenderScore, onChange: setDefenderScore },
+          ].map(({ entry, label, value, onChange }) => (
+            <div key={label} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                  {entry ? getEntryName(entry) : "Unknown"}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {label}
+                  {entry && ` · #${entry.position}`}
+                </p>
+              </div>
+              <input
+                type="number"
+                min={0}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className="w-20 p-2.5 text-center border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500"
+              />
+            </div>
+          ))}
+
+          {moves.length > 0 ? (
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              <p className="mb-1">New positions after this result:</p>
+              <ul className="space-y-0.5">
+                {moves.map(({ entryId, position }) => {
+                  const entry = ladderStore.getEntry(ladder, entryId);
+                  return (
+                    <li key={entryId}>
+                      #{position} {entry ? getEntryName(entry) : "Unknown"}
+                      {entry && ` (was #${entry.position})`}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              If the challenger wins they take the defender's place and everyone in between moves down one.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-lg font-medium text-white bg-brand-600 hover:bg-brand-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Result"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+export default ResultModal;
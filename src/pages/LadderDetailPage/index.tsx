@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { useParams, Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Pencil, Trash2, UserPlus } from "lucide-react";
+import { LADDER_FORMAT_LABELS, ladderStore } from "../../stores/LadderStore";
+import { authStore } from "../../stores/AuthStore";
+import { socketStore } from "../../stores/SocketStore";
+import LadderFormModal from "../../components/LadderFormModal";
+import ChallengeList from "./components/ChallengeList";
+import JoinLadderModal from "./components/JoinLadderModal";
+import LadderStandings from "./components/LadderStandings";
+
+const LadderDetailPage: React.FC = observer(() => {
+  const { ladderId } = useParams<{ ladderId: string }>();
+  const navigate = useNavigate();
+  const [loaded, setLoaded] = useState(false);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showJoin, setShowJoin] = useState(false);
+  const [joining, setJoining] = useState(false);
+  const socketConnected = socketStore.connected;
+
+  useEffect(() => {
+    if (!ladderId) return;
+
+    ladderStore.fetchLadder(ladderId).then(() => setLoaded(true));
+  }, [ladderId]);
+
+  // Challenges and results from other players arrive live
+  useEffect(() => {
+    if (!socketConnected || !ladderId) return;
+
+    socketStore.joinLadder(ladderId);
+    return () => socketStore.leaveLadder(ladderId);
+  }, [socketConnected, ladderId]);
+
+  const ladder = ladderId ? ladderStore.getLadder(ladderId) : undefined;
+
+  if (!loaded && !ladder) {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-gray-50 dark:bg-dark-bg">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-500 dark:border-brand-400"></div>
+      </div>
+    );
+  }
+
+  if (!ladder) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white dark:bg-dark-card shadow rounded-lg p-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">Ladder Not Found</h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              The ladder you're looking for doesn't exist or has been removed.
+            </p>
+            <Link
+              to="/ladders"
+              className="inline-flex items-center text-brand-600 hover:text-brand-700 dark:text-brand-400 dark:hover:text-brand-300"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Ladders
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isOrganizer = ladderStore.isOrganizer(ladder);
+  const myEntry = ladderStore.getMyEntry(ladder);
+
+  const handleJoin = async () => {
+    if (ladder.format === "doubles") {
+      setShowJoin(true);
+      return;
+    }
+    if (!authStore.user) return;
+
+    setJoining(true);
+    const success = await ladderStore.joinLadder(ladder._id, [authStore.user.id]);
+    setJoining(false);
+    if (!success) alert(ladderStore.error || "Failed to join ladder");
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${ladder.name}? Standings and challenge history will be lost.`)) return;
+
+    if (await ladderStore.deleteLadder(ladder._id)) {
+      navigate("/ladders");
+    } else {
+      alert(ladderStore.error || "Failed to delete ladder");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4 transition-colors duration-300">
+      <div className="max-w-6xl mx-auto">
+        {/* Back Button */}
+        <div className="mb-6">
+          <Link
+            to="/ladders"
+            className="inline-flex items-center text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Ladders
+          </Link>
+        </div>
+
+        {/* Ladder Header */}
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+          <div className="p-6 sm:p-8 flex flex-col md:flex-row md:items-start gap-6">
+            <div className="flex-1">
+              <p className="text-sm font-medium text-brand-600 dark:text-brand-400 mb-1">
+                {LADDER_FORMAT_LABELS[ladder.format]} ladder · {ladder.entries.length}{" "}
+                {ladder.format === "doubles" ? "teams" : "players"}
+              </p>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{ladder.name}</h1>
+              {ladder.description && (
+                <p className="text-gray-600 dark:text-gray-300 mb-4 whitespace-pre-line">{ladder.description}</p>
+              )}
+              {isOrganizer && (
+                <div className="flex flex-wrap items-center gap-4 text-gray-500 dark:text-gray-400 text-sm">
+                  <button
+                    onClick={() => setShowEditForm(true)}
+                    className="flex items-center hover:text-gray-700 dark:hover:text-gray-200"
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {myEntry ? (
+              <div className="text-center px-6 py-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                <p className="text-3xl font-bold text-amber-700 dark:text-amber-300">#{myEntry.position}</p>
+                <p className="text-xs text-amber-800 dark:text-amber-400">Your position</p>
+              </div>
+            ) : (
+              <button
+                onClick={handleJoin}
+                disabled={joining}
+                className="inline-flex items-center justify-center px-6 py-2 rounded-md bg-brand-600 text-white hover:bg-brand-700 font-medium disabled:opacity-50"
+              >
+                <UserPlus className="h-4 w-4 mr-2" />
+                {joining ? "Joining..." : "Join Ladder"}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <ChallengeList ladder={ladder} />
+        <LadderStandings ladder={ladder} />
+      </div>
+
+      {showEditForm && <LadderFormModal ladder={ladder} onClose={() => setShowEditForm(false)} />}
+      {showJoin && <JoinLadderModal ladder={ladder} onClose={() => setShowJoin(false)} />}
+    </div>
+  );
+});
+
+export default LadderDetailPage;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link, useNavigate } from "react-router-dom";
+import { ListOrdered, Plus, Users } from "lucide-react";
+import { LADDER_FORMAT_LABELS, Ladder, ladderStore } from "../../stores/LadderStore";
+import { authStore } from "../../stores/AuthStore";
+import LadderFormModal from "../../components/LadderFormModal";
+import { getEntryName, getOpenChallenges } from "../../utils/ladderUtils";
+
+const LaddersPage: React.FC = observer(() => {
+  const navigate = useNavigate();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const canCreate = authStore.isAdmin || authStore.user?.role === "coach";
+
+  useEffect(() => {
+    ladderStore.fetchLadders();
+  }, []);
+
+  const handleCreated = (ladder: Ladder | null) => {
+    if (ladder) navigate(`/ladders/${ladder._id}`);
+  };
+
+  const ladders = ladderStore.ladders;
+
+  return (
+    <div className="bg-gray-50 dark:bg-dark-bg min-h-screen py-8 transition-colors duration-300">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Ladders</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Challenge players above you and climb the rankings.
+              </p>
+            </div>
+            {canCreate && (
+              <button
+                onClick={() => setShowCreateForm(true)}
+                className="inline-flex items-center justify-center px-4 py-2 rounded-md bg-brand-600 text-white hover:bg-brand-700 dark:bg-brand-700 dark:hover:bg-brand-600 transition-colors text-sm font-medium"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Ladder
+              </button>
+            )}
+          </div>
+
+          <div className="p-6">
+            {ladderStore.loading && ladders.length === 0 ? (
+              <div className="flex justify-center items-center p-8">
+                <div className="animate-spin h-8 w-8 border-2 border-brand-500 dark:border-brand-400 rounded-full border-t-transparent"></div>
+              </div>
+            ) : ladders.length === 0 ? (
+              <div className="text-center py-12">
+                <ListOrdered className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-200">No ladders yet</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Check back soon.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {ladders.map((ladder) => {
+                  const myEntry = ladderStore.getMyEntry(ladder);
+                  const leader = ladder.entries.find((e) => e.position === 1);
+
+                  return (
+                    <Link
+                      key={ladder._id}
+                      to={`/ladders/${ladder._id}`}
+                      className="bg-white dark:bg-dark-card rounded-lg shadow-md hover:shadow-xl transition-shadow duration-300 p-5 flex flex-col gap-3 border border-gray-200 dark:border-dark-border"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{ladder.name}</h3>
+                        {myEntry && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                            You're #{myEntry.position}
+                          </span>
+                        )}
+                      </div>
+                      <div className="space-y-1.5 text-sm text-gray-600 dark:text-gray-400">
+                        <p className="flex items-center gap-2">
+                          <Users className="h-4 w-4" />
+                          {ladder.entries.length} {ladder.format === "doubles" ? "teams" : "players"} ·{" "}
+                          {LADDER_FORMAT_LABELS[ladder.format]}
+                        </p>
+                        <p>
+                          {leader ? `Top spot: ${getEntryName(leader)}` : "No one on the ladder yet"}
+                        </p>
+                        <p>{getOpenChallenges(ladder).length} open challenges</p>
+                      </div>
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showCreateForm && <LadderFormModal onClose={() => setShowCreateForm(false)} onSaved={handleCreated} />}
+    </div>
+  );
+});
+
+export default LaddersPage;
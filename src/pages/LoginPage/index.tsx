@@ -29,6 +29,11 @@ const LoginPage = observer(({ deletedAccount }: LoginPageProps = {}) => {
   const isLoading = authStore.loading;
   const authError = authStore.error;
 
+  // Send users back to the page that asked them to sign in, e.g. a shared session link
+  const from = (location.state as { from?: string } | null)?.from;
+  const redirectTo =
+    from && from.startsWith("/") && !from.startsWith("//") && from !== "/login" ? from : "/venues";
+
   // Check URL query parameters and sessionStorage for deleted account or idle logout status
   useEffect(() => {
     const params = new URLSearchParams(location.search);
@@ -45,14 +50,16 @@ const LoginPage = observer(({ deletedAccount }: LoginPageProps = {}) => {
   // Redirect authenticated users
   useEffect(() => {
     if (isAuthenticated) {
-      navigate("/venues");
+      navigate(redirectTo);
     }
-  }, [isAuthenticated, navigate]);
+  }, [isAuthenticated, navigate, redirectTo]);
 
   const handleGoogleLogin = async () => {
     try {
       setError(null);
       const authUrl = await authStore.getGoogleAuthUrl();
+      // The Google round trip drops router state, so GoogleCallback picks this up
+      sessionStorage.setItem("loginRedirect", redirectTo);
       window.location.href = authUrl;
     } catch (error) {
       console.error("Failed to initiate Google login:", error);
@@ -65,7 +72,7 @@ const LoginPage = observer(({ deletedAccount }: LoginPageProps = {}) => {
     try {
       setError(null);
       const user = await authStore.loginWithPassword(identifier.trim(), password);
-      if (user) navigate("/venues");
+      if (user) navigate(redirectTo);
     } catch (err: any) {
       console.error(err);
       // Check if error is EMAIL_NOT_VERIFIED
@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Bell, CheckCheck, Trash2 } from "lucide-react";
+import { NOTIFICATION_TYPE_LABELS, NotificationType, notificationStore } from "../../stores/NotificationStore";
+import NotificationItem from "../../components/NotificationItem";
+
+type NotificationFilter = "all" | "unread" | NotificationType;
+
+const NotificationsPage: React.FC = observer(() => {
+  const [filter, setFilter] = useState<NotificationFilter>("all");
+  const { notifications, unreadCount, loading, error } = notificationStore;
+
+  const filtered = notifications.filter((n) =>
+    filter === "all" ? true : filter === "unread" ? !n.read : n.type === filter
+  );
+
+  const filters: { value: NotificationFilter; label: string }[] = [
+    { value: "all", label: "All" },
+    { value: "unread", label: unreadCount > 0 ? `Unread (${unreadCount})` : "Unread" },
+    ...(Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]).map((type) => ({
+      value: type,
+      label: NOTIFICATION_TYPE_LABELS[type],
+    })),
+  ];
+
+  const handleClear = () => {
+    if (!window.confirm("Delete all notifications? This can't be undone.")) return;
+    notificationStore.clearAll();
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-dark-bg min-h-screen py-8 transition-colors duration-300">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Notifications</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Session reminders, waitlist updates, coaching assignments and account messages.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => notificationStore.markAllRead()}
+                disabled={unreadCount === 0}
+                className="inline-flex items-center px-3 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                <CheckCheck className="h-4 w-4 mr-1" />
+                Mark all read
+              </button>
+              <button
+                onClick={handleClear}
+                disabled={notifications.length === 0}
+                className="inline-flex items-center px-3 py-2 rounded-md text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 flex flex-wrap gap-2">
+            {filters.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFilter(value)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  filter === value
+                    ? "bg-brand-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="mx-6 mt-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          {loading && notifications.length === 0 ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand-600"></div>
+            </div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center py-12">
+              <Bell className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-200">
+                {filter === "unread" ? "You're all caught up" : "No notifications"}
+              </h3>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                We'll let you know when something needs your attention.
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {filtered.map((notification) => (
+                <li key={notification.id}>
+                  <NotificationItem notification={notification} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default NotificationsPage;
@@ -4,12 +4,16 @@ import { runInAction } from "mobx";
 import { authStore } from "../../stores/AuthStore";
 import { clubStore } from "../../stores/ClubStore";
 import { userStore } from "../../stores/UserStore";
+import { sessionStore } from "../../stores/SessionStore";
+import { policyStore } from "../../stores/PolicyStore";
+import { formatTime } from "../../utils/sessionUtils";
 import { Link } from "react-router-dom";
 import EditProfile from "../../components/EditProfile";
 import Avatar from "../../components/Avatar";
+import CalendarSync from "../../components/CalendarSync";
 
 const ProfilePage: React.FC = observer(() => {
-  const [activeTab, setActiveTab] = useState<"profile" | "clubs">("profile");
+  const [activeTab, setActiveTab] = useState<"profile" | "clubs" | "attendance">("profile");
   const [isEditProfileOpen, setIsEditProfileOpen] = useState(false);
 
   const loadProfileData = async () => {
@@ -21,7 +25,12 @@ const ProfilePage: React.FC = observer(() => {
       await userStore.loadProfile();
 
       // Then load clubs
-      await Promise.all([clubStore.fetchUserClubs(), clubStore.fetchClubs()]);
+      await Promise.all([
+        clubStore.fetchUserClubs(),
+        clubStore.fetchClubs(),
+        sessionStore.fetchAttendanceHistory(),
+        policyStore.loadForCurrentUser(),
+      ]);
     }
   };
 
@@ -120,6 +129,19 @@ const ProfilePage: React.FC = observer(() => {
                     <span className="absolute bottom-0 left-0 w-full h-1 bg-gray-800 dark:bg-green-600"></span>
                   )}
                 </button>
+                <button
+                  className={`py-4 px-1 font-medium text-sm relative ${
+                    activeTab === "attendance"
+                      ? "text-gray-800 dark:text-gray-100"
+                      : "text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  }`}
+                  onClick={() => setActiveTab("attendance")}
+                >
+                  Attendance
+                  {activeTab === "attendance" && (
+                    <span className="absolute bottom-0 left-0 w-full h-1 bg-gray-800 dark:bg-green-600"></span>
+                  )}
+                </button>
               </div>
 
               {/* Edit Profile Button now in the tabs row */}
@@ -168,6 +190,120 @@ const ProfilePage: React.FC = observer(() => {
               </div>
             </div>
           </div>
+        ) : activeTab === "attendance" ? (
+          <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm dark:shadow-md overflow-hidden transition-colors duration-200">
+            <div className="px-4 py-5 sm:px-6">
+              <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                Attendance History
+              </h2>
+            </div>
+            <div className="border-t border-gray-200 dark:border-gray-800 px-4 py-5 sm:px-6">
+              <div className="mb-6">
+                <CalendarSync />
+              </div>
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-center">
+                  <p className="text-2xl font-bold text-green-700 dark:text-green-400">
+                    {sessionStore.attendanceHistory.filter((r) => r.status === "present").length}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">Attended</p>
+                </div>
+                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-center">
+                  <p className="text-2xl font-bold text-red-700 dark:text-red-400">
+                    {sessionStore.attendanceHistory.filter((r) => r.status === "no_show").length}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">No-shows</p>
+                </div>
+                <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-center">
+                  <p className="text-2xl font-bold text-gray-800 dark:text-gray-200">
+                    {policyStore.activeStrikes.length}/{policyStore.policy.strikeLimit}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    Strikes (last {policyStore.policy.strikeWindowDays} days)
+                  </p>
+                </div>
+              </div>
+
+              {/* Strike status */}
+              {policyStore.cooldownUntil && (
+                <div className="mb-4 p-3 rounded-lg bg-red-100 dark:bg-red-900/30 text-sm text-red-700 dark:text-red-400">
+                  {policyStore.evaluateSignUp().reason}
+                </div>
+              )}
+              {policyStore.activeStrikes.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Active strikes
+                  </h3>
+                  <ul className="space-y-2">
+                    {policyStore.activeStrikes.map((strike) => (
+                      <li
+                        key={strike._id}
+                        className="flex items-center justify-between gap-3 p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-sm"
+                      >
+                        <span className="text-amber-800 dark:text-amber-300">
+                          {strike.reason === "no_show" ? "No-show" : "Late cancellation"}
+                          {strike.sessionTitle && ` · ${strike.sessionTitle}`}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                          Expires{" "}
+                          {policyStore.getStrikeExpiry(strike).toLocaleDateString("en-US", {
+                            month: "short",
+                            day: "numeric",
+                          })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <p className="mb-6 text-xs text-gray-500 dark:text-gray-400">
+                No-shows and leaving within {policyStore.policy.lateCancelWindowHours} hours of the start time count as strikes.
+                Reaching {policyStore.policy.strikeLimit} strikes blocks sign-ups for {policyStore.policy.cooldownDays} days.
+              </p>
+
+              {sessionStore.attendanceLoading ? (
+                <div className="flex justify-center items-center p-8">
+                  <div className="animate-spin h-8 w-8 border-2 border-green-500 rounded-full border-t-transparent"></div>
+                </div>
+              ) : sessionStore.attendanceHistory.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 italic">
+                  No sessions attended yet
+                </p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {sessionStore.attendanceHistory.map((record) => (
+                    <li key={record.sessionId} className="py-3 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                          {record.title || "Session"} · {record.venueName}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(record.date).toLocaleDateString("en-US", {
+                            weekday: "short",
+                            month: "short",
+                            day: "numeric",
+                          })}{" "}
+                          · {formatTime(record.startTime)} - {formatTime(record.endTime)}
+                        </p>
+                      </div>
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${
+                          record.status === "present"
+                            ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                            : record.status === "no_show"
+                              ? "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+                              : "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400"
+                        }`}
+                      >
+                        {record.status === "present" ? "Attended" : record.status === "no_show" ? "No-show" : "Not marked"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
         ) : (
           <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-sm dark:shadow-md overflow-hidden transition-colors duration-200">
             <div className="px-4 py-5 sm:px-6 flex justify-between items-center">
@@ -0,0 +1,162 @@
+import React, { useEffect } from "react";
+import { observer } from "mobx-react-lite";
+import { Link, useLocation } from "react-router-dom";
+import { Session, sessionStore } from "../../../stores/SessionStore";
+import { authStore } from "../../../stores/AuthStore";
+import { clubStore } from "../../../stores/ClubStore";
+import { policyStore } from "../../../stores/PolicyStore";
+import { canJoinClubSession, getSessionDateTime, isWithinCheckInWindow } from "../../../utils/sessionUtils";
+
+interface SessionActionsProps {
+  session: Session;
+}
+
+/**
+ * SessionActions - Join / leave / waitlist and check-in for the detail page
+ */
+const SessionActions: React.FC<SessionActionsProps> = observer(({ session }) => {
+  const location = useLocation();
+  const isAttending = sessionStore.isUserAttending(session._id);
+  const waitlistPosition = sessionStore.getWaitlistPosition(session._id);
+  const checkIn = isAttending ? sessionStore.getCheckIn(session._id) : undefined;
+  const isCancelled = session.status === "cancelled";
+  const isFull = session.status === "full";
+  const hasEnded = new Date() > getSessionDateTime(session, session.endTime);
+  const canSelfCheckIn = isAttending && !checkIn && !isCancelled && isWithinCheckInWindow(session);
+  const signUpCheck = policyStore.evaluateSignUp();
+  const isMembersOnlyLocked =
+    !isAttending && !waitlistPosition && !canJoinClubSession(session, clubStore.userClubs);
+
+  // Membership decides whether a members-only session can be joined
+  useEffect(() => {
+    if (session.membersOnly && authStore.isAuthenticated) {
+      clubStore.fetchUserClubs();
+    }
+  }, [session.membersOnly]);
+
+  const handleJoin = async () => {
+    await sessionStore.attendSession(session._id);
+  };
+
+  const handleLeave = async () => {
+    const lateWarning = policyStore.getLateCancellationWarning(session);
+    if (lateWarning && !window.confirm(lateWarning)) return;
+    await sessionStore.leaveSession(session._id);
+  };
+
+  if (isCancelled) {
+    return (
+      <p className="text-center text-sm font-medium text-red-600 dark:text-red-400">
+        This session has been cancelled.
+      </p>
+    );
+  }
+
+  if (hasEnded) {
+    return (
+      <button
+        disabled
+        className="w-full py-2.5 px-4 rounded-lg bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400 font-medium cursor-not-allowed"
+      >
+        Session Ended
+      </button>
+    );
+  }
+
+  // Shared links open read-only; joining needs an account
+  if (!authStore.isAuthenticated) {
+    return (
+      <Link
+        to="/login"
+        state={{ from: location.pathname }}
+        className="block w-full py-2.5 px-4 rounded-lg bg-green-600 text-white hover:bg-green-700 font-medium text-center transition-colors"
+      >
+        Sign in to join
+      </Link>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessionStore.error && (
+        <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+          {sessionStore.error}
+        </div>
+      )}
+
+      {canSelfCheckIn && (
+        <button
+          onClick={() => sessionStore.checkIn(session._id)}
+          disabled={sessionStore.loading}
+          className="w-full py-2.5 px-4 rounded-lg bg-green-600 text-white hover:bg-green-700 font-medium transition-colors disabled:opacity-50"
+        >
+          I'm here · Check In
+        </button>
+      )}
+      {checkIn && (
+        <p
+          className={`text-center text-sm font-medium ${
+            checkIn.status === "present"
+              ? "text-green-600 dark:text-green-400"
+              : "text-red-600 dark:text-red-400"
+          }`}
+        >
+          {checkIn.status === "present" ? "✓ Checked in" : "Marked as no-show"}
+        </p>
+      )}
+
+      {isAttending ? (
+        <button
+          onClick={handleLeave}
+          disabled={sessionStore.loading}
+          className="w-full py-2.5 px-4 rounded-lg bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 hover:bg-red-200 dark:hover:bg-red-900/50 font-medium transition-colors disabled:opacity-50"
+        >
+          {sessionStore.loading ? "Leaving..." : "Leave Session"}
+        </button>
+      ) : waitlistPosition ? (
+        <div className="space-y-2">
+          <p className="text-center text-sm text-amber-700 dark:text-amber-400">
+            You're #{waitlistPosition} on the waitlist. We'll move you in if a spot opens.
+          </p>
+          <button
+            onClick={() => sessionStore.leaveWaitlist(session._id)}
+            disabled={sessionStore.loading}
+            className="w-full py-2.5 px-4 rounded-lg border border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20 font-medium transition-colors disabled:opacity-50"
+          >
+            {sessionStore.loading ? "Leaving..." : "Leave Waitlist"}
+          </button>
+        </div>
+      ) : isMembersOnlyLocked ? (
+        <p className="text-center text-sm text-gray-600 dark:text-gray-400">
+          This session is for members of{" "}
+          <Link to={`/clubs/${session.clubId?._id}`} className="font-medium text-brand-600 dark:text-brand-400 hover:underline">
+            {session.clubId?.name}
+          </Link>
+          . Join the club to sign up.
+        </p>
+      ) : !signUpCheck.allowed ? (
+        <p className="text-center text-sm text-amber-700 dark:text-amber-400">
+          {signUpCheck.reason}
+        </p>
+      ) : !isFull ? (
+        <button
+          onClick={handleJoin}
+          disabled={sessionStore.loading}
+          className="w-full py-2.5 px-4 rounded-lg bg-green-600 text-white hover:bg-green-700 font-medium transition-colors disabled:opacity-50"
+        >
+          {sessionStore.loading ? "Joining..." : "Join Session"}
+        </button>
+      ) : (
+        <button
+          onClick={() => sessionStore.joinWaitlist(session._id)}
+          disabled={sessionStore.loading}
+          className="w-full py-2.5 px-4 rounded-lg bg-amber-500 text-white hover:bg-amber-600 font-medium transition-colors disabled:opacity-50"
+        >
+          {sessionStore.loading ? "Joining..." : "Session Full · Join Waitlist"}
+        </button>
+      )}
+    </div>
+  );
+});
+
+export default SessionActions;
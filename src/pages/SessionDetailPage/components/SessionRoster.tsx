@@ -0,0 +1,89 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { Session, SessionAttendee, sessionStore } from "../../../stores/SessionStore";
+import { matchStore } from "../../../stores/MatchStore";
+import Avatar from "../../../components/Avatar";
+import CoachBadge from "../../../components/CoachBadge";
+
+interface SessionRosterProps {
+  session: Session;
+}
+
+const RosterRow: React.FC<{ player: SessionAttendee; note?: string }> = observer(({ player, note }) => {
+  const rating = matchStore.getRating(player._id);
+
+  return (
+    <li>
+      <Link
+        to={`/profile/${player._id}`}
+        className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50"
+      >
+        <Avatar src={player.photoURL} name={player.displayName} size="sm" />
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+              {player.displayName || "Anonymous"}
+            </span>
+            <CoachBadge role={player.role} size="xs" />
+          </div>
+          {note && <p className="text-xs text-gray-500 dark:text-gray-400">{note}</p>}
+        </div>
+        {rating !== undefined && (
+          <span className="text-xs font-semibold text-indigo-700 dark:text-indigo-300">
+            {Math.round(rating)}
+          </span>
+        )}
+      </Link>
+    </li>
+  );
+});
+
+/**
+ * SessionRoster - Full attendee list plus the waitlist in order
+ */
+const SessionRoster: React.FC<SessionRosterProps> = observer(({ session }) => {
+  const waitlist = session.waitlist || [];
+
+  const getNote = (playerId: string) => {
+    const checkIn = sessionStore.getCheckIn(session._id, playerId);
+    if (!checkIn) return undefined;
+    return checkIn.status === "present" ? "Checked in" : "No-show";
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          Players ({session.attendees.length}/{session.maxPlayers})
+        </h3>
+        {session.attendees.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No one has joined yet. Be the first!
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+            {session.attendees.map((player) => (
+              <RosterRow key={player._id} player={player} note={getNote(player._id)} />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {waitlist.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Waitlist ({waitlist.length})
+          </h3>
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+            {waitlist.map((player, index) => (
+              <RosterRow key={player._id} player={player} note={`#${index + 1} in line`} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default SessionRoster;
@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { useParams, Link } from "react-router-dom";
+import { ArrowLeft, Calendar, CalendarPlus, Clock, MapPin, Link2, Users } from "lucide-react";
+import { sessionStore } from "../../stores/SessionStore";
+import { rotationStore } from "../../stores/RotationStore";
+import { socketStore } from "../../stores/SocketStore";
+import { authStore } from "../../stores/AuthStore";
+import { matchStore } from "../../stores/MatchStore";
+import { venueStore } from "../../stores/VenueStore";
+import CourtRotationBoard from "../../components/CourtRotationBoard";
+import VenueMap from "../../components/VenueMap";
+import DirectionsPanel from "../../components/DirectionsPanel";
+import Avatar from "../../components/Avatar";
+import CoachBadge from "../../components/CoachBadge";
+import { CourtMatch } from "../../utils/courtRotation";
+import { formatTime, getSessionDateTime } from "../../utils/sessionUtils";
+import { downloadSessionIcs } from "../../utils/icsUtils";
+import { describeCourts } from "../../utils/courtUtils";
+import MatchList from "../../components/MatchList";
+import RecordMatchModal from "../../components/RecordMatchModal";
+import SessionActions from "./components/SessionActions";
+import SessionRoster from "./components/SessionRoster";
+
+interface MatchDraft {
+  teamA?: string[];
+  teamB?: string[];
+}
+
+const SessionDetailPage: React.FC = observer(() => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [loading, setLoading] = useState(true);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [matchDraft, setMatchDraft] = useState<MatchDraft | null>(null);
+  const [showMap, setShowMap] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const socketConnected = socketStore.connected;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    // Ignore a slow load for a session the user has already navigated away from
+    let cancelled = false;
+    setLoading(true);
+
+    const loadData = async () => {
+      const [session] = await Promise.all([
+        sessionStore.fetchSessionById(sessionId),
+        rotationStore.fetchRotation(sessionId),
+        matchStore.fetchSessionMatches(sessionId),
+      ]);
+      // Ratings feed the badges and the skill balancing in the rotation
+      if (session) {
+        await matchStore.fetchRatings(session.attendees.map((a) => a._id));
+      }
+      if (!cancelled) setLoading(false);
+    };
+
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, loadAttempt]);
+
+  // Live attendee and rotation updates while the page is open
+  useEffect(() => {
+    if (!socketConnected || !sessionId) return;
+
+    socketStore.joinSession(sessionId);
+    return () => socketStore.leaveSession(sessionId);
+  }, [socketConnected, sessionId]);
+
+  const session = sessionId ? sessionStore.getSessionById(sessionId) : undefined;
+  const loadError = sessionId ? sessionStore.sessionDetailErrors[sessionId] : undefined;
+  const user = authStore.user;
+  const canManage = Boolean(user && session && (user.isAdmin || session.coachId?._id === user.id));
+  const canRecordScores = Boolean(
+    user && session && (canManage || session.attendees.some((a) => a._id === user.id))
+  );
+  const matches = sessionId ? matchStore.matchesBySession[sessionId] || [] : [];
+
+  // Older sessions may not carry coordinates on the populated venue
+  const listedVenue = session
+    ? venueStore.venues.find((v) => v.id === session.venueId?._id)
+    : undefined;
+  const latitude = session?.venueId?.latitude ?? listedVenue?.latitude;
+  const longitude = session?.venueId?.longitude ?? listedVenue?.longitude;
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
+  };
+
+  const handleRecordCourt = (match: CourtMatch) => {
+    setMatchDraft({ teamA: [...match.teamA], teamB: [...match.teamB] });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-gray-50 dark:bg-dark-bg">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-green-500"></div>
+      </div>
+    );
+  }
+
+  if (!session && loadError && !loadError.notFound) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white dark:bg-dark-card shadow rounded-lg p-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">
+              Couldn't Load Session
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">{loadError.message}</p>
+            <button
+              onClick={() => setLoadAttempt((attempt) => attempt + 1)}
+              className="px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700"
+            >
+              Try again
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white dark:bg-dark-card shadow rounded-lg p-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">
+              Session Not Found
+            </h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              The session you're looking for doesn't exist or has been removed.
+            </p>
+            <Link
+              to="/venues"
+              className="inline-flex items-center text-green-600 hover:text-green-700 dark:text-green-400"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Sessions
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4 transition-colors duration-300">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Back Button */}
+        <Link
+          to="/venues"
+          className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Sessions
+        </Link>
+
+        {/* Header */}
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-md overflow-hidden">
+          {session.venueId?.photoURL && (
+            <img
+              src={session.venueId.photoURL}
+              alt={session.venueId.name}
+              className="w-full h-40 object-cover"
+            />
+          )}
+          <div className="p-6">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                  {session.title || "Open Play"}
+                </h1>
+                {session.status === "cancelled" && (
+                  <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                    Cancelled
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => downloadSessionIcs(session)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <CalendarPlus className="h-4 w-4" />
+                  Add to calendar
+                </button>
+                <button
+                  onClick={handleCopyLink}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <Link2 className="h-4 w-4" />
+                  {linkCopied ? "Copied!" : "Copy link"}
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-4 space-y-2 text-sm text-gray-600 dark:text-gray-400">
+              <p className="flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                {new Date(session.date).toLocaleDateString("en-US", {
+                  weekday: "long",
+                  month: "long",
+                  day: "numeric",
+                  year: "numeric",
+                })}
+              </p>
+              <p className="flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                {formatTime(session.startTime)} - {formatTime(session.endTime)}
+              </p>
+              {session.venueId && (
+                <p className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4" />
+                  {session.venueId.name}
+                  {listedVenue && listedVenue.courts.length > 0 && (
+                    <span>· {describeCourts(session.courtIds, listedVenue.courts)}</span>
+                  )}
+                  {latitude !== undefined && longitude !== undefined && (
+                    <button
+                      onClick={() => setShowMap(true)}
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      View map
+                    </button>
+                  )}
+                </p>
+              )}
+              {session.clubId && (
+                <p className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  <Link to={`/clubs/${session.clubId._id}`} className="hover:underline">
+                    Hosted by {session.clubId.name}
+                  </Link>
+                  {session.membersOnly && (
+                    <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400">
+                      Members only
+                    </span>
+                  )}
+                </p>
+              )}
+            </div>
+
+            {session.coachId && (
+              <Link
+                to={`/profile/${session.coachId._id}`}
+                className="mt-4 inline-flex items-center gap-3 p-2 pr-4 rounded-lg bg-amber-50 dark:bg-amber-900/10"
+              >
+                <Avatar src={session.coachId.photoURL} name={session.coachId.displayName} size="sm" />
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                  {session.coachId.displayName || "Coach"}
+                </span>
+                <CoachBadge role={session.coachId.role} size="xs" />
+              </Link>
+            )}
+
+            {session.description && (
+              <p className="mt-4 text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                {session.description}
+              </p>
+            )}
+
+            <div className="mt-6">
+              <SessionActions session={session} />
+            </div>
+          </div>
+        </div>
+
+        {/* Getting there */}
+        {latitude !== undefined && longitude !== undefined && session.status !== "cancelled" && (
+          <div className="bg-white dark:bg-dark-card rounded-xl shadow-md p-4">
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100 mb-3">Getting there</h3>
+            <DirectionsPanel
+              latitude={latitude}
+              longitude={longitude}
+              startsAt={getSessionDateTime(session, session.startTime)}
+            />
+          </div>
+        )}
+
+        {/* Roster */}
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-md p-4">
+          <SessionRoster session={session} />
+        </div>
+
+        {/* Court rotation */}
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-md p-4">
+          <CourtRotationBoard
+            session={session}
+            canManage={canManage}
+            onRecordMatch={canRecordScores ? handleRecordCourt : undefined}
+          />
+        </div>
+
+        {/* Scores */}
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-md p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">Scores</h3>
+            {canRecordScores && (
+              <button
+                onClick={() => setMatchDraft({})}
+                className="px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700"
+              >
+                Record Match
+              </button>
+            )}
+          </div>
+          <MatchList matches={matches} />
+        </div>
+
+        {latitude !== undefined && longitude !== undefined && session.venueId && (
+          <VenueMap
+            latitude={latitude}
+            longitude={longitude}
+            venueName={session.venueId.name}
+            isOpen={showMap}
+            onClose={() => setShowMap(false)}
+            startsAt={getSessionDateTime(session, session.startTime)}
+          />
+        )}
+
+        {matchDraft && (
+          <RecordMatchModal
+            session={session}
+            initialTeamA={matchDraft.teamA}
+            initialTeamB={matchDraft.teamB}
+            onClose={() => setMatchDraft(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+
+export default SessionDetailPage;
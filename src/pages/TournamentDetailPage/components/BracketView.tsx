@@ -0,0 +1,74 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { BracketMatch, BracketSide, Tournament } from "../../../stores/TournamentStore";
+import { describeRound } from "../../../utils/bracketUtils";
+import MatchCard from "./MatchCard";
+
+interface BracketViewProps {
+  tournament: Tournament;
+  getCourtName: (courtId: string | null) => string | undefined;
+  onSelectMatch?: (match: BracketMatch) => void;
+}
+
+const SIDE_TITLES: Partial<Record<BracketSide, string>> = {
+  winners: "Winners Bracket",
+  losers: "Losers Bracket",
+};
+
+/**
+ * Elimination bracket laid out as one column per round
+ */
+const BracketView: React.FC<BracketViewProps> = observer(({ tournament, getCourtName, onSelectMatch }) => {
+  const isDouble = tournament.format === "double_elimination";
+
+  const renderSide = (side: BracketSide) => {
+    const matches = tournament.matches.filter((m) => m.bracket === side);
+    if (matches.length === 0) return null;
+
+    const totalRounds = Math.max(...matches.map((m) => m.round));
+    const rounds = Array.from({ length: totalRounds }, (_, i) =>
+      matches.filter((m) => m.round === i + 1).sort((a, b) => a.position - b.position)
+    );
+
+    return (
+      <div key={side}>
+        {isDouble && SIDE_TITLES[side] && (
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">{SIDE_TITLES[side]}</h3>
+        )}
+        <div className="flex gap-6 overflow-x-auto pb-2">
+          {rounds.map((roundMatches, index) => (
+            <div key={index} className="flex-shrink-0 w-56 flex flex-col">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                {/* Double-elim winners final still feeds the grand final */}
+                {isDouble && side === "winners" && index + 1 === totalRounds
+                  ? "Winners Final"
+                  : describeRound(side, index + 1, totalRounds)}
+              </p>
+              <div className="flex-1 flex flex-col justify-around gap-4">
+                {roundMatches.map((match) => (
+                  <MatchCard
+                    key={match.id}
+                    tournament={tournament}
+                    match={match}
+                    courtName={getCourtName(match.courtId)}
+                    onSelect={onSelectMatch}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      {renderSide("winners")}
+      {renderSide("losers")}
+      {renderSide("final")}
+    </div>
+  );
+});
+
+export default BracketView;
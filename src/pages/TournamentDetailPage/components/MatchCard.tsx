@@ -0,0 +1,77 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { BracketMatch, Tournament, tournamentStore } from "../../../stores/TournamentStore";
+import { authStore } from "../../../stores/AuthStore";
+
+interface MatchCardProps {
+  tournament: Tournament;
+  match: BracketMatch;
+  courtName?: string;
+  // Organizers open the score/schedule editor
+  onSelect?: (match: BracketMatch) => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+const MatchCard: React.FC<MatchCardProps> = observer(({ tournament, match, courtName, onSelect }) => {
+  const userId = authStore.user?.id;
+  const played = match.scoreA !== null && match.scoreB !== null;
+
+  const renderSide = (teamId: string | null, score: number | null) => {
+    const team = tournamentStore.getTeam(tournament, teamId);
+    const isWinner = !!teamId && match.winner === teamId;
+    const isMine = !!team?.players.some((p) => p._id === userId);
+
+    return (
+      <div
+        className={`flex items-center justify-between gap-2 px-3 py-1.5 text-sm ${
+          isWinner ? "font-semibold text-gray-900 dark:text-gray-100" : "text-gray-600 dark:text-gray-400"
+        } ${isMine ? "bg-brand-50 dark:bg-brand-900/20" : ""}`}
+      >
+        <span className="truncate">
+          {team ? (
+            <>
+              {team.seed && <span className="mr-1 text-xs text-gray-400">{team.seed}</span>}
+              {team.name}
+            </>
+          ) : match.bye ? (
+            <span className="italic text-gray-400">Bye</span>
+          ) : (
+            <span className="italic text-gray-400">TBD</span>
+          )}
+        </span>
+        {played && <span className="tabular-nums">{score}</span>}
+      </div>
+    );
+  };
+
+  const clickable = !!onSelect && !match.bye && !!match.teamA && !!match.teamB;
+
+  return (
+    <button
+      type="button"
+      onClick={() => clickable && onSelect?.(match)}
+      disabled={!clickable}
+      className={`w-full text-left rounded-lg border bg-white dark:bg-gray-800 overflow-hidden ${
+        match.bye ? "opacity-50 border-dashed" : ""
+      } ${
+        clickable
+          ? "border-gray-200 dark:border-gray-700 hover:border-brand-500 dark:hover:border-brand-500 cursor-pointer"
+          : "border-gray-200 dark:border-gray-700 cursor-default"
+      }`}
+    >
+      <div className="divide-y divide-gray-100 dark:divide-gray-700">
+        {renderSide(match.teamA, match.scoreA)}
+        {renderSide(match.teamB, match.scoreB)}
+      </div>
+      {!match.bye && (match.scheduledAt || courtName) && !played && (
+        <div className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900/40">
+          {[match.scheduledAt && formatTime(match.scheduledAt), courtName].filter(Boolean).join(" · ")}
+        </div>
+      )}
+    </button>
+  );
+});
+
+export default MatchCard;
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { BracketMatch, Tournament, tournamentStore } from "../../../stores/TournamentStore";
+import { Court } from "../../../stores/VenueStore";
+import { canEditResult, toDateTimeInput } from "../../../utils/bracketUtils";
+import { validateGameScore } from "../../../utils/matchUtils";
+
+interface MatchModalProps {
+  tournament: Tournament;
+  match: BracketMatch;
+  courts: Court[];
+  onClose: () => void;
+}
+
+/**
+ * MatchModal - Organizer score entry and court/time assignment for one match
+ */
+const MatchModal: React.FC<MatchModalProps> = observer(({ tournament, match, courts, onClose }) => {
+  const [scoreA, setScoreA] = useState(match.scoreA?.toString() ?? "");
+  const [scoreB, setScoreB] = useState(match.scoreB?.toString() ?? "");
+  const [courtId, setCourtId] = useState(match.courtId || "");
+  const [scheduledAt, setScheduledAt] = useState(
+    match.scheduledAt ? toDateTimeInput(new Date(match.scheduledAt)) : ""
+  );
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const teamA = tournamentStore.getTeam(tournament, match.teamA);
+  const teamB = tournamentStore.getTeam(tournament, match.teamB);
+  const played = match.scoreA !== null;
+  // Once the winner has played their next match the result is locked
+  const scoreEditable = !played || canEditResult(tournament.matches, match);
+
+  const handleSaveScore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const a = Number(scoreA);
+    const b = Number(scoreB);
+    const scoreError = scoreA === "" || scoreB === "" ? "Enter both scores" : validateGameScore(a, b);
+    if (scoreError) {
+      setError(scoreError);
+      return;
+    }
+
+    setSaving(true);
+    const success = await tournamentStore.recordScore(tournament, match.id, a, b);
+    setSaving(false);
+
+    if (success) {
+      onClose();
+    } else {
+      setError(tournamentStore.error || "Failed to save score");
+    }
+  };
+
+  const handleSaveSchedule = async () => {
+    setError("");
+    setSaving(true);
+    const success = await tournamentStore.updateMatchSchedule(
+      tournament,
+      match.id,
+      courtId || null,
+      scheduledAt ? new Date(scheduledAt).toISOString() : null
+    );
+    setSaving(false);
+
+    if (success) {
+      onClose();
+    } else {
+      setError(tournamentStore.error || "Failed to save schedule");
+    }
+  };
+
+  const inputClass =
+    "p-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {teamA?.name} vs {teamB?.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSaveScore} className="space-y-3">
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Final score</h3>
+            {[
+              { team: teamA, value: scoreA, onChange: setScoreA },
+              { team: teamB, value: scoreB, onChange: setScoreB },
+            ].map(({ team, value, onChange }) => (
+              <div key={team?._id} className="flex items-center gap-3">
+                <span className="flex-1 text-sm text-gray-900 dark:text-gray-100">{team?.name}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={value}
+                  onChange={(e) => onChange(e.target.value)}
+                  disabled={!scoreEditable}
+                  className={`w-20 text-center ${inputClass} disabled:opacity-60`}
+                />
+              </div>
+            ))}
+            {scoreEditable ? (
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg font-medium text-white bg-brand-600 hover:bg-brand-700 disabled:opacity-50"
+                >
+                  {played ? "Correct Score" : "Save Score"}
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                This result is locked because the next match has already been played.
+              </p>
+            )}
+          </form>
+
+          {!played && (
+            <div className="space-y-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Court & time</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <select value={courtId} onChange={(e) => setCourtId(e.target.value)} className={inputClass}>
+                  <option value="">No court</option>
+                  {courts.map((court) => (
+                    <option key={court.id} value={court.id}>
+                      {court.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={handleSaveSchedule}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Save Court & Time
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default MatchModal;
@@ -0,0 +1,98 @@
+import React from "react";
+import { observer } from "mobx-react-lite";
+import { BracketMatch, Tournament, tournamentStore } from "../../../stores/TournamentStore";
+import { getPoolStandings } from "../../../utils/bracketUtils";
+import MatchCard from "./MatchCard";
+
+interface PoolStandingsProps {
+  tournament: Tournament;
+  getCourtName: (courtId: string | null) => string | undefined;
+  onSelectMatch?: (match: BracketMatch) => void;
+}
+
+/**
+ * Round-robin pools: a standings table and the pool's matches by round
+ */
+const PoolStandings: React.FC<PoolStandingsProps> = observer(({ tournament, getCourtName, onSelectMatch }) => {
+  const pools = [...new Set(tournament.matches.map((m) => m.pool ?? 1))].sort((a, b) => a - b);
+  const teamIds = tournament.teams.map((t) => t._id);
+
+  return (
+    <div className="space-y-10">
+      {pools.map((pool) => {
+        const standings = getPoolStandings(tournament.matches, pool, teamIds);
+        const poolMatches = tournament.matches.filter((m) => m.pool === pool);
+        const rounds = [...new Set(poolMatches.map((m) => m.round))].sort((a, b) => a - b);
+
+        return (
+          <div key={pool}>
+            {pools.length > 1 && (
+              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200 mb-3">
+                Pool {String.fromCharCode(64 + pool)}
+              </h3>
+            )}
+
+            <div className="overflow-x-auto mb-6">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-3 w-8">#</th>
+                    <th className="py-2 pr-3">Team</th>
+                    <th className="py-2 px-2 text-right">P</th>
+                    <th className="py-2 px-2 text-right">W</th>
+                    <th className="py-2 px-2 text-right">L</th>
+                    <th className="py-2 pl-2 text-right">+/-</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {standings.map((row, index) => {
+                    const diff = row.pointsFor - row.pointsAgainst;
+                    return (
+                      <tr key={row.teamId} className="text-gray-800 dark:text-gray-200">
+                        <td className="py-2 pr-3 text-gray-400">{index + 1}</td>
+                        <td className="py-2 pr-3 font-medium">
+                          {tournamentStore.getTeam(tournament, row.teamId)?.name}
+                        </td>
+                        <td className="py-2 px-2 text-right tabular-nums">{row.played}</td>
+                        <td className="py-2 px-2 text-right tabular-nums">{row.wins}</td>
+                        <td className="py-2 px-2 text-right tabular-nums">{row.losses}</td>
+                        <td className="py-2 pl-2 text-right tabular-nums">
+                          {diff > 0 ? `+${diff}` : diff}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {rounds.map((round) => (
+                <div key={round}>
+                  <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+                    Round {round}
+                  </p>
+                  <div className="space-y-3">
+                    {poolMatches
+                      .filter((m) => m.round === round)
+                      .map((match) => (
+                        <MatchCard
+                          key={match.id}
+                          tournament={tournament}
+                          match={match}
+                          courtName={getCourtName(match.courtId)}
+                          onSelect={onSelectMatch}
+                        />
+                      ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+export default PoolStandings;
@@ -0,0 +1,185 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { UserPlus, X } from "lucide-react";
+import { Tournament, TournamentPlayer, tournamentStore } from "../../../stores/TournamentStore";
+import { authStore } from "../../../stores/AuthStore";
+import Avatar from "../../../components/Avatar";
+import UserSearchModal from "../../../components/UserSearchModal";
+import { containsProfanity, getProfanityErrorMessage } from "../../../utils/profanityFilter";
+import { containsDangerousPatterns, sanitizeFormInput } from "../../../utils/securityUtils";
+
+const TEAM_SIZE = 2;
+const NAME_MAX = 40;
+
+interface RegisterTeamModalProps {
+  tournament: Tournament;
+  onClose: () => void;
+}
+
+const RegisterTeamModal: React.FC<RegisterTeamModalProps> = observer(({ tournament, onClose }) => {
+  const user = authStore.user;
+  const isOrganizer = tournamentStore.isOrganizer(tournament);
+  // Players sign themselves up; organizers can enter any pair
+  const [players, setPlayers] = useState<TournamentPlayer[]>(
+    user && !isOrganizer ? [{ _id: user.id, displayName: user.displayName, photoURL: user.photoURL }] : []
+  );
+  const [name, setName] = useState("");
+  const [showSearch, setShowSearch] = useState(false);
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Nobody can be on two teams in the same tournament
+  const takenIds = [
+    ...tournament.teams.flatMap((t) => t.players.map((p) => p._id)),
+    ...players.map((p) => p._id),
+  ];
+
+  const removePlayer = (playerId: string) => {
+    setPlayers(players.filter((p) => p._id !== playerId));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (players.length !== TEAM_SIZE) {
+      setError("Pick both players for the team");
+      return;
+    }
+    if (!isOrganizer && !players.some((p) => p._id === user?.id)) {
+      setError("You can only register a team you're playing on");
+      return;
+    }
+
+    const teamName =
+      name.trim() || players.map((p) => (p.displayName || "Player").split(" ")[0]).join(" & ");
+    if (containsProfanity(teamName)) {
+      setError(getProfanityErrorMessage());
+      return;
+    }
+    if (containsDangerousPatterns(teamName)) {
+      setError("Team name contains invalid characters");
+      return;
+    }
+
+    setSaving(true);
+    const success = await tournamentStore.registerTeam(
+      tournament._id,
+      sanitizeFormInput(teamName, NAME_MAX),
+      players.map((p) => p._id)
+    );
+    setSaving(false);
+
+    if (success) {
+      onClose();
+    } else {
+      setError(tournamentStore.error || "Failed to register team");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Register a Team</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Players</label>
+            <div className="space-y-2">
+              {players.map((player) => (
+                <div
+                  key={player._id}
+                  className="flex items-center gap-3 p-2 rounded-lg bg-gray-50 dark:bg-gray-700/50"
+                >
+                  <Avatar src={player.photoURL} name={player.displayName} size="sm" />
+                  <span className="flex-1 text-sm text-gray-900 dark:text-gray-100">
+                    {player.displayName || "Anonymous"}
+                    {player._id === user?.id && <span className="text-gray-500 dark:text-gray-400"> (you)</span>}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removePlayer(player._id)}
+                    className="p-1 text-gray-400 hover:text-red-500"
+                    aria-label="Remove player"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              {players.length < TEAM_SIZE && (
+                <button
+                  type="button"
+                  onClick={() => setShowSearch(true)}
+                  className="w-full flex items-center justify-center gap-2 p-2 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-400 hover:border-brand-500 hover:text-brand-600"
+                >
+                  <UserPlus className="h-4 w-4" />
+                  {players.length === 0 ? "Add a player" : "Add a partner"}
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Team name <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={NAME_MAX}
+              placeholder="Defaults to the players' first names"
+              className="w-full p-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500"
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-lg font-medium text-white bg-brand-600 hover:bg-brand-700 disabled:opacity-50"
+            >
+              {saving ? "Registering..." : "Register Team"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <UserSearchModal
+        isOpen={showSearch}
+        onClose={() => setShowSearch(false)}
+        onSelect={(picked) =>
+          setPlayers([...players, { _id: picked._id, displayName: picked.displayName, photoURL: picked.photoURL }])
+        }
+        excludeIds={takenIds}
+        placeholder="Search for a player..."
+      />
+    </div>
+  );
+});
+
+export default RegisterTeamModal;
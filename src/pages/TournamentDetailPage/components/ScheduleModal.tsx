@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Tournament, tournamentStore } from "../../../stores/TournamentStore";
+import { Court } from "../../../stores/VenueStore";
+import { MAX_SCHEDULE_DAYS, toDateTimeInput } from "../../../utils/bracketUtils";
+
+interface ScheduleModalProps {
+  tournament: Tournament;
+  courts: Court[];
+  onClose: () => void;
+}
+
+/**
+ * ScheduleModal - Spread unscheduled matches across the venue's courts
+ */
+const ScheduleModal: React.FC<ScheduleModalProps> = observer(({ tournament, courts, onClose }) => {
+  const [courtIds, setCourtIds] = useState<string[]>(courts.map((c) => c.id));
+  const [startAt, setStartAt] = useState(toDateTimeInput(new Date(tournament.date)));
+  const [matchMinutes, setMatchMinutes] = useState(tournament.matchMinutes);
+  const [error, setError] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const toggleCourt = (courtId: string) => {
+    setCourtIds(courtIds.includes(courtId) ? courtIds.filter((id) => id !== courtId) : [...courtIds, courtId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (courtIds.length === 0) {
+      setError("Pick at least one court");
+      return;
+    }
+    if (!startAt) {
+      setError("Pick a start time");
+      return;
+    }
+
+    setSaving(true);
+    // Keep the venue's court order rather than the order they were ticked
+    const ordered = courts.map((c) => c.id).filter((id) => courtIds.includes(id));
+    const unscheduled = await tournamentStore.autoSchedule(tournament, {
+      courtIds: ordered,
+      startAt: new Date(startAt),
+      matchMinutes,
+    });
+    setSaving(false);
+
+    if (unscheduled === null) {
+      setError(tournamentStore.error || "Failed to schedule matches");
+    } else if (unscheduled > 0) {
+      setError(
+        `${unscheduled} match${unscheduled > 1 ? "es" : ""} didn't fit into open court time within ${MAX_SCHEDULE_DAYS} days. Try more courts, shorter matches or an earlier start.`
+      );
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-lg w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Assign Courts & Times</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Matches that already have a court and time keep them. Later rounds are slotted after the
+            matches that feed them, within the venue's opening hours and around courts booked for
+            sessions.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Courts</label>
+            <div className="grid grid-cols-2 gap-2">
+              {courts.map((court) => (
+                <label
+                  key={court.id}
+                  className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={courtIds.includes(court.id)}
+                    onChange={() => toggleCourt(court.id)}
+                    className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                  />
+                  {court.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">First match</label>
+              <input
+                type="datetime-local"
+                value={startAt}
+                onChange={(e) => setStartAt(e.target.value)}
+                className="w-full p-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Minutes per match
+              </label>
+              <input
+                type="number"
+                min={10}
+                max={120}
+                step={5}
+                value={matchMinutes}
+                onChange={(e) => setMatchMinutes(Number(e.target.value))}
+                className="w-full p-2.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-brand-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 rounded-lg font-medium text-white bg-brand-600 hover:bg-brand-700 disabled:opacity-50"
+            >
+              {saving ? "Scheduling..." : "Assign"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+export default ScheduleModal;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Tournament, tournamentStore } from "../../../stores/TournamentStore";
+
+interface SeedingPanelProps {
+  tournament: Tournament;
+}
+
+/**
+ * Organizer-only: order the field before the bracket is drawn
+ */
+const SeedingPanel: React.FC<SeedingPanelProps> = observer(({ tournament }) => {
+  const [order, setOrder] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const teamKey = tournament.teams.map((t) => `${t._id}:${t.seed ?? ""}`).join(",");
+
+  // Start from the saved seeds (or ratings) whenever the field changes
+  useEffect(() => {
+    tournamentStore.getSuggestedSeeds(tournament).then(setOrder);
+  }, [teamKey]);
+
+  const move = (index: number, delta: number) => {
+    const next = [...order];
+    const [teamId] = next.splice(index, 1);
+    next.splice(index + delta, 0, teamId);
+    setOrder(next);
+    setMessage("");
+  };
+
+  const handleSuggest = async () => {
+    // Ignore saved seeds and rank purely on player ratings
+    const unseeded = { ...tournament, teams: tournament.teams.map((t) => ({ ...t, seed: undefined })) };
+    setOrder(await tournamentStore.getSuggestedSeeds(unseeded));
+    setMessage("");
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const success = await tournamentStore.saveSeeds(tournament._id, order);
+    setSaving(false);
+    setMessage(success ? "Seeds saved" : tournamentStore.error || "Failed to save seeds");
+  };
+
+  if (tournament.teams.length < 2) return null;
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">Seeding</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Top seeds are kept apart until the late rounds and get any byes.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleSuggest}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Seed by rating
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1.5 text-sm rounded-md bg-brand-600 text-white hover:bg-brand-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save seeds"}
+          </button>
+        </div>
+      </div>
+
+      {message && <p className="px-6 pt-4 text-sm text-gray-600 dark:text-gray-400">{message}</p>}
+
+      <ol className="p-6 space-y-2">
+        {order.map((teamId, index) => {
+          const team = tournamentStore.getTeam(tournament, teamId);
+          if (!team) return null;
+
+          return (
+            <li
+              key={teamId}
+              className="flex items-center gap-3 p-2 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm"
+            >
+              <span className="w-8 text-center font-semibold text-gray-500">#{index + 1}</span>
+              <span className="flex-1 text-gray-900 dark:text-gray-100">{team.name}</span>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="p-1 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === order.length - 1}
+                className="p-1 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+});
+
+export default SeedingPanel;
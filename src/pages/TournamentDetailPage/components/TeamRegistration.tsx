@@ -0,0 +1,96 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link } from "react-router-dom";
+import { Trash2, UserPlus } from "lucide-react";
+import { Tournament, TournamentTeam, tournamentStore } from "../../../stores/TournamentStore";
+import { authStore } from "../../../stores/AuthStore";
+import Avatar from "../../../components/Avatar";
+import RegisterTeamModal from "./RegisterTeamModal";
+
+interface TeamRegistrationProps {
+  tournament: Tournament;
+}
+
+const TeamRegistration: React.FC<TeamRegistrationProps> = observer(({ tournament }) => {
+  const [showRegister, setShowRegister] = useState(false);
+  const userId = authStore.user?.id;
+  const isOrganizer = tournamentStore.isOrganizer(tournament);
+  const registrationOpen = tournament.status === "registration";
+  const isFull = !!tournament.maxTeams && tournament.teams.length >= tournament.maxTeams;
+  const alreadyRegistered = tournament.teams.some((t) => t.players.some((p) => p._id === userId));
+  const teams = [...tournament.teams].sort((a, b) => (a.seed ?? Infinity) - (b.seed ?? Infinity));
+
+  const canWithdraw = (team: TournamentTeam) =>
+    registrationOpen && (isOrganizer || team.players.some((p) => p._id === userId));
+
+  const handleWithdraw = async (team: TournamentTeam) => {
+    if (!window.confirm(`Withdraw ${team.name} from the tournament?`)) return;
+    await tournamentStore.withdrawTeam(tournament._id, team._id);
+  };
+
+  return (
+    <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+          Teams{" "}
+          <span className="text-base font-normal text-gray-500 dark:text-gray-400">
+            ({tournament.teams.length}
+            {tournament.maxTeams ? ` / ${tournament.maxTeams}` : ""})
+          </span>
+        </h2>
+        {registrationOpen && (isOrganizer || !alreadyRegistered) && (
+          <button
+            onClick={() => setShowRegister(true)}
+            disabled={isFull}
+            className="inline-flex items-center px-4 py-2 rounded-md bg-brand-600 text-white hover:bg-brand-700 text-sm font-medium disabled:opacity-50"
+          >
+            <UserPlus className="h-4 w-4 mr-1" />
+            {isFull ? "Tournament full" : isOrganizer ? "Add Team" : "Register"}
+          </button>
+        )}
+      </div>
+
+      {teams.length === 0 ? (
+        <p className="p-6 text-gray-500 dark:text-gray-400">No teams registered yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {teams.map((team) => (
+            <li key={team._id} className="p-4 flex items-center gap-4">
+              <span className="w-8 text-center text-sm font-semibold text-gray-400">
+                {team.seed ? `#${team.seed}` : "–"}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 dark:text-gray-100">{team.name}</p>
+                <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                  {team.players.map((player) => (
+                    <Link
+                      key={player._id}
+                      to={`/profile/${player._id}`}
+                      className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 hover:underline"
+                    >
+                      <Avatar src={player.photoURL} name={player.displayName} size="xs" />
+                      {player.displayName || "Anonymous"}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+              {canWithdraw(team) && (
+                <button
+                  onClick={() => handleWithdraw(team)}
+                  className="p-1.5 rounded-lg text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  title="Withdraw team"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showRegister && <RegisterTeamModal tournament={tournament} onClose={() => setShowRegister(false)} />}
+    </div>
+  );
+});
+
+export default TeamRegistration;
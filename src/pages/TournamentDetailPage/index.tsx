@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { useParams, Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Calendar, CalendarClock, MapPin, Pencil, Play, Trash2, Trophy } from "lucide-react";
+import {
+  BracketMatch,
+  TOURNAMENT_FORMAT_LABELS,
+  TOURNAMENT_STATUS_LABELS,
+  tournamentStore,
+} from "../../stores/TournamentStore";
+import { venueStore } from "../../stores/VenueStore";
+import { socketStore } from "../../stores/SocketStore";
+import { getChampion } from "../../utils/bracketUtils";
+import TournamentFormModal from "../../components/TournamentFormModal";
+import BracketView from "./components/BracketView";
+import MatchModal from "./components/MatchModal";
+import PoolStandings from "./components/PoolStandings";
+import ScheduleModal from "./components/ScheduleModal";
+import SeedingPanel from "./components/SeedingPanel";
+import TeamRegistration from "./components/TeamRegistration";
+
+const formatStart = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const TournamentDetailPage: React.FC = observer(() => {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const navigate = useNavigate();
+  const [loaded, setLoaded] = useState(false);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const socketConnected = socketStore.connected;
+
+  useEffect(() => {
+    if (!tournamentId) return;
+
+    const loadData = async () => {
+      await Promise.all([
+        tournamentStore.fetchTournament(tournamentId),
+        venueStore.venues.length === 0 ? venueStore.fetchVenues() : Promise.resolve(),
+      ]);
+      setLoaded(true);
+    };
+    loadData();
+  }, [tournamentId]);
+
+  // Scores entered by other organizers show up without a refresh
+  useEffect(() => {
+    if (!socketConnected || !tournamentId) return;
+
+    socketStore.joinTournament(tournamentId);
+    return () => socketStore.leaveTournament(tournamentId);
+  }, [socketConnected, tournamentId]);
+
+  const tournament = tournamentId ? tournamentStore.getTournament(tournamentId) : undefined;
+
+  if (!loaded && !tournament) {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-gray-50 dark:bg-dark-bg">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-500 dark:border-brand-400"></div>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="bg-white dark:bg-dark-card shadow rounded-lg p-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">Tournament Not Found</h1>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              The tournament you're looking for doesn't exist or has been removed.
+            </p>
+            <Link
+              to="/tournaments"
+              className="inline-flex items-center text-brand-600 hover:text-brand-700 dark:text-brand-400 dark:hover:text-brand-300"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Tournaments
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const isOrganizer = tournamentStore.isOrganizer(tournament);
+  const venue = venueStore.venues.find((v) => v.id === tournament.venueId);
+  const courts = venue?.courts || [];
+  const getCourtName = (courtId: string | null) => courts.find((c) => c.id === courtId)?.name;
+  const championId = getChampion(tournament.matches, tournament.teams.map((t) => t._id));
+  const champion = tournamentStore.getTeam(tournament, championId);
+  const selectedMatch = tournament.matches.find((m) => m.id === selectedMatchId);
+  const handleSelectMatch = isOrganizer ? (match: BracketMatch) => setSelectedMatchId(match.id) : undefined;
+
+  const handleStart = async () => {
+    if (
+      !window.confirm(
+        `Close registration and draw the bracket for ${tournament.teams.length} teams? Teams can't be added after this.`
+      )
+    ) {
+      return;
+    }
+
+    setStarting(true);
+    const success = await tournamentStore.startTournament(tournament);
+    setStarting(false);
+    if (!success) alert(tournamentStore.error || "Failed to start tournament");
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete ${tournament.name}? This can't be undone.`)) return;
+
+    if (await tournamentStore.deleteTournament(tournament._id)) {
+      navigate("/tournaments");
+    } else {
+      alert(tournamentStore.error || "Failed to delete tournament");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-dark-bg py-8 px-4 transition-colors duration-300">
+      <div className="max-w-6xl mx-auto">
+        {/* Back Button */}
+        <div className="mb-6">
+          <Link
+            to="/tournaments"
+            className="inline-flex items-center text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Tournaments
+          </Link>
+        </div>
+
+        {/* Tournament Header */}
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+          <div className="p-6 sm:p-8 flex flex-col md:flex-row md:items-start gap-6">
+            <div className="flex-1">
+              <p className="text-sm font-medium text-brand-600 dark:text-brand-400 mb-1">
+                {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {TOURNAMENT_STATUS_LABELS[tournament.status]}
+              </p>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">{tournament.name}</h1>
+              {tournament.description && (
+                <p className="text-gray-600 dark:text-gray-300 mb-4 whitespace-pre-line">{tournament.description}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-4 text-gray-500 dark:text-gray-400 text-sm">
+                <span className="flex items-center">
+                  <Calendar className="h-4 w-4 mr-1.5" />
+                  {formatStart(tournament.date)}
+                </span>
+                <span className="flex items-center">
+                  <MapPin className="h-4 w-4 mr-1.5" />
+                  {venue?.name || "Venue to be announced"}
+                </span>
+                {isOrganizer && (
+                  <>
+                    <button
+                      onClick={() => setShowEditForm(true)}
+                      className="flex items-center hover:text-gray-700 dark:hover:text-gray-200"
+                    >
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </button>
+                    <button
+                      onClick={handleDelete}
+                      className="flex items-center text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {isOrganizer && tournament.status === "registration" && (
+              <button
+                onClick={handleStart}
+                disabled={starting || tournament.teams.length < 2}
+                className="inline-flex items-center justify-center px-6 py-2 rounded-md bg-brand-600 text-white hover:bg-brand-700 font-medium disabled:opacity-50"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {starting ? "Drawing..." : "Start Tournament"}
+              </button>
+            )}
+            {isOrganizer && tournament.status === "in_progress" && courts.length > 0 && (
+              <button
+                onClick={() => setShowSchedule(true)}
+                className="inline-flex items-center justify-center px-6 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 font-medium"
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Assign Courts
+              </button>
+            )}
+          </div>
+
+          {champion && (
+            <div className="px-6 sm:px-8 py-4 bg-amber-50 dark:bg-amber-900/20 border-t border-amber-200 dark:border-amber-800 flex items-center gap-3 text-amber-800 dark:text-amber-300">
+              <Trophy className="h-5 w-5" />
+              <span className="font-semibold">{champion.name}</span>
+              <span className="text-sm">won the tournament</span>
+            </div>
+          )}
+        </div>
+
+        {tournament.status === "registration" ? (
+          <>
+            {isOrganizer && <SeedingPanel tournament={tournament} />}
+            <TeamRegistration tournament={tournament} />
+          </>
+        ) : (
+          <>
+            <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+              <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200">
+                  {tournament.format === "round_robin" ? "Pools" : "Bracket"}
+                </h2>
+                {isOrganizer && tournament.status === "in_progress" && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Click a match to enter its score or set its court and time.
+                  </p>
+                )}
+              </div>
+              <div className="p-6">
+                {tournament.format === "round_robin" ? (
+                  <PoolStandings
+                    tournament={tournament}
+                    getCourtName={getCourtName}
+                    onSelectMatch={handleSelectMatch}
+                  />
+                ) : (
+                  <BracketView
+                    tournament={tournament}
+                    getCourtName={getCourtName}
+                    onSelectMatch={handleSelectMatch}
+                  />
+                )}
+              </div>
+            </div>
+            <TeamRegistration tournament={tournament} />
+          </>
+        )}
+      </div>
+
+      {showEditForm && <TournamentFormModal tournament={tournament} onClose={() => setShowEditForm(false)} />}
+      {showSchedule && (
+        <ScheduleModal tournament={tournament} courts={courts} onClose={() => setShowSchedule(false)} />
+      )}
+      {selectedMatch && (
+        <MatchModal
+          tournament={tournament}
+          match={selectedMatch}
+          courts={courts}
+          onClose={() => setSelectedMatchId(null)}
+        />
+      )}
+    </div>
+  );
+});
+
+export default TournamentDetailPage;
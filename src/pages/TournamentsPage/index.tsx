@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from "react";
+import { observer } from "mobx-react-lite";
+import { Link, useNavigate } from "react-router-dom";
+import { Calendar, MapPin, Plus, Trophy, Users } from "lucide-react";
+import {
+  TOURNAMENT_FORMAT_LABELS,
+  TOURNAMENT_STATUS_LABELS,
+  Tournament,
+  TournamentStatus,
+  tournamentStore,
+} from "../../stores/TournamentStore";
+import { authStore } from "../../stores/AuthStore";
+import { venueStore } from "../../stores/VenueStore";
+import TournamentFormModal from "../../components/TournamentFormModal";
+
+const STATUS_STYLES: Record<TournamentStatus, string> = {
+  registration: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  in_progress: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  completed: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+};
+
+const formatStart = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const TournamentsPage: React.FC = observer(() => {
+  const navigate = useNavigate();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const canCreate = authStore.isAdmin || authStore.user?.role === "coach";
+
+  useEffect(() => {
+    tournamentStore.fetchTournaments();
+    if (venueStore.venues.length === 0) venueStore.fetchVenues();
+  }, []);
+
+  // Upcoming and live first, finished ones after
+  const tournaments = [...tournamentStore.tournaments].sort((a, b) => {
+    const doneA = a.status === "completed" ? 1 : 0;
+    const doneB = b.status === "completed" ? 1 : 0;
+    return doneA - doneB || new Date(a.date).getTime() - new Date(b.date).getTime();
+  });
+
+  const handleCreated = (tournament: Tournament | null) => {
+    if (tournament) navigate(`/tournaments/${tournament._id}`);
+  };
+
+  return (
+    <div className="bg-gray-50 dark:bg-dark-bg min-h-screen py-8 transition-colors duration-300">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="bg-white dark:bg-dark-card rounded-xl shadow-sm overflow-hidden mb-8 dark:border dark:border-dark-border">
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Tournaments</h1>
+            {canCreate && (
+              <button
+                onClick={() => setShowCreateForm(true)}
+                className="inline-flex items-center justify-center px-4 py-2 rounded-md bg-brand-600 text-white hover:bg-brand-700 dark:bg-brand-700 dark:hover:bg-brand-600 transition-colors text-sm font-medium"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New Tournament
+              </button>
+            )}
+          </div>
+
+          <div className="p-6">
+            {tournamentStore.loading && tournaments.length === 0 ? (
+              <div className="flex justify-center items-center p-8">
+                <div className="animate-spin h-8 w-8 border-2 border-brand-500 dark:border-brand-400 rounded-full border-t-transparent"></div>
+              </div>
+            ) : tournaments.length === 0 ? (
+              <div className="text-center py-12">
+                <Trophy className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-gray-200">No tournaments yet</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Check back soon for upcoming events.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {tournaments.map((tournament) => {
+                  const venue = venueStore.venues.find((v) => v.id === tournament.venueId);
+
+                  return (
+                    <Link
+                      key={tournament._id}
+                      to={`/tournaments/${tournament._id}`}
+                      className="bg-white dark:bg-dark-card rounded-lg shadow-md hover:shadow-xl transition-shadow duration-300 p-5 flex flex-col gap-3 border border-gray-200 dark:border-dark-border"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{tournament.name}</h3>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_STYLES[tournament.status]}`}
+                        >
+                          {TOURNAMENT_STATUS_LABELS[tournament.status]}
+                        </span>
+                      </div>
+                      <div className="space-y-1.5 text-sm text-gray-600 dark:text-gray-400">
+                        <p className="flex items-center gap-2">
+                          <Calendar className="h-4 w-4" />
+                          {formatStart(tournament.date)}
+                        </p>
+                        <p className="flex items-center gap-2">
+                          <MapPin className="h-4 w-4" />
+                          {venue?.name || "Venue to be announced"}
+                        </p>
+                        <p className="flex items-center gap-2">
+                          <Users className="h-4 w-4" />
+                          {tournament.teams.length}
+                          {tournament.maxTeams ? ` / ${tournament.maxTeams}` : ""} teams ·{" "}
+                          {TOURNAMENT_FORMAT_LABELS[tournament.format]}
+                        </p>
+                      </div>
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {showCreateForm && (
+        <TournamentFormModal onClose={() => setShowCreateForm(false)} onSaved={handleCreated} />
+      )}
+    </div>
+  );
+});
+
+export default TournamentsPage;
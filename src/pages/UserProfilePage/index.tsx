@@ -3,8 +3,10 @@ import { observer } from "mobx-react-lite";
 import { useParams, Link } from "react-router-dom";
 import { userStore } from "../../stores/UserStore";
 import { authStore } from "../../stores/AuthStore";
+import { matchStore } from "../../stores/MatchStore";
 import Avatar from "../../components/Avatar";
 import CoachBadge from "../../components/CoachBadge";
+import { getRatingTier, PROVISIONAL_MATCHES } from "../../utils/matchUtils";
 
 /**
  * UserProfilePage - View any user's public profile
@@ -13,10 +15,12 @@ const UserProfilePage: React.FC = observer(() => {
   const { userId } = useParams<{ userId: string }>();
   const { publicProfile, publicProfileLoading } = userStore;
   const isOwnProfile = authStore.user?.id === userId;
+  const playerRating = userId ? matchStore.ratings[userId] : undefined;
 
   useEffect(() => {
     if (userId) {
       userStore.getPublicProfile(userId);
+      matchStore.fetchPlayerStats(userId);
     }
 
     return () => {
@@ -141,6 +145,86 @@ const UserProfilePage: React.FC = observer(() => {
               </p>
             )}
 
+            {/* Rating */}
+            {playerRating && (
+              <div className="mt-6 p-4 bg-indigo-50 dark:bg-indigo-900/10 rounded-lg border border-indigo-200 dark:border-indigo-800/30">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-semibold text-indigo-800 dark:text-indigo-300">
+                      Rating {Math.round(playerRating.rating)}
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {getRatingTier(playerRating.rating)}
+                      {playerRating.matchesPlayed < PROVISIONAL_MATCHES && " · Provisional"}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm text-gray-600 dark:text-gray-400">
+                    <p className="font-medium text-gray-800 dark:text-gray-200">
+                      {playerRating.wins}W - {playerRating.losses}L
+                    </p>
+                    <p>{playerRating.matchesPlayed} matches</p>
+                  </div>
+                </div>
+
+                {matchStore.playerMatches.length > 0 && (
+                  <ul className="mt-4 space-y-1.5">
+                    {matchStore.playerMatches.slice(0, 5).map((match) => {
+                      const onTeamA = match.teamA.some((p) => p._id === userId);
+                      const own = onTeamA ? match.scoreA : match.scoreB;
+                      const other = onTeamA ? match.scoreB : match.scoreA;
+                      const opponents = (onTeamA ? match.teamB : match.teamA)
+                        .map((p) => p.displayName || "Anonymous")
+                        .join(" & ");
+                      const change = match.ratingChanges?.[userId!];
+                      return (
+                        <li key={match._id} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-700 dark:text-gray-300 truncate">
+                            <span
+                              className={`font-semibold ${
+                                own > other ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                              }`}
+                            >
+                              {own > other ? "W" : "L"}
+                            </span>{" "}
+                            {own}-{other} vs {opponents}
+                          </span>
+                          {change !== undefined && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {change >= 0 ? "+" : ""}
+                              {change}
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Ladder positions */}
+            {publicProfile.ladderStandings.length > 0 && (
+              <div className="mt-6 p-4 bg-amber-50 dark:bg-amber-900/10 rounded-lg border border-amber-200 dark:border-amber-800/30">
+                <h3 className="font-semibold text-amber-800 dark:text-amber-400 mb-2">Ladders</h3>
+                <ul className="space-y-1.5">
+                  {publicProfile.ladderStandings.map((standing) => (
+                    <li key={standing.ladderId} className="flex items-center justify-between text-sm">
+                      <Link
+                        to={`/ladders/${standing.ladderId}`}
+                        className="text-gray-700 dark:text-gray-300 hover:underline truncate"
+                      >
+                        {standing.ladderName}
+                      </Link>
+                      <span className="font-medium text-gray-800 dark:text-gray-200">
+                        #{standing.position}
+                        <span className="font-normal text-gray-500 dark:text-gray-400"> of {standing.size}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Coach-specific info */}
             {publicProfile.role === "coach" && publicProfile.coachProfile && (
               <div className="mt-6 p-4 bg-amber-50 dark:bg-amber-900/10 rounded-lg border border-amber-200 dark:border-amber-800/30">
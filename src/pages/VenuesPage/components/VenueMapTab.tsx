@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+import { observer } from "mobx-react-lite";
+import type { Venue } from "../../../stores/VenueStore";
+import type { Session } from "../../../stores/SessionStore";
+import { VENUE_STATUS_LABELS } from "../../../stores/VenueStore";
+import { locationStore } from "../../../stores/LocationStore";
+import VenuesMap from "../../../components/VenuesMap";
+import LocationPicker from "../../../components/LocationPicker";
+import { distanceKm, formatDistance, hasCoordinates, sortByDistance } from "../../../utils/geoUtils";
+import { getEffectiveStatus, VENUE_STATUS_STYLES } from "../../../utils/venueStatusUtils";
+
+interface VenueMapTabProps {
+  venues: Venue[];
+  todaySessions: Session[];
+}
+
+/**
+ * VenueMapTab - Overview map beside a venue list sorted nearest first
+ */
+const VenueMapTab: React.FC<VenueMapTabProps> = observer(({ venues, todaySessions }) => {
+  const [focusVenueId, setFocusVenueId] = useState<string | null>(null);
+  const location = locationStore.location;
+  const sortedVenues = sortByDistance(venues, location);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <section className="space-y-4 lg:order-1 order-2">
+        <LocationPicker />
+
+        <ul className="space-y-2 lg:max-h-[540px] lg:overflow-y-auto">
+          {sortedVenues.map((venue) => {
+            const status = getEffectiveStatus(venue);
+            const sessionCount = todaySessions.filter((s) => s.venueId?._id === venue.id).length;
+            const mapped = hasCoordinates(venue);
+
+            return (
+              <li key={venue.id}>
+                <button
+                  onClick={() => setFocusVenueId(venue.id)}
+                  disabled={!mapped}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    focusVenueId === venue.id
+                      ? "border-green-500 bg-green-50 dark:bg-green-900/20"
+                      : "border-gray-200 dark:border-gray-700 bg-white dark:bg-dark-card hover:border-gray-300"
+                  } disabled:cursor-default`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 dark:text-gray-100 truncate">{venue.name}</span>
+                    {location && mapped && (
+                      <span className="shrink-0 text-sm font-medium text-gray-600 dark:text-gray-300">
+                        {formatDistance(distanceKm(location, venue))}
+                      </span>
+                    )}
+                  </div>
+                  <div className="mt-1 flex items-center gap-2 text-xs">
+                    <span className={`px-2 py-0.5 rounded-full ${VENUE_STATUS_STYLES[status].badge}`}>
+                      {VENUE_STATUS_LABELS[status]}
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {sessionCount > 0
+                        ? `${sessionCount} session${sessionCount === 1 ? "" : "s"} today`
+                        : "No sessions today"}
+                    </span>
+                    {!mapped && <span className="text-gray-400">· Not on map</span>}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      <section className="lg:col-span-2 lg:order-2 order-1 h-[420px] lg:h-[640px]">
+        <VenuesMap
+          venues={venues}
+          sessions={todaySessions}
+          userLocation={location}
+          focusVenueId={focusVenueId}
+        />
+      </section>
+    </div>
+  );
+});
+
+export default VenueMapTab;
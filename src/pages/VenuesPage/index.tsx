@@ -1,23 +1,41 @@
 import React, { useEffect, useState } from "react";
 import { observer } from "mobx-react-lite";
 import { Link, useNavigate } from "react-router-dom";
-import { venueStore, Venue } from "../../stores/VenueStore";
+import { venueStore, Venue, VENUE_STATUS_LABELS } from "../../stores/VenueStore";
 import { sessionStore, Session } from "../../stores/SessionStore";
 import { authStore } from "../../stores/AuthStore";
+import { socketStore } from "../../stores/SocketStore";
+import { policyStore } from "../../stores/PolicyStore";
+import { locationStore } from "../../stores/LocationStore";
 import OptimizedImage from "../../components/OptimizedImage";
 import Avatar from "../../components/Avatar";
+import SessionCalendar from "../../components/SessionCalendar";
+import CourtOccupancy from "../../components/CourtOccupancy";
+import DirectionsPanel from "../../components/DirectionsPanel";
+import VenueMapTab from "./components/VenueMapTab";
+import { sortByDistance } from "../../utils/geoUtils";
+import { formatDayHours, getClosureReason, getDayHours } from "../../utils/openingHoursUtils";
+import { describeStatusWindow, getEffectiveStatus } from "../../utils/venueStatusUtils";
+import { isPublicSession } from "../../utils/sessionUtils";
 
 // Tab type
-type TabType = "today" | "upcoming";
+type TabType = "today" | "upcoming" | "calendar" | "map";
 
 // ============================================
 // Simple Venue Card - Just info, no actions
 // ============================================
 interface VenueCardProps {
   venue: Venue;
+  sessions: Session[];
 }
 
-const VenueCard: React.FC<VenueCardProps> = ({ venue }) => {
+const VenueCard: React.FC<VenueCardProps> = ({ venue, sessions }) => {
+  const now = new Date();
+  const closedToday = getClosureReason(venue, now);
+  const todayHours = getDayHours(venue, now);
+  const status = getEffectiveStatus(venue, now);
+  const statusNote = describeStatusWindow(venue, now);
+
   return (
     <div className="bg-white dark:bg-dark-card rounded-xl shadow-md overflow-hidden dark:border dark:border-dark-border">
       {/* Image */}
@@ -31,12 +49,18 @@ const VenueCard: React.FC<VenueCardProps> = ({ venue }) => {
         {/* Status Badge */}
         <span
           className={`absolute top-2 right-2 px-2.5 py-1 rounded-full text-xs font-semibold ${
-            venue.status === "Available"
+            closedToday
+              ? "bg-red-500 text-white"
+              : status === "available"
               ? "bg-green-500 text-white"
+              : status === "maintenance"
+              ? "bg-amber-500 text-white"
+              : status === "reserved"
+              ? "bg-blue-500 text-white"
               : "bg-gray-500 text-white"
           }`}
         >
-          {venue.status}
+          {closedToday ? "Closed today" : VENUE_STATUS_LABELS[status]}
         </span>
       </div>
 
@@ -45,6 +69,27 @@ const VenueCard: React.FC<VenueCardProps> = ({ venue }) => {
         <h3 className="font-semibold text-gray-900 dark:text-gray-100 text-sm">
           {venue.name}
         </h3>
+        {venue.latitude !== undefined && venue.longitude !== undefined && (
+          <DirectionsPanel latitude={venue.latitude} longitude={venue.longitude} compact />
+        )}
+        {statusNote && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">
+            {statusNote}
+            {venue.statusReason && ` · ${venue.statusReason}`}
+          </p>
+        )}
+        {closedToday ? (
+          <p className="text-xs text-red-600 dark:text-red-400">{closedToday}</p>
+        ) : (
+          todayHours && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{formatDayHours(todayHours)}</p>
+          )
+        )}
+        {!closedToday && venue.courts.length > 0 && (
+          <div className="mt-2">
+            <CourtOccupancy venueId={venue.id} courts={venue.courts} sessions={sessions} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -64,6 +109,7 @@ const EventCard: React.FC<EventCardProps> = observer(({ session, onJoin, onLeave
   const isAttending = sessionStore.isUserAttending(session._id);
   const isFull = session.attendees.length >= session.maxPlayers;
   const spotsLeft = session.maxPlayers - session.attendees.length;
+  const waitlistPosition = sessionStore.getWaitlistPosition(session._id);
 
   // Check if session has ended
   const isEnded = () => {
@@ -131,7 +177,9 @@ const EventCard: React.FC<EventCardProps> = observer(({ session, onJoin, onLeave
               </span>
               {session.title && (
                 <h3 className="font-semibold text-gray-900 dark:text-gray-100 mt-2">
-                  {session.title}
+                  <Link to={`/sessions/${session._id}`} className="hover:underline">
+                    {session.title}
+                  </Link>
                 </h3>
               )}
             </div>
@@ -216,17 +264,27 @@ const EventCard: React.FC<EventCardProps> = observer(({ session, onJoin, onLeave
                 >
                   Leave
                 </button>
+              ) : waitlistPosition ? (
+                <button
+                  onClick={() => sessionStore.leaveWaitlist(session._id)}
+                  title="Leave waitlist"
+                  className="px-4 py-1.5 text-sm font-medium text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-lg hover:bg-amber-100 dark:hover:bg-amber-900/30"
+                >
+                  #{waitlistPosition} on waitlist
+                </button>
+              ) : isFull ? (
+                <button
+                  onClick={() => sessionStore.joinWaitlist(session._id)}
+                  className="px-4 py-1.5 text-sm font-medium rounded-lg bg-amber-500 text-white hover:bg-amber-600"
+                >
+                  Join Waitlist
+                </button>
               ) : (
                 <button
                   onClick={handleJoinClick}
-                  disabled={isFull}
-                  className={`px-4 py-1.5 text-sm font-medium rounded-lg ${
-                    isFull
-                      ? "bg-gray-100 dark:bg-gray-800 text-gray-400 cursor-not-allowed"
-                      : "bg-green-600 text-white hover:bg-green-700"
-                  }`}
+                  className="px-4 py-1.5 text-sm font-medium rounded-lg bg-green-600 text-white hover:bg-green-700"
                 >
-                  {isFull ? "Full" : "Join"}
+                  Join
                 </button>
               )
             )}
@@ -319,7 +377,8 @@ const VenuesPage: React.FC = observer(() => {
   };
 
   const venues = venueStore.venues;
-  const allSessions = sessionStore.sessions.filter(s => s.status !== "cancelled");
+  // Members-only club sessions live on their club's page, not the public list
+  const allSessions = sessionStore.sessions.filter(s => s.status !== "cancelled" && isPublicSession(s));
   const venuesLoading = venueStore.loading;
 
   // Get today's date at midnight for comparison
@@ -339,6 +398,11 @@ const VenuesPage: React.FC = observer(() => {
     return sessionDate.getTime() > today.getTime();
   });
 
+  // Venues shut all day today, from a closure date or their weekly hours
+  const closedVenues = venues
+    .map((venue) => ({ venue, reason: getClosureReason(venue, today) }))
+    .filter((entry): entry is { venue: Venue; reason: string } => entry.reason !== null);
+
   // Format today's date for display
   const todayFormatted = today.toLocaleDateString("en-US", {
     weekday: "long",
@@ -352,6 +416,7 @@ const VenuesPage: React.FC = observer(() => {
         await Promise.all([
           venueStore.fetchVenues(),
           sessionStore.fetchUpcomingSessions(50),
+          policyStore.loadForCurrentUser(),
         ]);
       } catch (error) {
         console.error("Failed to initialize venues page:", error);
@@ -362,6 +427,22 @@ const VenuesPage: React.FC = observer(() => {
     initializePage();
   }, []);
 
+  // Subscribe to live attendee counts for today's sessions so two players
+  // racing for the last spot see the same numbers
+  const todaySessionIds = todaySessions.map((s) => s._id).join(",");
+  const socketConnected = socketStore.connected;
+
+  useEffect(() => {
+    if (!socketConnected || !todaySessionIds) return;
+
+    const ids = todaySessionIds.split(",");
+    ids.forEach((id) => socketStore.joinSession(id));
+
+    return () => {
+      ids.forEach((id) => socketStore.leaveSession(id));
+    };
+  }, [socketConnected, todaySessionIds]);
+
   const handleJoinSession = async (sessionId: string) => {
     try {
       const success = await sessionStore.attendSession(sessionId);
@@ -385,6 +466,10 @@ const VenuesPage: React.FC = observer(() => {
   };
 
   const handleLeaveSession = async (sessionId: string) => {
+    const session = sessionStore.getSessionById(sessionId);
+    const lateWarning = session ? policyStore.getLateCancellationWarning(session) : null;
+    if (lateWarning && !window.confirm(lateWarning)) return;
+
     try {
       const success = await sessionStore.leaveSession(sessionId);
       if (success) {
@@ -463,15 +548,58 @@ const VenuesPage: React.FC = observer(() => {
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab("calendar")}
+              className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-t-lg transition-colors ${
+                activeTab === "calendar"
+                  ? "bg-gray-50 dark:bg-dark-bg text-green-600 dark:text-green-400 border-b-2 border-green-500"
+                  : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+              }`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+              </svg>
+              Calendar
+            </button>
+            <button
+              onClick={() => setActiveTab("map")}
+              className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-t-lg transition-colors ${
+                activeTab === "map"
+                  ? "bg-gray-50 dark:bg-dark-bg text-green-600 dark:text-green-400 border-b-2 border-green-500"
+                  : "text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+              }`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+              </svg>
+              Map
+            </button>
           </div>
         </div>
       </div>
 
       {/* Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        {activeTab === "today" ? (
+        {activeTab === "calendar" ? (
+          <SessionCalendar />
+        ) : activeTab === "map" ? (
+          <VenueMapTab venues={venues} todaySessions={todaySessions} />
+        ) : activeTab === "today" ? (
           // Today's View - Venues + Today's Sessions
           <div className="space-y-8">
+            {closedVenues.length > 0 && (
+              <div className="p-4 rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-900/20">
+                <p className="font-semibold text-red-700 dark:text-red-400">Closed today</p>
+                <ul className="mt-1 text-sm text-red-700 dark:text-red-300 space-y-0.5">
+                  {closedVenues.map(({ venue, reason }) => (
+                    <li key={venue.id}>
+                      {venue.name} — {reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Today's Sessions */}
             {todaySessions.length > 0 && (
               <section>
@@ -515,8 +643,8 @@ const VenuesPage: React.FC = observer(() => {
                 </div>
               ) : (
                 <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
-                  {venues.map((venue) => (
-                    <VenueCard key={venue.id} venue={venue} />
+                  {sortByDistance(venues, locationStore.location).map((venue) => (
+                    <VenueCard key={venue.id} venue={venue} sessions={todaySessions} />
                   ))}
                 </div>
               )}
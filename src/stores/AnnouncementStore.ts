@@ -0,0 +1,158 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import axios from "axios";
+
+export interface AnnouncementAuthor {
+  _id: string;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface ClubAnnouncement {
+  _id: string;
+  clubId: string;
+  author: AnnouncementAuthor;
+  body: string;
+  imageUrl?: string | null;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface AnnouncementData {
+  body: string;
+  imageUrl?: string;
+}
+
+class AnnouncementStore {
+  // Keyed by club id
+  announcements: Record<string, ClubAnnouncement[]> = {};
+  loading = false;
+  error: string | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  private setLoadingState = (loading: boolean, error: string | null = null) => {
+    this.loading = loading;
+    this.error = error;
+  };
+
+  private upsert(announcement: ClubAnnouncement) {
+    const list = this.announcements[announcement.clubId] || [];
+    const index = list.findIndex((a) => a._id === announcement._id);
+    if (index === -1) {
+      this.announcements[announcement.clubId] = [announcement, ...list];
+    } else {
+      list[index] = announcement;
+    }
+  }
+
+  async fetchAnnouncements(clubId: string): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.get(`/clubs/${clubId}/announcements`);
+
+      runInAction(() => {
+        this.announcements[clubId] = response.data;
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error fetching announcements:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to fetch announcements");
+      });
+      return false;
+    }
+  }
+
+  async postAnnouncement(clubId: string, data: AnnouncementData): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post(`/clubs/${clubId}/announcements`, data);
+
+      runInAction(() => {
+        this.upsert(response.data);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error posting announcement:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to post announcement");
+      });
+      return false;
+    }
+  }
+
+  async setPinned(clubId: string, announcementId: string, pinned: boolean): Promise<boolean> {
+    try {
+      const response = await axios.put(`/clubs/${clubId}/announcements/${announcementId}/pin`, {
+        pinned,
+      });
+
+      runInAction(() => {
+        this.upsert(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error pinning announcement:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to update announcement";
+      });
+      return false;
+    }
+  }
+
+  async deleteAnnouncement(clubId: string, announcementId: string): Promise<boolean> {
+    try {
+      await axios.delete(`/clubs/${clubId}/announcements/${announcementId}`);
+
+      runInAction(() => {
+        this.removeAnnouncement(clubId, announcementId);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error deleting announcement:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to delete announcement";
+      });
+      return false;
+    }
+  }
+
+  /**
+   * New or edited announcement pushed over the socket. Only clubs whose feed
+   * has been loaded are tracked; others pick it up on their next fetch.
+   */
+  handleAnnouncement(announcement: ClubAnnouncement): void {
+    if (!this.announcements[announcement.clubId]) return;
+    this.upsert(announcement);
+  }
+
+  removeAnnouncement(clubId: string, announcementId: string): void {
+    const list = this.announcements[clubId];
+    if (list) {
+      this.announcements[clubId] = list.filter((a) => a._id !== announcementId);
+    }
+  }
+
+  /**
+   * Pinned posts first, then newest first
+   */
+  getFeed(clubId: string): ClubAnnouncement[] {
+    return [...(this.announcements[clubId] || [])].sort(
+      (a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt.localeCompare(a.createdAt)
+    );
+  }
+}
+
+export const announcementStore = new AnnouncementStore();
+export default AnnouncementStore;
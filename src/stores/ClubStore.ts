@@ -2,12 +2,35 @@ import { makeAutoObservable, runInAction } from "mobx";
 import axios from "axios";
 import { authStore } from "./AuthStore";
 
+export type ClubRole = "owner" | "officer" | "member";
+
+export const CLUB_ROLE_LABELS: Record<ClubRole, string> = {
+  owner: "Owner",
+  officer: "Officer",
+  member: "Member",
+};
+
+// New clubs stay hidden from the directory until a site admin approves them
+export type ClubApprovalStatus = "pending" | "approved" | "rejected";
+
 export interface Club {
   _id: string;
   name: string;
   description: string;
   logo?: string;
   memberCount?: number;
+  // New members wait for an officer to approve them
+  requiresApproval?: boolean;
+  approvalStatus?: ClubApprovalStatus;
+  rejectionReason?: string;
+  createdBy?: string;
+}
+
+export interface ClubFormData {
+  name: string;
+  description: string;
+  logo?: string;
+  requiresApproval?: boolean;
 }
 
 export interface ClubMember {
@@ -15,6 +38,43 @@ export interface ClubMember {
   displayName: string | null;
   photoURL: string | null;
   email: string;
+  role: ClubRole;
+}
+
+export interface ClubJoinRequest {
+  _id: string;
+  user: {
+    _id: string;
+    displayName: string | null;
+    photoURL: string | null;
+    email: string;
+  };
+  createdAt: string;
+}
+
+export interface ClubStatsMonth {
+  month: string; // "YYYY-MM"
+  sessions: number;
+  // Member sign-ups across those sessions
+  attendances: number;
+}
+
+export interface ClubMemberStats {
+  userId: string;
+  displayName: string | null;
+  photoURL: string | null;
+  sessionsAttended: number;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  rating?: number;
+}
+
+export interface ClubStats {
+  from: string;
+  to: string;
+  months: ClubStatsMonth[];
+  members: ClubMemberStats[];
 }
 
 class ClubStore {
@@ -27,6 +87,16 @@ class ClubStore {
   currentClub: Club | null = null;
   clubMembers: ClubMember[] = [];
   clubMembersLoading = false;
+  // Requests waiting on the current club's officers
+  joinRequests: ClubJoinRequest[] = [];
+  // Clubs the current user has asked to join
+  pendingClubIds: string[] = [];
+  // Clubs awaiting site admin review
+  clubsAwaitingReview: Club[] = [];
+  // Activity for the loaded club over the selected date range
+  // Keyed by getClubStatsKey so a slow response can't land on another club or range
+  clubStats: Record<string, ClubStats> = {};
+  clubStatsLoading: Record<string, boolean> = {};
 
   constructor() {
     makeAutoObservable(this);
@@ -37,6 +107,12 @@ class ClubStore {
     this.error = error;
   };
 
+  // Members from before roles existed come back without one
+  private processMember = (member: any): ClubMember => ({
+    ...member,
+    role: member.role || "member",
+  });
+
   private setClubMembersLoadingState = (loading: boolean, error: string | null = null) => {
     this.clubMembersLoading = loading;
     if (error) this.error = error;
@@ -103,7 +179,7 @@ class ClubStore {
       const response = await axios.get(`/clubs/${clubId}/members`);
       
       runInAction(() => {
-        this.clubMembers = response.data;
+        this.clubMembers = response.data.map(this.processMember);
         this.setClubMembersLoadingState(false);
       });
 
@@ -123,7 +199,7 @@ class ClubStore {
       
       runInAction(() => {
         this.currentClub = response.data.club;
-        this.clubMembers = response.data.members;
+        this.clubMembers = response.data.members.map(this.processMember);
         this.setLoadingState(false);
         this.setClubMembersLoadingState(false);
       });
@@ -191,6 +267,10 @@ class ClubStore {
         if (response.data.clubs) {
           this.userClubs = response.data.clubs;
         }
+        // Clubs that require approval queue the request instead
+        if (response.data.pending && !this.pendingClubIds.includes(clubId)) {
+          this.pendingClubIds.push(clubId);
+        }
         this.setLoadingState(false);
       });
 
@@ -247,12 +327,326 @@ class ClubStore {
     }
   }
 
+  // ============================================
+  // Club Management
+  // ============================================
+
+  /**
+   * Submits a new club. Unless the creator is a site admin it comes back
+   * pending and only shows up in the directory once approved.
+   */
+  async createClub(data: ClubFormData): Promise<Club | null> {
+    if (!authStore.isAuthenticated) return null;
+
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post("/clubs", data);
+      const club: Club = response.data;
+
+      runInAction(() => {
+        // The creator sees their club under My Clubs while it's in review
+        if (club.approvalStatus === "approved") {
+          this.clubs.push(club);
+        }
+        this.userClubs.push(club);
+        this.setLoadingState(false);
+      });
+
+      return club;
+    } catch (error: any) {
+      console.error("Failed to create club:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to create club");
+      return null;
+    }
+  }
+
+  async updateClub(clubId: string, data: Partial<ClubFormData>): Promise<boolean> {
+    try {
+      const response = await axios.put(`/clubs/${clubId}`, data);
+      const club: Club = response.data;
+
+      runInAction(() => {
+        const replace = (list: Club[]) =>
+          list.map((c) => (c._id === clubId ? { ...c, ...club } : c));
+        this.clubs = replace(this.clubs);
+        this.userClubs = replace(this.userClubs);
+        if (this.currentClub?._id === clubId) {
+          this.currentClub = { ...this.currentClub, ...club };
+        }
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to update club:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to update club";
+      });
+      return false;
+    }
+  }
+
+  async deleteClub(clubId: string): Promise<boolean> {
+    try {
+      await axios.delete(`/clubs/${clubId}`);
+
+      runInAction(() => {
+        this.clubs = this.clubs.filter((c) => c._id !== clubId);
+        this.userClubs = this.userClubs.filter((c) => c._id !== clubId);
+        this.selectedClubs = this.selectedClubs.filter((id) => id !== clubId);
+        if (this.currentClub?._id === clubId) {
+          this.currentClub = null;
+          this.clubMembers = [];
+        }
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to delete club:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to delete club";
+      });
+      return false;
+    }
+  }
+
+  async fetchClubsAwaitingReview(): Promise<boolean> {
+    try {
+      const response = await axios.get("/clubs/pending");
+
+      runInAction(() => {
+        this.clubsAwaitingReview = response.data;
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to fetch clubs awaiting review:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to fetch clubs awaiting review";
+      });
+      return false;
+    }
+  }
+
+  async reviewClub(clubId: string, approve: boolean, reason?: string): Promise<boolean> {
+    try {
+      const response = await axios.post(`/clubs/${clubId}/review`, { approve, reason });
+      const club: Club = response.data;
+
+      runInAction(() => {
+        this.clubsAwaitingReview = this.clubsAwaitingReview.filter((c) => c._id !== clubId);
+        if (approve && !this.clubs.some((c) => c._id === clubId)) {
+          this.clubs.push(club);
+        }
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to review club:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to review club";
+      });
+      return false;
+    }
+  }
+
+  // ============================================
+  // Stats
+  // ============================================
+
+  getClubStatsKey(clubId: string, from: string, to: string): string {
+    return `${clubId}:${from}:${to}`;
+  }
+
+  async fetchClubStats(clubId: string, from: string, to: string): Promise<boolean> {
+    const key = this.getClubStatsKey(clubId, from, to);
+    this.clubStatsLoading[key] = true;
+
+    try {
+      const response = await axios.get(`/clubs/${clubId}/stats?from=${from}&to=${to}`);
+
+      runInAction(() => {
+        this.clubStats[key] = response.data;
+        this.clubStatsLoading[key] = false;
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to fetch club stats:", error);
+      runInAction(() => {
+        this.clubStatsLoading[key] = false;
+        this.error = error.response?.data?.error || "Failed to fetch club stats";
+      });
+      return false;
+    }
+  }
+
+  // ============================================
+  // Membership Requests & Roles
+  // ============================================
+
+  async fetchMyJoinRequests(): Promise<boolean> {
+    if (!authStore.isAuthenticated) return false;
+
+    try {
+      const response = await axios.get("/users/club-requests");
+
+      runInAction(() => {
+        this.pendingClubIds = response.data.map((request: any) => request.club?._id || request.club);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to fetch club requests:", error);
+      return false;
+    }
+  }
+
+  async cancelJoinRequest(clubId: string): Promise<boolean> {
+    try {
+      await axios.delete(`/clubs/${clubId}/requests/me`);
+
+      runInAction(() => {
+        this.pendingClubIds = this.pendingClubIds.filter((id) => id !== clubId);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to cancel club request:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to cancel request";
+      });
+      return false;
+    }
+  }
+
+  async fetchJoinRequests(clubId: string): Promise<boolean> {
+    try {
+      const response = await axios.get(`/clubs/${clubId}/requests`);
+
+      runInAction(() => {
+        this.joinRequests = response.data;
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to fetch join requests:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to fetch join requests";
+      });
+      return false;
+    }
+  }
+
+  async respondToJoinRequest(clubId: string, requestId: string, approve: boolean): Promise<boolean> {
+    try {
+      const response = await axios.post(
+        `/clubs/${clubId}/requests/${requestId}/${approve ? "approve" : "reject"}`
+      );
+
+      runInAction(() => {
+        this.joinRequests = this.joinRequests.filter((r) => r._id !== requestId);
+        if (approve && response.data.member) {
+          this.clubMembers.push(this.processMember(response.data.member));
+        }
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to respond to join request:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to respond to request";
+      });
+      return false;
+    }
+  }
+
+  async removeMember(clubId: string, userId: string): Promise<boolean> {
+    try {
+      await axios.delete(`/clubs/${clubId}/members/${userId}`);
+
+      runInAction(() => {
+        this.clubMembers = this.clubMembers.filter((m) => m._id !== userId);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to remove member:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to remove member";
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Changes a member's role. Making someone owner hands the club over and
+   * the previous owner becomes an officer.
+   */
+  async setMemberRole(clubId: string, userId: string, role: ClubRole): Promise<boolean> {
+    try {
+      const response = await axios.put(`/clubs/${clubId}/members/${userId}/role`, { role });
+
+      runInAction(() => {
+        this.clubMembers = response.data.members.map(this.processMember);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to change member role:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to change member role";
+      });
+      return false;
+    }
+  }
+
+  async setRequiresApproval(clubId: string, requiresApproval: boolean): Promise<boolean> {
+    try {
+      const response = await axios.put(`/clubs/${clubId}/settings`, { requiresApproval });
+
+      runInAction(() => {
+        if (this.currentClub?._id === clubId) {
+          this.currentClub = { ...this.currentClub, ...response.data };
+        }
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Failed to update club settings:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to update club settings";
+      });
+      return false;
+    }
+  }
+
+  /**
+   * The signed-in user's role in the loaded club, or null if not a member
+   */
+  get currentUserRole(): ClubRole | null {
+    const userId = authStore.user?.id;
+    return this.clubMembers.find((m) => m._id === userId)?.role || null;
+  }
+
+  // Clubs from before the review step have no status and count as approved
+  private isApproved = (club: Club): boolean => !club.approvalStatus || club.approvalStatus === "approved";
+
+  /**
+   * The user's clubs that can host sessions. My Clubs also lists the ones
+   * they created that are still in review or were rejected.
+   */
+  get approvedUserClubs(): Club[] {
+    return this.userClubs.filter(this.isApproved);
+  }
+
   setSearchQuery(query: string) {
     this.searchQuery = query;
   }
 
   getFilteredClubs(showUserClubs: boolean = false): Club[] {
-    const clubList = showUserClubs ? this.userClubs : this.clubs;
+    // The directory only lists approved clubs; My Clubs shows the user's own in any state
+    const clubList = showUserClubs ? this.userClubs : this.clubs.filter(this.isApproved);
 
     if (!this.searchQuery.trim()) {
       return clubList;
@@ -0,0 +1,305 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import axios from "axios";
+import { authStore } from "./AuthStore";
+
+export type LadderFormat = "singles" | "doubles";
+
+export const LADDER_FORMAT_LABELS: Record<LadderFormat, string> = {
+  singles: "Singles",
+  doubles: "Doubles",
+};
+
+export interface LadderPlayer {
+  _id: string;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface LadderEntry {
+  _id: string;
+  // 1 is the top of the ladder
+  position: number;
+  players: LadderPlayer[];
+  // Doubles teams can pick a name; singles use the player's name
+  name?: string;
+  joinedAt: string;
+}
+
+// open: waiting to be played before the deadline
+// forfeited: the defender didn't play in time and dropped below the challenger
+export type ChallengeStatus = "open" | "completed" | "forfeited" | "cancelled";
+
+export interface LadderChallenge {
+  _id: string;
+  challengerId: string; // entry ids
+  defenderId: string;
+  status: ChallengeStatus;
+  createdAt: string;
+  // Play by this time or the defender forfeits
+  deadline: string;
+  challengerScore?: number;
+  defenderScore?: number;
+  winnerId?: string;
+  completedAt?: string;
+}
+
+export interface Ladder {
+  _id: string;
+  name: string;
+  description?: string;
+  format: LadderFormat;
+  // How many positions above themselves an entry may challenge
+  challengeRange: number;
+  // Days a challenge has to be played in
+  challengeDays: number;
+  entries: LadderEntry[];
+  challenges: LadderChallenge[];
+  createdBy: string;
+  createdAt?: string;
+}
+
+export interface LadderFormData {
+  name: string;
+  description?: string;
+  format: LadderFormat;
+  challengeRange: number;
+  challengeDays: number;
+}
+
+// A user's place on one ladder, as shown on their profile
+export interface LadderStanding {
+  ladderId: string;
+  ladderName: string;
+  position: number;
+  size: number;
+}
+
+class LadderStore {
+  ladders: Ladder[] = [];
+  loading = false;
+  error: string | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  private setLoadingState = (loading: boolean, error: string | null = null) => {
+    this.loading = loading;
+    this.error = error;
+  };
+
+  private upsertLadder = (ladder: Ladder) => {
+    const index = this.ladders.findIndex((l) => l._id === ladder._id);
+    if (index !== -1) {
+      this.ladders[index] = ladder;
+    } else {
+      this.ladders.push(ladder);
+    }
+  };
+
+  getLadder(ladderId: string): Ladder | undefined {
+    return this.ladders.find((l) => l._id === ladderId);
+  }
+
+  isOrganizer(ladder: Ladder): boolean {
+    return authStore.isAdmin || ladder.createdBy === authStore.user?.id;
+  }
+
+  /**
+   * The entry the current user plays on, if they've joined
+   */
+  getMyEntry(ladder: Ladder): LadderEntry | undefined {
+    const userId = authStore.user?.id;
+    return ladder.entries.find((e) => e.players.some((p) => p._id === userId));
+  }
+
+  async fetchLadders(): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.get("/ladders");
+
+      runInAction(() => {
+        this.ladders = response.data;
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error fetching ladders:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to fetch ladders");
+      return false;
+    }
+  }
+
+  async fetchLadder(ladderId: string): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.get(`/ladders/${ladderId}`);
+
+      runInAction(() => {
+        this.upsertLadder(response.data);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error fetching ladder:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to fetch ladder");
+      return false;
+    }
+  }
+
+  async createLadder(data: LadderFormData): Promise<Ladder | null> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post("/ladders", data);
+
+      runInAction(() => {
+        this.upsertLadder(response.data);
+        this.setLoadingState(false);
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error("Error creating ladder:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to create ladder");
+      return null;
+    }
+  }
+
+  async deleteLadder(ladderId: string): Promise<boolean> {
+    try {
+      await axios.delete(`/ladders/${ladderId}`);
+
+      runInAction(() => {
+        this.ladders = this.ladders.filter((l) => l._id !== ladderId);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error deleting ladder:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to delete ladder";
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Every write returns the full ladder, so they all share one save path
+   */
+  private async saveLadder(
+    ladderId: string,
+    request: () => Promise<{ data: Ladder }>,
+    fallbackError: string
+  ): Promise<boolean> {
+    try {
+      const response = await request();
+
+      runInAction(() => {
+        this.upsertLadder(response.data);
+        this.error = null;
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error(`Error saving ladder ${ladderId}:`, error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || fallbackError;
+      });
+      return false;
+    }
+  }
+
+  async updateLadder(ladderId: string, data: Partial<LadderFormData>): Promise<boolean> {
+    return this.saveLadder(ladderId, () => axios.put(`/ladders/${ladderId}`, data), "Failed to update ladder");
+  }
+
+  /**
+   * New entries start at the bottom of the ladder
+   */
+  async joinLadder(ladderId: string, playerIds: string[], name?: string): Promise<boolean> {
+    return this.saveLadder(
+      ladderId,
+      () => axios.post(`/ladders/${ladderId}/entries`, { playerIds, name }),
+      "Failed to join ladder"
+    );
+  }
+
+  async removeEntry(ladderId: string, entryId: string): Promise<boolean> {
+    return this.saveLadder(
+      ladderId,
+      () => axios.delete(`/ladders/${ladderId}/entries/${entryId}`),
+      "Failed to leave ladder"
+    );
+  }
+
+  async issueChallenge(ladderId: string, challengerId: string, defenderId: string): Promise<boolean> {
+    return this.saveLadder(
+      ladderId,
+      () => axios.post(`/ladders/${ladderId}/challenges`, { challengerId, defenderId }),
+      "Failed to send challenge"
+    );
+  }
+
+  async cancelChallenge(ladderId: string, challengeId: string): Promise<boolean> {
+    return this.saveLadder(
+      ladderId,
+      () => axios.delete(`/ladders/${ladderId}/challenges/${challengeId}`),
+      "Failed to cancel challenge"
+    );
+  }
+
+  /**
+   * Records the result. The server reorders the ladder and returns it, so
+   * results reported at the same time can't overwrite each other's order.
+   */
+  async recordResult(
+    ladderId: string,
+    challenge: LadderChallenge,
+    challengerScore: number,
+    defenderScore: number
+  ): Promise<boolean> {
+    const winnerId = challengerScore > defenderScore ? challenge.challengerId : challenge.defenderId;
+
+    return this.saveLadder(
+      ladderId,
+      () =>
+        axios.put(`/ladders/${ladderId}/challenges/${challenge._id}`, {
+          status: "completed",
+          challengerScore,
+          defenderScore,
+          winnerId,
+        }),
+      "Failed to record result"
+    );
+  }
+
+  /**
+   * Settles an overdue challenge in the challenger's favour
+   */
+  async claimForfeit(ladderId: string, challengeId: string): Promise<boolean> {
+    return this.saveLadder(
+      ladderId,
+      () => axios.put(`/ladders/${ladderId}/challenges/${challengeId}`, { status: "forfeited" }),
+      "Failed to claim forfeit"
+    );
+  }
+
+  /**
+   * Live updates when anyone on the ladder challenges or reports a result
+   */
+  handleLadderUpdate(ladder: Ladder) {
+    this.upsertLadder(ladder);
+  }
+
+  getEntry(ladder: Ladder, entryId: string): LadderEntry | undefined {
+    return ladder.entries.find((e) => e._id === entryId);
+  }
+}
+
+export const ladderStore = new LadderStore();
+export default LadderStore;
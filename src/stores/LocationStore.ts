@@ -0,0 +1,87 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import type { LatLng } from "../utils/geoUtils";
+
+export type LocationSource = "device" | "manual";
+
+export interface UserLocation extends LatLng {
+  source: LocationSource;
+  label?: string;
+}
+
+const MANUAL_LOCATION_KEY = "manualLocation";
+
+class LocationStore {
+  location: UserLocation | null = null;
+  locating = false;
+  error: string | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+    this.restoreManualLocation();
+  }
+
+  private restoreManualLocation() {
+    try {
+      const stored = localStorage.getItem(MANUAL_LOCATION_KEY);
+      if (stored) this.location = { ...JSON.parse(stored), source: "manual" };
+    } catch {
+      localStorage.removeItem(MANUAL_LOCATION_KEY);
+    }
+  }
+
+  /**
+   * Asks the browser for the device position. Falls back to whatever manual
+   * location is set when permission is denied or lookup fails.
+   */
+  requestDeviceLocation(): Promise<boolean> {
+    if (!("geolocation" in navigator)) {
+      this.error = "Location isn't available in this browser. Set your location manually.";
+      return Promise.resolve(false);
+    }
+
+    this.locating = true;
+    this.error = null;
+
+    return new Promise((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          runInAction(() => {
+            this.location = {
+              latitude: position.coords.latitude,
+              longitude: position.coords.longitude,
+              source: "device",
+            };
+            this.locating = false;
+          });
+          resolve(true);
+        },
+        (error) => {
+          runInAction(() => {
+            this.error =
+              error.code === error.PERMISSION_DENIED
+                ? "Location permission was denied. Set your location manually."
+                : "Couldn't find your location. Set it manually.";
+            this.locating = false;
+          });
+          resolve(false);
+        },
+        { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+      );
+    });
+  }
+
+  setManualLocation(position: LatLng, label?: string) {
+    this.location = { ...position, label, source: "manual" };
+    this.error = null;
+    localStorage.setItem(MANUAL_LOCATION_KEY, JSON.stringify({ ...position, label }));
+  }
+
+  clearLocation() {
+    this.location = null;
+    this.error = null;
+    localStorage.removeItem(MANUAL_LOCATION_KEY);
+  }
+}
+
+export const locationStore = new LocationStore();
+export default LocationStore;
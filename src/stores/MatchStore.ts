@@ -0,0 +1,200 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import axios from "axios";
+import {
+  MatchType,
+  ScoringFormat,
+  validateGameScore,
+} from "../utils/matchUtils";
+
+export interface MatchPlayer {
+  _id: string;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface Match {
+  _id: string;
+  sessionId: string;
+  type: MatchType;
+  scoringFormat: ScoringFormat;
+  teamA: MatchPlayer[];
+  teamB: MatchPlayer[];
+  scoreA: number;
+  scoreB: number;
+  // Rating change per player id, computed by the server when the match is recorded
+  ratingChanges?: Record<string, number>;
+  recordedBy: string;
+  createdAt: string;
+}
+
+export interface PlayerRating {
+  userId: string;
+  rating: number;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+}
+
+export interface RecordMatchData {
+  sessionId: string;
+  type: MatchType;
+  scoringFormat: ScoringFormat;
+  teamA: string[];
+  teamB: string[];
+  scoreA: number;
+  scoreB: number;
+}
+
+class MatchStore {
+  matchesBySession: Record<string, Match[]> = {};
+  ratings: Record<string, PlayerRating> = {};
+  // Recent matches for the profile currently being viewed
+  playerMatches: Match[] = [];
+  loading = false;
+  error: string | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  private setLoadingState = (loading: boolean, error: string | null = null) => {
+    this.loading = loading;
+    this.error = error;
+  };
+
+  private storeRatings(ratings: PlayerRating[]) {
+    ratings.forEach((r) => {
+      this.ratings[r.userId] = r;
+    });
+  }
+
+  // ============================================
+  // Fetch Methods
+  // ============================================
+
+  async fetchSessionMatches(sessionId: string): Promise<void> {
+    try {
+      const response = await axios.get(`/sessions/${sessionId}/matches`);
+
+      runInAction(() => {
+        this.matchesBySession[sessionId] = response.data;
+      });
+    } catch (error) {
+      console.error("Error fetching matches:", error);
+    }
+  }
+
+  async fetchRatings(userIds: string[]): Promise<void> {
+    if (userIds.length === 0) return;
+
+    try {
+      const response = await axios.get(`/ratings?userIds=${userIds.join(",")}`);
+
+      runInAction(() => {
+        this.storeRatings(response.data);
+      });
+    } catch (error) {
+      console.error("Error fetching ratings:", error);
+    }
+  }
+
+  /**
+   * Loads a player's rating and recent matches for their profile
+   */
+  async fetchPlayerStats(userId: string): Promise<void> {
+    runInAction(() => {
+      this.playerMatches = [];
+    });
+
+    try {
+      const response = await axios.get(`/users/${userId}/rating`);
+
+      runInAction(() => {
+        if (response.data.rating) {
+          this.storeRatings([response.data.rating]);
+        }
+        this.playerMatches = response.data.recentMatches || [];
+      });
+    } catch (error) {
+      console.error("Error fetching player rating:", error);
+    }
+  }
+
+  // ============================================
+  // Recording
+  // ============================================
+
+  async recordMatch(data: RecordMatchData): Promise<boolean> {
+    const teamSize = data.type === "doubles" ? 2 : 1;
+    if (data.teamA.length !== teamSize || data.teamB.length !== teamSize) {
+      this.error = `Each side needs ${teamSize} player${teamSize > 1 ? "s" : ""}`;
+      return false;
+    }
+    if (new Set([...data.teamA, ...data.teamB]).size !== teamSize * 2) {
+      this.error = "A player can't be on both sides";
+      return false;
+    }
+    const scoreError = validateGameScore(data.scoreA, data.scoreB);
+    if (scoreError) {
+      this.error = scoreError;
+      return false;
+    }
+
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post("/matches", data);
+
+      runInAction(() => {
+        this.handleMatchRecorded(response.data.match, response.data.ratings || []);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error recording match:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to record match");
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Applies a recorded match locally; also used by the socket handler
+   */
+  handleMatchRecorded(match: Match, ratings: PlayerRating[]) {
+    const existing = this.matchesBySession[match.sessionId] || [];
+    if (!existing.some((m) => m._id === match._id)) {
+      this.matchesBySession[match.sessionId] = [match, ...existing];
+    }
+    this.storeRatings(ratings);
+  }
+
+  // ============================================
+  // Helper Methods
+  // ============================================
+
+  getRating(userId: string): number | undefined {
+    return this.ratings[userId]?.rating;
+  }
+
+  /**
+   * Known ratings for the given players, keyed by user id
+   */
+  getRatingMap(userIds: string[]): Record<string, number> {
+    const map: Record<string, number> = {};
+    userIds.forEach((id) => {
+      const rating = this.ratings[id]?.rating;
+      if (rating !== undefined) map[id] = rating;
+    });
+    return map;
+  }
+
+  clearError() {
+    this.error = null;
+  }
+}
+
+export const matchStore = new MatchStore();
+export default MatchStore;
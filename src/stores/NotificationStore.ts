@@ -0,0 +1,322 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import axios from "axios";
+import { sessionStore, Session } from "./SessionStore";
+import { formatTime, getSessionDateTime } from "../utils/sessionUtils";
+
+export type NotificationType = "session_reminder" | "waitlist_promoted" | "coach_assigned" | "admin_warning";
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  session_reminder: "Session reminder",
+  waitlist_promoted: "Waitlist",
+  coach_assigned: "Coaching",
+  admin_warning: "Account",
+};
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  // Set for events that may be delivered more than once, e.g. reminders
+  key?: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface NewNotification {
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  // Stable id for events that may be delivered more than once, e.g. reminders
+  key?: string;
+}
+
+// Reminders the user deleted, so later checks don't bring them back
+const DISMISSED_KEY_PREFIX = "notifications:dismissed:";
+const MAX_DISMISSED_KEYS = 200;
+// Remind players about sessions starting within this window
+const REMINDER_LEAD_HOURS = 24;
+const REMINDER_CHECK_INTERVAL = 15 * 60 * 1000;
+
+class NotificationStore {
+  notifications: AppNotification[] = [];
+  loading = false;
+  error: string | null = null;
+  private userId: string | null = null;
+  private dismissedKeys: string[] = [];
+  private reminderTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  get unreadCount(): number {
+    return this.notifications.filter((n) => !n.read).length;
+  }
+
+  private setLoadingState = (loading: boolean, error: string | null = null) => {
+    this.loading = loading;
+    this.error = error;
+  };
+
+  private get dismissedStorageKey(): string | null {
+    return this.userId ? `${DISMISSED_KEY_PREFIX}${this.userId}` : null;
+  }
+
+  private restoreDismissedKeys() {
+    try {
+      const stored = this.dismissedStorageKey ? localStorage.getItem(this.dismissedStorageKey) : null;
+      this.dismissedKeys = stored ? JSON.parse(stored) : [];
+    } catch {
+      this.dismissedKeys = [];
+      if (this.dismissedStorageKey) localStorage.removeItem(this.dismissedStorageKey);
+    }
+  }
+
+  private dismissKeys(keys: string[]) {
+    if (!this.dismissedStorageKey || keys.length === 0) return;
+
+    this.dismissedKeys = [...keys, ...this.dismissedKeys.filter((k) => !keys.includes(k))].slice(
+      0,
+      MAX_DISMISSED_KEYS
+    );
+    localStorage.setItem(this.dismissedStorageKey, JSON.stringify(this.dismissedKeys));
+  }
+
+  /**
+   * Adds or replaces a notification, newest first
+   */
+  private upsertNotification = (notification: AppNotification) => {
+    const others = this.notifications.filter((n) => n.id !== notification.id);
+    this.notifications = [notification, ...others].sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  };
+
+  /**
+   * Loads the signed-in user's notifications from the server and starts
+   * checking for upcoming sessions
+   */
+  load(userId: string) {
+    if (this.userId === userId) return;
+
+    this.userId = userId;
+    this.notifications = [];
+    this.restoreDismissedKeys();
+    this.fetchNotifications();
+    this.startReminders();
+  }
+
+  /**
+   * Notifications are stored on the server, so events sent while the user
+   * was offline are kept and read state is shared across devices
+   */
+  async fetchNotifications(): Promise<boolean> {
+    const userId = this.userId;
+    if (!userId) return false;
+
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.get("/notifications");
+
+      runInAction(() => {
+        // Signed out or switched accounts while the request was in flight
+        if (this.userId !== userId) return;
+        this.notifications = response.data;
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error fetching notifications:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to fetch notifications");
+      return false;
+    }
+  }
+
+  /**
+   * Creates a notification for the current user. The server returns the
+   * existing one when the key was already used, e.g. from another device.
+   */
+  private async notify(data: NewNotification): Promise<boolean> {
+    try {
+      const response = await axios.post("/notifications", data);
+
+      runInAction(() => {
+        this.upsertNotification(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error creating notification:", error);
+      return false;
+    }
+  }
+
+  async markRead(id: string): Promise<boolean> {
+    const notification = this.notifications.find((n) => n.id === id);
+    if (!notification || notification.read) return true;
+
+    notification.read = true;
+
+    try {
+      await axios.put(`/notifications/${id}/read`);
+      return true;
+    } catch (error: any) {
+      console.error("Error marking notification read:", error);
+      runInAction(() => {
+        notification.read = false;
+        this.error = error.response?.data?.error || "Failed to update notification";
+      });
+      return false;
+    }
+  }
+
+  async markAllRead(): Promise<boolean> {
+    const unread = this.notifications.filter((n) => !n.read);
+    unread.forEach((n) => {
+      n.read = true;
+    });
+
+    try {
+      await axios.put("/notifications/read");
+      return true;
+    } catch (error: any) {
+      console.error("Error marking notifications read:", error);
+      runInAction(() => {
+        unread.forEach((n) => {
+          n.read = false;
+        });
+        this.error = error.response?.data?.error || "Failed to update notifications";
+      });
+      return false;
+    }
+  }
+
+  async remove(id: string): Promise<boolean> {
+    try {
+      await axios.delete(`/notifications/${id}`);
+
+      runInAction(() => {
+        const removed = this.notifications.find((n) => n.id === id);
+        if (removed?.key) this.dismissKeys([removed.key]);
+        this.notifications = this.notifications.filter((n) => n.id !== id);
+        this.error = null;
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error deleting notification:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to delete notification";
+      });
+      return false;
+    }
+  }
+
+  async clearAll(): Promise<boolean> {
+    try {
+      await axios.delete("/notifications");
+
+      runInAction(() => {
+        this.dismissKeys(this.notifications.flatMap((n) => (n.key ? [n.key] : [])));
+        this.notifications = [];
+        this.error = null;
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error deleting notifications:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to delete notifications";
+      });
+      return false;
+    }
+  }
+
+  // ============================================
+  // Live Updates
+  // ============================================
+
+  /**
+   * New or changed notifications pushed by the server, including read
+   * state changed on another device
+   */
+  handleNotificationUpdate(notification: AppNotification) {
+    this.upsertNotification(notification);
+  }
+
+  handleNotificationDelete(id: string) {
+    this.notifications = this.notifications.filter((n) => n.id !== id);
+  }
+
+  /**
+   * Adds one reminder per upcoming session the user is attending. Reminders
+   * are keyed by session, so repeated checks don't duplicate them and ones
+   * the user deleted stay deleted.
+   */
+  async checkSessionReminders() {
+    const userId = this.userId;
+    if (!userId) return;
+
+    const sessions = await sessionStore.fetchMySessions();
+    // Signed out or switched accounts while the request was in flight
+    if (!sessions || this.userId !== userId) return;
+
+    const now = Date.now();
+    const horizon = now + REMINDER_LEAD_HOURS * 60 * 60 * 1000;
+
+    sessions
+      .filter((s) => s.status !== "cancelled" && s.attendees.some((a) => a._id === userId))
+      .forEach((session) => {
+        const start = getSessionDateTime(session, session.startTime).getTime();
+        if (start <= now || start > horizon) return;
+
+        const key = `session_reminder:${session._id}`;
+        if (this.dismissedKeys.includes(key) || this.notifications.some((n) => n.key === key)) return;
+
+        this.notify({
+          key,
+          type: "session_reminder",
+          title: "Upcoming session",
+          message: `Don't forget ${describeSession(session)} ${
+            new Date(start).toDateString() === new Date(now).toDateString() ? "today" : "tomorrow"
+          } at ${formatTime(session.startTime)}.`,
+          link: `/sessions/${session._id}`,
+        });
+      });
+  }
+
+  private startReminders() {
+    this.stopReminders();
+    this.checkSessionReminders();
+    this.reminderTimer = setInterval(() => this.checkSessionReminders(), REMINDER_CHECK_INTERVAL);
+  }
+
+  private stopReminders() {
+    if (this.reminderTimer) {
+      clearInterval(this.reminderTimer);
+      this.reminderTimer = null;
+    }
+  }
+
+  /**
+   * Drops the in-memory list on logout
+   */
+  clear() {
+    this.stopReminders();
+    this.userId = null;
+    this.dismissedKeys = [];
+    this.setLoadingState(false);
+    this.notifications = [];
+  }
+}
+
+const describeSession = (session: Session): string =>
+  session.title || `the session at ${session.venueId?.name || "the venue"}`;
+
+export const notificationStore = new NotificationStore();
+export default NotificationStore;
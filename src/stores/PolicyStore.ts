@@ -0,0 +1,186 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import axios from "axios";
+import { authStore } from "./AuthStore";
+import { getSessionDateTime } from "../utils/sessionUtils";
+import type { Session } from "./SessionStore";
+
+export type StrikeReason = "late_cancel" | "no_show";
+
+export interface AttendancePolicy {
+  lateCancelWindowHours: number; // Leaving closer than this to startTime is a strike
+  strikeLimit: number; // Strikes within the rolling window that trigger a cooldown
+  strikeWindowDays: number; // Rolling window a strike stays active for
+  cooldownDays: number; // How long sign-ups are blocked once the limit is hit
+}
+
+export interface Strike {
+  _id: string;
+  reason: StrikeReason;
+  sessionId?: string;
+  sessionTitle?: string;
+  createdAt: string;
+}
+
+export interface SignUpEvaluation {
+  allowed: boolean;
+  reason?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  lateCancelWindowHours: 12,
+  strikeLimit: 2,
+  strikeWindowDays: 30,
+  cooldownDays: 7,
+};
+
+class PolicyStore {
+  policy: AttendancePolicy = DEFAULT_ATTENDANCE_POLICY;
+  strikes: Strike[] = [];
+  loading = false;
+  error: string | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  private setLoadingState = (loading: boolean, error: string | null = null) => {
+    this.loading = loading;
+    this.error = error;
+  };
+
+  async fetchPolicy(): Promise<boolean> {
+    try {
+      const response = await axios.get("/policies/attendance");
+
+      runInAction(() => {
+        this.policy = { ...DEFAULT_ATTENDANCE_POLICY, ...response.data };
+      });
+
+      return true;
+    } catch (error) {
+      console.error("Error fetching attendance policy:", error);
+      return false;
+    }
+  }
+
+  async updatePolicy(updates: Partial<AttendancePolicy>): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.put("/policies/attendance", updates);
+
+      runInAction(() => {
+        this.policy = { ...DEFAULT_ATTENDANCE_POLICY, ...response.data };
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error updating attendance policy:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to update policy");
+      return false;
+    }
+  }
+
+  async fetchStrikes(): Promise<boolean> {
+    if (!authStore.isAuthenticated) return false;
+
+    try {
+      const response = await axios.get("/users/strikes");
+
+      runInAction(() => {
+        this.strikes = response.data;
+      });
+
+      return true;
+    } catch (error) {
+      console.error("Error fetching strikes:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Loads both the policy and the current user's strikes, which is
+   * everything needed to evaluate a sign-up.
+   */
+  async loadForCurrentUser(): Promise<void> {
+    await Promise.all([this.fetchPolicy(), this.fetchStrikes()]);
+  }
+
+  getStrikeExpiry(strike: Strike): Date {
+    return new Date(new Date(strike.createdAt).getTime() + this.policy.strikeWindowDays * DAY_MS);
+  }
+
+  // Strikes still inside the rolling window, oldest first
+  get activeStrikes(): Strike[] {
+    const now = Date.now();
+    return this.strikes
+      .filter((s) => this.getStrikeExpiry(s).getTime() > now)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  /**
+   * When the current cooldown ends, or null if sign-ups aren't blocked.
+   * The cooldown runs from the strike that reached the limit and lasts its
+   * full length even if older strikes age out of the window meanwhile.
+   * Strikes picked up during a cooldown don't extend it.
+   */
+  get cooldownUntil(): Date | null {
+    const { strikeLimit, strikeWindowDays, cooldownDays } = this.policy;
+    const times = this.strikes
+      .map((s) => new Date(s.createdAt).getTime())
+      .sort((a, b) => a - b);
+
+    let until: number | null = null;
+    times.forEach((time, index) => {
+      if (until !== null && time < until) return;
+
+      const inWindow = times.slice(0, index + 1).filter((t) => t > time - strikeWindowDays * DAY_MS);
+      if (inWindow.length >= strikeLimit) {
+        until = time + cooldownDays * DAY_MS;
+      }
+    });
+
+    return until !== null && until > Date.now() ? new Date(until) : null;
+  }
+
+  /**
+   * Checked before attendSession/attendVenue so players get a clear
+   * message instead of a server rejection.
+   */
+  evaluateSignUp(): SignUpEvaluation {
+    const until = this.cooldownUntil;
+    if (!until) return { allowed: true };
+
+    return {
+      allowed: false,
+      reason: `You've reached ${this.policy.strikeLimit} strikes in ${this.policy.strikeWindowDays} days. You can sign up again on ${until.toLocaleDateString("en-US", { month: "short", day: "numeric" })}.`,
+    };
+  }
+
+  /**
+   * Whether leaving this session now would count as a late cancellation.
+   */
+  isLateCancellation(session: Session): boolean {
+    const start = getSessionDateTime(session, session.startTime).getTime();
+    return start - Date.now() < this.policy.lateCancelWindowHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Confirmation text to show before a late cancellation, or null if
+   * leaving now carries no penalty.
+   */
+  getLateCancellationWarning(session: Session): string | null {
+    if (!this.isLateCancellation(session)) return null;
+    return `This session starts in less than ${this.policy.lateCancelWindowHours} hours. Leaving now counts as a strike (${this.activeStrikes.length + 1}/${this.policy.strikeLimit}). Leave anyway?`;
+  }
+
+  clearStrikes(): void {
+    this.strikes = [];
+  }
+}
+
+export const policyStore = new PolicyStore();
+export default PolicyStore;
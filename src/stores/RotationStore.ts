@@ -0,0 +1,179 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import axios from "axios";
+import type { Session } from "./SessionStore";
+import type { RotationRound } from "../utils/courtRotation";
+
+export interface SessionRotation {
+  sessionId: string;
+  courtCount: number;
+  // Index into rounds of the round being played; rounds[currentRound + 1] is "up next"
+  currentRound: number;
+  rounds: RotationRound[];
+  // Bumped by the server on every change
+  revision?: number;
+  updatedAt?: string;
+}
+
+class RotationStore {
+  rotations: Record<string, SessionRotation> = {};
+  loading = false;
+  error: string | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  private setLoadingState = (loading: boolean, error: string | null = null) => {
+    this.loading = loading;
+    this.error = error;
+  };
+
+  /**
+   * Players eligible for the rotation: attendees not marked as no-shows.
+   */
+  getRotationPlayers(session: Session): string[] {
+    const noShows = new Set(
+      (session.checkIns || []).filter((c) => c.status === "no_show").map((c) => c.userId)
+    );
+    return session.attendees.map((a) => a._id).filter((id) => !noShows.has(id));
+  }
+
+  async fetchRotation(sessionId: string): Promise<boolean> {
+    try {
+      const response = await axios.get(`/sessions/${sessionId}/rotation`);
+
+      runInAction(() => {
+        if (response.data) {
+          this.upsertRotation(response.data);
+        }
+      });
+
+      return true;
+    } catch (error: any) {
+      // No rotation started yet
+      if (error.response?.status === 404) return true;
+      console.error("Error fetching rotation:", error);
+      return false;
+    }
+  }
+
+  /**
+   * A socket update can arrive after the response to a later write, so older
+   * revisions are ignored
+   */
+  private upsertRotation = (rotation: SessionRotation) => {
+    const current = this.rotations[rotation.sessionId]?.revision;
+    if (current !== undefined && rotation.revision !== undefined && rotation.revision < current) return;
+    this.rotations[rotation.sessionId] = rotation;
+  };
+
+  /**
+   * The server builds every round from the current roster and history, and
+   * each write carries the revision it was made against so a coach and an
+   * admin acting on the same board can't overwrite each other's rounds
+   */
+  private async saveRotation(
+    sessionId: string,
+    request: () => Promise<{ data: SessionRotation }>,
+    fallbackError: string
+  ): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await request();
+
+      runInAction(() => {
+        this.upsertRotation(response.data);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error saving rotation:", error);
+      // Someone else moved the board on first; show their version
+      const stale = error.response?.status === 409;
+      if (stale) this.fetchRotation(sessionId);
+      this.setLoadingState(
+        false,
+        stale
+          ? "Someone else updated the rotation. It's been reloaded, so check it and try again."
+          : error.response?.data?.error || fallbackError
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Starts a rotation with the first round on court and the second queued.
+   */
+  async startRotation(sessionId: string, courtCount: number): Promise<boolean> {
+    return this.saveRotation(
+      sessionId,
+      () => axios.post(`/sessions/${sessionId}/rotation`, { courtCount }),
+      "Failed to start rotation"
+    );
+  }
+
+  /**
+   * Moves "up next" onto the courts and queues a fresh round built from the
+   * current roster, so late arrivals join the next queue automatically.
+   */
+  async advanceRound(sessionId: string): Promise<boolean> {
+    const rotation = this.rotations[sessionId];
+    if (!rotation) return false;
+
+    return this.saveRotation(
+      sessionId,
+      () => axios.post(`/sessions/${sessionId}/rotation/advance`, { revision: rotation.revision }),
+      "Failed to start the next round"
+    );
+  }
+
+  /**
+   * Rebuilds the queued round, e.g. after someone leaves or the court count changes.
+   */
+  async reshuffleNext(sessionId: string, courtCount?: number): Promise<boolean> {
+    const rotation = this.rotations[sessionId];
+    if (!rotation) return false;
+
+    return this.saveRotation(
+      sessionId,
+      () =>
+        axios.post(`/sessions/${sessionId}/rotation/reshuffle`, {
+          courtCount: courtCount ?? rotation.courtCount,
+          revision: rotation.revision,
+        }),
+      "Failed to reshuffle the next round"
+    );
+  }
+
+  /**
+   * Live updates from the board being changed on another device
+   */
+  handleRotationUpdate(sessionId: string, rotation: SessionRotation | null) {
+    if (rotation) {
+      this.upsertRotation(rotation);
+    } else {
+      delete this.rotations[sessionId];
+    }
+  }
+
+  async endRotation(sessionId: string): Promise<boolean> {
+    try {
+      await axios.delete(`/sessions/${sessionId}/rotation`);
+
+      runInAction(() => {
+        delete this.rotations[sessionId];
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error ending rotation:", error);
+      this.error = error.response?.data?.error || "Failed to end rotation";
+      return false;
+    }
+  }
+}
+
+export const rotationStore = new RotationStore();
+export default RotationStore;
@@ -2,9 +2,45 @@ import { makeAutoObservable, runInAction } from "mobx";
 import axios from "axios";
 import { authStore } from "./AuthStore";
 import { userStore, UserRole, CoachProfile } from "./UserStore";
+import { policyStore } from "./PolicyStore";
+import { clubStore } from "./ClubStore";
+import { findConflicts } from "../utils/conflictUtils";
+import { canJoinClubSession } from "../utils/sessionUtils";
+import { toDateInput } from "../utils/recurrenceUtils";
 
 export type SessionStatus = "open" | "full" | "cancelled";
 
+export type RecurrenceFrequency = "weekly" | "biweekly";
+
+// Which occurrences of a series an edit or cancellation applies to
+export type SeriesScope = "this" | "future";
+
+export type AttendanceStatus = "present" | "no_show";
+
+export interface SessionCheckIn {
+  userId: string;
+  status: AttendanceStatus;
+  checkedInAt?: string;
+  selfCheckIn?: boolean;
+}
+
+export interface AttendanceRecord {
+  sessionId: string;
+  title?: string;
+  venueName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  status: AttendanceStatus | "unmarked";
+}
+
+export interface SessionRecurrence {
+  frequency: RecurrenceFrequency;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  endDate?: string;
+  occurrences?: number;
+}
+
 export interface SessionAttendee {
   _id: string;
   displayName: string | null;
@@ -19,6 +55,8 @@ export interface SessionVenue {
   name: string;
   photoURL?: string;
   status: string;
+  latitude?: number;
+  longitude?: number;
 }
 
 export interface SessionCoach {
@@ -29,6 +67,12 @@ export interface SessionCoach {
   coachProfile?: CoachProfile;
 }
 
+export interface SessionClub {
+  _id: string;
+  name: string;
+  logo?: string;
+}
+
 export interface Session {
   _id: string;
   venueId: SessionVenue;
@@ -38,9 +82,21 @@ export interface Session {
   coachId: SessionCoach | null;
   maxPlayers: number;
   attendees: SessionAttendee[];
+  waitlist?: SessionAttendee[];
+  checkIns?: SessionCheckIn[];
   status: SessionStatus;
   title?: string;
   description?: string;
+  seriesId?: string | null;
+  recurrence?: SessionRecurrence | null;
+  // Reserved courts at the venue; empty or missing means the whole venue
+  courtIds?: string[];
+  // Hosting club, if any
+  clubId?: SessionClub | null;
+  // Only members of the hosting club may attend, and it stays off public listings
+  membersOnly?: boolean;
+  // Bumped by the server on every update
+  revision?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -54,13 +110,46 @@ export interface CreateSessionData {
   maxPlayers?: number;
   title?: string;
   description?: string;
+  recurrence?: SessionRecurrence;
+  courtIds?: string[];
+  clubId?: string;
+  membersOnly?: boolean;
+}
+
+export interface SessionDetailError {
+  message: string;
+  notFound: boolean;
+}
+
+export interface WaitlistPromotion {
+  sessionId: string;
+  session: Session;
 }
 
 class SessionStore {
   sessions: Session[] = [];
+  // Sessions opened on their own page, kept out of the listing above
+  sessionDetails: Record<string, Session> = {};
+  sessionDetailErrors: Record<string, SessionDetailError> = {};
+  // Visible range of the session calendar
+  calendarSessions: Session[] = [];
+  calendarLoading = false;
+  calendarError: string | null = null;
+  // Upcoming sessions hosted by each club, keyed by club id
+  clubSessions: Record<string, Session[]> = {};
   loading = false;
   error: string | null = null;
+  // Set when the current user is moved off a waitlist into a session
+  waitlistPromotion: WaitlistPromotion | null = null;
+  // Current user's check-in history across past sessions
+  attendanceHistory: AttendanceRecord[] = [];
+  attendanceLoading = false;
+  // Everything the current user is attending, waitlisted for or coaching
+  mySessions: Session[] = [];
+  // Private webcal feed for the current user's sessions
+  calendarFeedUrl: string | null = null;
   private fetchInProgress = false;
+  private calendarRequestId = 0;
 
   constructor() {
     makeAutoObservable(this);
@@ -75,6 +164,44 @@ class SessionStore {
     this.error = error;
   }
 
+  /**
+   * Replaces every loaded copy of a session: the listing, the calendar, the
+   * club lists and the detail slot.
+   */
+  private updateSessionInList(updatedSession: Session) {
+    [this.sessions, this.calendarSessions, ...Object.values(this.clubSessions)].forEach((list) => {
+      const index = list.findIndex((s) => s._id === updatedSession._id);
+      if (index !== -1) {
+        list[index] = updatedSession;
+      }
+    });
+    if (this.sessionDetails[updatedSession._id]) {
+      this.sessionDetails[updatedSession._id] = updatedSession;
+    }
+  }
+
+  private removeSessionFromList(sessionId: string) {
+    this.sessions = this.sessions.filter((s) => s._id !== sessionId);
+    this.calendarSessions = this.calendarSessions.filter((s) => s._id !== sessionId);
+    Object.keys(this.clubSessions).forEach((clubId) => {
+      this.clubSessions[clubId] = this.clubSessions[clubId].filter((s) => s._id !== sessionId);
+    });
+    delete this.sessionDetails[sessionId];
+  }
+
+  private findSessionCopies(sessionId: string): Session[] {
+    return [
+      this.sessions.find((s) => s._id === sessionId),
+      this.calendarSessions.find((s) => s._id === sessionId),
+      ...Object.values(this.clubSessions).map((list) => list.find((s) => s._id === sessionId)),
+      this.sessionDetails[sessionId],
+    ].filter((s): s is Session => Boolean(s));
+  }
+
+  private findSession(sessionId: string): Session | undefined {
+    return this.findSessionCopies(sessionId)[0];
+  }
+
   // ============================================
   // Fetch Methods
   // ============================================
@@ -114,6 +241,96 @@ class SessionStore {
     }
   }
 
+  /**
+   * Loads the calendar's visible range into its own list. Only the latest
+   * request is applied, so paging quickly through months can't leave an
+   * older range on screen.
+   */
+  async fetchCalendarSessions(from: string, to: string): Promise<void> {
+    const requestId = ++this.calendarRequestId;
+    this.calendarLoading = true;
+    this.calendarError = null;
+
+    try {
+      const response = await axios.get(`/sessions?from=${from}&to=${to}`);
+      if (requestId !== this.calendarRequestId) return;
+
+      runInAction(() => {
+        this.calendarSessions = response.data;
+        this.calendarLoading = false;
+      });
+    } catch (error: any) {
+      if (requestId !== this.calendarRequestId) return;
+      console.error("Error fetching calendar sessions:", error);
+      runInAction(() => {
+        this.calendarLoading = false;
+        this.calendarError = error.response?.data?.error || "Failed to fetch sessions";
+      });
+    }
+  }
+
+  /**
+   * Loads a club's upcoming sessions into that club's own list.
+   */
+  async fetchClubSessions(clubId: string): Promise<boolean> {
+    try {
+      const response = await axios.get(`/sessions?clubId=${clubId}&from=${toDateInput(new Date())}`);
+
+      runInAction(() => {
+        this.clubSessions[clubId] = response.data;
+      });
+
+      return true;
+    } catch (error) {
+      console.error("Error fetching club sessions:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Loads a single session into its detail slot. The listing is left alone,
+   * and failures are recorded per session so a missing session can be told
+   * apart from one that failed to load.
+   */
+  async fetchSessionById(sessionId: string): Promise<Session | null> {
+    try {
+      const response = await axios.get(`/sessions/${sessionId}`);
+
+      runInAction(() => {
+        this.sessionDetails[sessionId] = response.data;
+        this.updateSessionInList(response.data);
+        delete this.sessionDetailErrors[sessionId];
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error("Error fetching session:", error);
+      runInAction(() => {
+        this.sessionDetailErrors[sessionId] = {
+          message: error.response?.data?.error || "Failed to fetch session",
+          notFound: error.response?.status === 404,
+        };
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Sessions in an inclusive "YYYY-MM-DD" range, returned without touching
+   * the shared list. Used for conflict checks while filling in a form.
+   * Returns null if the range couldn't be loaded, so callers don't mistake
+   * a failed check for a free schedule.
+   */
+  async fetchSessionsBetween(from: string, to: string): Promise<Session[] | null> {
+    try {
+      const response = await axios.get(`/sessions?from=${from}&to=${to}`);
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching sessions for range:", error);
+      return null;
+    }
+  }
+
   async fetchSessionsByVenue(venueId: string, date?: string): Promise<void> {
     this.setLoadingState(true);
 
@@ -176,6 +393,31 @@ class SessionStore {
     }
   }
 
+  /**
+   * Creates every occurrence of a recurring series in one request.
+   * `data.date` is the first eligible date of the series.
+   */
+  async createSessionSeries(data: CreateSessionData & { recurrence: SessionRecurrence }): Promise<Session[] | null> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post("/sessions/series", data);
+
+      runInAction(() => {
+        this.sessions.unshift(...response.data);
+        this.setLoadingState(false);
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error("Error creating session series:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to create session series");
+      });
+      return null;
+    }
+  }
+
   async updateSession(sessionId: string, updates: Partial<CreateSessionData>): Promise<boolean> {
     this.setLoadingState(true);
 
@@ -183,10 +425,7 @@ class SessionStore {
       const response = await axios.put(`/sessions/${sessionId}`, updates);
 
       runInAction(() => {
-        const index = this.sessions.findIndex((s) => s._id === sessionId);
-        if (index !== -1) {
-          this.sessions[index] = response.data;
-        }
+        this.updateSessionInList(response.data);
         this.setLoadingState(false);
       });
 
@@ -207,7 +446,7 @@ class SessionStore {
       await axios.delete(`/sessions/${sessionId}`);
 
       runInAction(() => {
-        this.sessions = this.sessions.filter((s) => s._id !== sessionId);
+        this.removeSessionFromList(sessionId);
         this.setLoadingState(false);
       });
 
@@ -221,21 +460,83 @@ class SessionStore {
     }
   }
 
+  /**
+   * Updates one occurrence of a series, or it and every later occurrence.
+   */
+  async updateSeriesSessions(
+    sessionId: string,
+    updates: Partial<CreateSessionData>,
+    scope: SeriesScope
+  ): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.put(`/sessions/${sessionId}/series`, { ...updates, scope });
+
+      runInAction(() => {
+        response.data.forEach((session: Session) => this.updateSessionInList(session));
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error updating session series:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to update sessions");
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Cancels one occurrence of a series, or it and every later occurrence.
+   * Cancelled sessions stay in the list with status "cancelled".
+   */
+  async cancelSeriesSessions(sessionId: string, scope: SeriesScope): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post(`/sessions/${sessionId}/series/cancel`, { scope });
+
+      runInAction(() => {
+        response.data.forEach((session: Session) => this.updateSessionInList(session));
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error cancelling session series:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to cancel sessions");
+      });
+      return false;
+    }
+  }
+
   // ============================================
   // Attendance Methods
   // ============================================
 
   async attendSession(sessionId: string): Promise<boolean> {
+    const session = this.getSessionById(sessionId);
+    if (session && !canJoinClubSession(session, clubStore.userClubs)) {
+      this.error = `This session is for ${session.clubId?.name || "club"} members only.`;
+      return false;
+    }
+
+    const evaluation = policyStore.evaluateSignUp();
+    if (!evaluation.allowed) {
+      this.error = evaluation.reason || "You can't sign up right now.";
+      return false;
+    }
+
     this.setLoadingState(true);
 
     try {
       const response = await axios.post(`/sessions/${sessionId}/attend`);
 
       runInAction(() => {
-        const index = this.sessions.findIndex((s) => s._id === sessionId);
-        if (index !== -1) {
-          this.sessions[index] = response.data;
-        }
+        this.updateSessionInList(response.data);
         this.setLoadingState(false);
       });
 
@@ -249,20 +550,29 @@ class SessionStore {
     }
   }
 
+  /**
+   * Leaves a session. If the session was full, the server promotes the first
+   * waitlisted player and the returned session already reflects that.
+   */
   async leaveSession(sessionId: string): Promise<boolean> {
+    const session = this.getSessionById(sessionId);
+    const isLate = session ? policyStore.isLateCancellation(session) : false;
+
     this.setLoadingState(true);
 
     try {
       const response = await axios.post(`/sessions/${sessionId}/leave`);
 
       runInAction(() => {
-        const index = this.sessions.findIndex((s) => s._id === sessionId);
-        if (index !== -1) {
-          this.sessions[index] = response.data;
-        }
+        this.updateSessionInList(response.data);
         this.setLoadingState(false);
       });
 
+      // The server records a strike for late cancellations
+      if (isLate) {
+        policyStore.fetchStrikes();
+      }
+
       return true;
     } catch (error: any) {
       console.error("Error leaving session:", error);
@@ -273,21 +583,248 @@ class SessionStore {
     }
   }
 
+  // ============================================
+  // Check-in Methods
+  // ============================================
+
+  /**
+   * Self check-in for the current user. Only accepted inside the check-in
+   * window around the session start time.
+   */
+  async checkIn(sessionId: string): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post(`/sessions/${sessionId}/check-in`);
+
+      runInAction(() => {
+        this.updateSessionInList(response.data);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error checking in:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to check in");
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Coach/admin marks an attendee present or as a no-show from the roster.
+   */
+  async markAttendance(sessionId: string, userId: string, status: AttendanceStatus): Promise<boolean> {
+    try {
+      const response = await axios.post(`/sessions/${sessionId}/attendance`, { userId, status });
+
+      runInAction(() => {
+        this.updateSessionInList(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error marking attendance:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to mark attendance";
+      });
+      return false;
+    }
+  }
+
+  async fetchAttendanceHistory(): Promise<void> {
+    this.attendanceLoading = true;
+
+    try {
+      const response = await axios.get("/sessions/attendance/me");
+
+      runInAction(() => {
+        this.attendanceHistory = response.data;
+        this.attendanceLoading = false;
+      });
+    } catch (error) {
+      console.error("Error fetching attendance history:", error);
+      runInAction(() => {
+        this.attendanceHistory = [];
+        this.attendanceLoading = false;
+      });
+    }
+  }
+
+  // ============================================
+  // Calendar Export Methods
+  // ============================================
+
+  /**
+   * The current user's sessions, or null if they couldn't be loaded.
+   */
+  async fetchMySessions(): Promise<Session[] | null> {
+    try {
+      const response = await axios.get("/sessions/me");
+
+      runInAction(() => {
+        this.mySessions = response.data;
+      });
+
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching my sessions:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the current user's calendar subscription URL. Passing regenerate
+   * invalidates the old link, e.g. after it was shared by mistake.
+   */
+  async fetchCalendarFeedUrl(regenerate = false): Promise<string | null> {
+    try {
+      const response = regenerate
+        ? await axios.post("/users/calendar-feed")
+        : await axios.get("/users/calendar-feed");
+
+      runInAction(() => {
+        this.calendarFeedUrl = response.data.url;
+      });
+
+      return response.data.url;
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      return null;
+    }
+  }
+
+  // ============================================
+  // Waitlist Methods
+  // ============================================
+
+  async joinWaitlist(sessionId: string): Promise<boolean> {
+    const session = this.getSessionById(sessionId);
+    if (session && !canJoinClubSession(session, clubStore.userClubs)) {
+      this.error = `This session is for ${session.clubId?.name || "club"} members only.`;
+      return false;
+    }
+
+    // Waitlisted players are promoted into the session automatically, so the
+    // same sign-up policy applies here
+    const evaluation = policyStore.evaluateSignUp();
+    if (!evaluation.allowed) {
+      this.error = evaluation.reason || "You can't sign up right now.";
+      return false;
+    }
+
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post(`/sessions/${sessionId}/waitlist`);
+
+      runInAction(() => {
+        this.updateSessionInList(response.data);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error joining waitlist:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to join waitlist");
+      });
+      return false;
+    }
+  }
+
+  async leaveWaitlist(sessionId: string): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.delete(`/sessions/${sessionId}/waitlist`);
+
+      runInAction(() => {
+        this.updateSessionInList(response.data);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error leaving waitlist:", error);
+      runInAction(() => {
+        this.setLoadingState(false, error.response?.data?.error || "Failed to leave waitlist");
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Applies a waitlist promotion pushed over the socket. The session is
+   * patched in place and kept around so the UI can tell the player.
+   */
+  handleWaitlistPromotion(session: Session): void {
+    this.updateSessionInList(session);
+    this.waitlistPromotion = { sessionId: session._id, session };
+  }
+
+  /**
+   * Applies session changes pushed over the socket to every loaded copy.
+   */
+  handleSessionUpdate(session: Session): void {
+    this.updateSessionInList(session);
+  }
+
+  handleSessionDelete(sessionId: string): void {
+    this.removeSessionFromList(sessionId);
+  }
+
+  handleAttendeesUpdate(
+    sessionId: string,
+    { attendees, waitlist, status }: Pick<Session, "attendees"> & Partial<Pick<Session, "waitlist" | "status">>
+  ): void {
+    this.findSessionCopies(sessionId).forEach((session) => {
+      session.attendees = attendees;
+      if (waitlist) session.waitlist = waitlist;
+      if (status) session.status = status;
+    });
+  }
+
+  dismissWaitlistPromotion(): void {
+    this.waitlistPromotion = null;
+  }
+
   // ============================================
   // Coach Methods
   // ============================================
 
   async assignCoach(sessionId: string, coachId: string | null): Promise<boolean> {
+    const session = this.getSessionById(sessionId);
+    if (session && coachId) {
+      const date = toDateInput(new Date(session.date));
+      const coachSessions = await this.fetchSessionsBetween(date, date);
+      if (!coachSessions) {
+        runInAction(() => {
+          this.error = "Couldn't check the coach's schedule. Please try again.";
+        });
+        return false;
+      }
+      const [conflict] = findConflicts(
+        { date, startTime: session.startTime, endTime: session.endTime, coachId },
+        coachSessions,
+        sessionId
+      );
+      if (conflict) {
+        runInAction(() => {
+          this.error = `Coach is already booked for ${conflict.session.title || "a session"} at ${conflict.session.venueId?.name || "another venue"} (${conflict.session.startTime}-${conflict.session.endTime})`;
+        });
+        return false;
+      }
+    }
+
     this.setLoadingState(true);
 
     try {
       const response = await axios.post(`/sessions/${sessionId}/assign-coach`, { coachId });
 
       runInAction(() => {
-        const index = this.sessions.findIndex((s) => s._id === sessionId);
-        if (index !== -1) {
-          this.sessions[index] = response.data;
-        }
+        this.updateSessionInList(response.data);
         this.setLoadingState(false);
       });
 
@@ -309,12 +846,37 @@ class SessionStore {
     const userId = this.getCurrentUserId();
     if (!userId) return false;
 
-    const session = this.sessions.find((s) => s._id === sessionId);
+    const session = this.findSession(sessionId);
     return session?.attendees.some((a) => a._id === userId) || false;
   }
 
+  isUserOnWaitlist(sessionId: string): boolean {
+    return this.getWaitlistPosition(sessionId) !== null;
+  }
+
+  /**
+   * Returns the current user's 1-based position on the session waitlist,
+   * or null if they are not waitlisted.
+   */
+  getWaitlistPosition(sessionId: string): number | null {
+    const userId = this.getCurrentUserId();
+    if (!userId) return null;
+
+    const session = this.findSession(sessionId);
+    const index = session?.waitlist?.findIndex((a) => a._id === userId) ?? -1;
+    return index === -1 ? null : index + 1;
+  }
+
+  getCheckIn(sessionId: string, userId?: string): SessionCheckIn | undefined {
+    const targetId = userId || this.getCurrentUserId();
+    if (!targetId) return undefined;
+
+    const session = this.findSession(sessionId);
+    return session?.checkIns?.find((c) => c.userId === targetId);
+  }
+
   getSessionById(sessionId: string): Session | undefined {
-    return this.sessions.find((s) => s._id === sessionId);
+    return this.findSession(sessionId);
   }
 
   getSessionsByVenueId(venueId: string): Session[] {
@@ -329,7 +891,16 @@ class SessionStore {
   clearSessions(): void {
     runInAction(() => {
       this.sessions = [];
+      this.sessionDetails = {};
+      this.sessionDetailErrors = {};
+      this.calendarSessions = [];
+      this.calendarError = null;
+      this.clubSessions = {};
       this.error = null;
+      this.waitlistPromotion = null;
+      this.attendanceHistory = [];
+      this.mySessions = [];
+      this.calendarFeedUrl = null;
     });
   }
 }
@@ -4,6 +4,13 @@ import { authStore } from "./AuthStore";
 import { venueStore } from "./VenueStore";
 import { SOCKET_URL } from "../config/env";
 import { clubStore } from "./ClubStore";
+import { sessionStore } from "./SessionStore";
+import { rotationStore } from "./RotationStore";
+import { matchStore } from "./MatchStore";
+import { announcementStore } from "./AnnouncementStore";
+import { tournamentStore } from "./TournamentStore";
+import { ladderStore } from "./LadderStore";
+import { notificationStore } from "./NotificationStore";
 
 class SocketStore {
   socket: Socket | null = null;
@@ -47,6 +54,8 @@ class SocketStore {
         this.connected = true;
         this.connectionAttempted = false;
       });
+      // Pick up notifications sent while the connection was down
+      notificationStore.fetchNotifications();
     });
 
     this.socket.on("connect_error", (error) => {
@@ -94,8 +103,7 @@ class SocketStore {
             authStore.checkSession();
             break;
           case "warning":
-            // Show warning
-            alert(`Account notification: ${data.message}`);
+            // The server keeps the warning as a notification and sends it as notification:new
             break;
           case "delete":
             // Handle account deletion with more aggressive approach
@@ -171,9 +179,7 @@ class SocketStore {
 
     this.socket.on("venue:update", (venue) => {
       runInAction(() => {
-        venueStore.venues = venueStore.venues.map((v) =>
-          v.id === venue.id ? venue : v
-        );
+        venueStore.handleVenueUpdate(venue);
       });
     });
 
@@ -217,6 +223,102 @@ class SocketStore {
         clubStore.selectedClubs = clubStore.selectedClubs.filter(id => id !== clubId);
       });
     });
+
+    this.socket.on("club:announcement", (announcement) => {
+      runInAction(() => {
+        announcementStore.handleAnnouncement(announcement);
+      });
+    });
+
+    this.socket.on("club:announcement:delete", (data) => {
+      const { clubId, announcementId } = data;
+      runInAction(() => {
+        announcementStore.removeAnnouncement(clubId, announcementId);
+      });
+    });
+
+    this.socket.on("session:update", (session) => {
+      runInAction(() => {
+        sessionStore.handleSessionUpdate(session);
+      });
+    });
+
+    this.socket.on("session:create", (session) => {
+      runInAction(() => {
+        // Our own creates are already in the list from the API response
+        if (!sessionStore.sessions.some((s) => s._id === session._id)) {
+          sessionStore.sessions.unshift(session);
+        }
+      });
+    });
+
+    this.socket.on("session:delete", (sessionId) => {
+      runInAction(() => {
+        sessionStore.handleSessionDelete(sessionId);
+      });
+    });
+
+    this.socket.on("session:attendees:update", (data) => {
+      const { sessionId, attendees, waitlist, status } = data;
+      runInAction(() => {
+        sessionStore.handleAttendeesUpdate(sessionId, { attendees, waitlist, status });
+      });
+    });
+
+    this.socket.on("session:rotation:update", (data) => {
+      const { sessionId, rotation } = data;
+      runInAction(() => {
+        rotationStore.handleRotationUpdate(sessionId, rotation);
+      });
+    });
+
+    this.socket.on("match:recorded", (data) => {
+      const { match, ratings } = data;
+      runInAction(() => {
+        matchStore.handleMatchRecorded(match, ratings || []);
+      });
+    });
+
+    this.socket.on("tournament:update", (tournament) => {
+      runInAction(() => {
+        tournamentStore.handleTournamentUpdate(tournament);
+      });
+    });
+
+    this.socket.on("ladder:update", (ladder) => {
+      runInAction(() => {
+        ladderStore.handleLadderUpdate(ladder);
+      });
+    });
+
+    this.socket.on("session:waitlist:promoted", (data) => {
+      console.log("Socket: Received waitlist promotion", data);
+      // Only the promoted player gets notified
+      if (authStore.user && data.userId === authStore.user.id) {
+        runInAction(() => {
+          sessionStore.handleWaitlistPromotion(data.session);
+        });
+      }
+    });
+
+    // Notifications are only sent to the user they belong to
+    this.socket.on("notification:new", (notification) => {
+      runInAction(() => {
+        notificationStore.handleNotificationUpdate(notification);
+      });
+    });
+
+    this.socket.on("notification:update", (notification) => {
+      runInAction(() => {
+        notificationStore.handleNotificationUpdate(notification);
+      });
+    });
+
+    this.socket.on("notification:delete", (notificationId) => {
+      runInAction(() => {
+        notificationStore.handleNotificationDelete(notificationId);
+      });
+    });
   }
 
   @action
@@ -247,6 +349,78 @@ class SocketStore {
       this.socket.emit("leave:venue", venueId);
     }
   }
+
+  @action
+  joinClub(clubId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Joining club", clubId);
+      this.socket.emit("join:club", clubId);
+    } else {
+      console.warn("Socket: Cannot join club, not connected");
+    }
+  }
+
+  @action
+  leaveClub(clubId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Leaving club", clubId);
+      this.socket.emit("leave:club", clubId);
+    }
+  }
+
+  @action
+  joinTournament(tournamentId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Joining tournament", tournamentId);
+      this.socket.emit("join:tournament", tournamentId);
+    } else {
+      console.warn("Socket: Cannot join tournament, not connected");
+    }
+  }
+
+  @action
+  leaveTournament(tournamentId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Leaving tournament", tournamentId);
+      this.socket.emit("leave:tournament", tournamentId);
+    }
+  }
+
+  @action
+  joinLadder(ladderId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Joining ladder", ladderId);
+      this.socket.emit("join:ladder", ladderId);
+    } else {
+      console.warn("Socket: Cannot join ladder, not connected");
+    }
+  }
+
+  @action
+  leaveLadder(ladderId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Leaving ladder", ladderId);
+      this.socket.emit("leave:ladder", ladderId);
+    }
+  }
+
+  @action
+  joinSession(sessionId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Joining session", sessionId);
+      this.socket.emit("join:session", sessionId);
+    } else {
+      console.warn("Socket: Cannot join session, not connected");
+    }
+  }
+
+  @action
+  leaveSession(sessionId: string) {
+    if (this.socket && this.connected) {
+      console.log("Socket: Leaving session", sessionId);
+      this.socket.emit("leave:session", sessionId);
+    }
+  }
 }
 
 export const socketStore = new SocketStore();
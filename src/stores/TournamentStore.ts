@@ -0,0 +1,456 @@
+import { makeAutoObservable, runInAction } from "mobx";
+import axios from "axios";
+import { authStore } from "./AuthStore";
+import { matchStore } from "./MatchStore";
+import { Session, sessionStore } from "./SessionStore";
+import { Venue, venueStore } from "./VenueStore";
+import {
+  assignSchedule,
+  autoSeed,
+  buildDoubleElimination,
+  buildRoundRobin,
+  buildSingleElimination,
+  countUnscheduled,
+  getCourtUnavailableReason,
+  MAX_SCHEDULE_DAYS,
+  ScheduleOptions,
+} from "../utils/bracketUtils";
+import { toDateInput } from "../utils/recurrenceUtils";
+
+export type TournamentFormat = "single_elimination" | "double_elimination" | "round_robin";
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: "Single elimination",
+  double_elimination: "Double elimination",
+  round_robin: "Round robin pools",
+};
+
+export type TournamentStatus = "registration" | "in_progress" | "completed";
+
+export const TOURNAMENT_STATUS_LABELS: Record<TournamentStatus, string> = {
+  registration: "Registration open",
+  in_progress: "In progress",
+  completed: "Completed",
+};
+
+export type BracketSide = "winners" | "losers" | "final" | "pool";
+
+export interface TournamentPlayer {
+  _id: string;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export interface TournamentTeam {
+  _id: string;
+  name: string;
+  players: TournamentPlayer[];
+  // 1 is the top seed; unset until the organizer seeds the field
+  seed?: number;
+}
+
+export interface BracketMatch {
+  id: string;
+  bracket: BracketSide;
+  round: number;
+  position: number;
+  pool?: number;
+  teamA: string | null;
+  teamB: string | null;
+  scoreA: number | null;
+  scoreB: number | null;
+  winner: string | null;
+  // Decided without being played (one or both teams missing)
+  bye: boolean;
+  // Where the winner goes next
+  nextMatchId: string | null;
+  nextSlot: "A" | "B" | null;
+  // Where the loser drops to (double elimination only)
+  loserMatchId: string | null;
+  loserSlot: "A" | "B" | null;
+  courtId: string | null;
+  scheduledAt: string | null;
+}
+
+export interface Tournament {
+  _id: string;
+  name: string;
+  description?: string;
+  date: string;
+  venueId: string | null;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  // Round robin only
+  poolCount?: number;
+  maxTeams?: number;
+  // Slot length used when scheduling matches onto courts
+  matchMinutes: number;
+  teams: TournamentTeam[];
+  matches: BracketMatch[];
+  // Bumped by the server on every write. Bracket-wide writes send it back
+  // so the server can reject them if someone else changed the tournament.
+  revision?: number;
+  createdBy: string;
+  createdAt?: string;
+}
+
+export interface MatchScheduleAssignment {
+  matchId: string;
+  courtId: string | null;
+  scheduledAt: string | null;
+}
+
+export interface TournamentFormData {
+  name: string;
+  description?: string;
+  date: string;
+  venueId: string | null;
+  format: TournamentFormat;
+  poolCount?: number;
+  maxTeams?: number;
+  matchMinutes: number;
+}
+
+class TournamentStore {
+  tournaments: Tournament[] = [];
+  loading = false;
+  error: string | null = null;
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  private setLoadingState = (loading: boolean, error: string | null = null) => {
+    this.loading = loading;
+    this.error = error;
+  };
+
+  private upsertTournament = (tournament: Tournament) => {
+    const index = this.tournaments.findIndex((t) => t._id === tournament._id);
+    if (index !== -1) {
+      // A socket update can arrive after the response to a later write
+      const current = this.tournaments[index].revision;
+      if (current !== undefined && tournament.revision !== undefined && tournament.revision < current) return;
+      this.tournaments[index] = tournament;
+    } else {
+      this.tournaments.push(tournament);
+    }
+  };
+
+  getTournament(tournamentId: string): Tournament | undefined {
+    return this.tournaments.find((t) => t._id === tournamentId);
+  }
+
+  /**
+   * Admins and the tournament's creator run registration, seeding and scores
+   */
+  isOrganizer(tournament: Tournament): boolean {
+    return authStore.isAdmin || tournament.createdBy === authStore.user?.id;
+  }
+
+  async fetchTournaments(): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.get("/tournaments");
+
+      runInAction(() => {
+        this.tournaments = response.data;
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error fetching tournaments:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to fetch tournaments");
+      return false;
+    }
+  }
+
+  async fetchTournament(tournamentId: string): Promise<boolean> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.get(`/tournaments/${tournamentId}`);
+
+      runInAction(() => {
+        this.upsertTournament(response.data);
+        this.setLoadingState(false);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error fetching tournament:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to fetch tournament");
+      return false;
+    }
+  }
+
+  async createTournament(data: TournamentFormData): Promise<Tournament | null> {
+    this.setLoadingState(true);
+
+    try {
+      const response = await axios.post("/tournaments", data);
+
+      runInAction(() => {
+        this.upsertTournament(response.data);
+        this.setLoadingState(false);
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error("Error creating tournament:", error);
+      this.setLoadingState(false, error.response?.data?.error || "Failed to create tournament");
+      return null;
+    }
+  }
+
+  async updateTournament(tournamentId: string, data: Partial<TournamentFormData>): Promise<boolean> {
+    return this.saveTournament(
+      tournamentId,
+      () => axios.put(`/tournaments/${tournamentId}`, data),
+      "Failed to update tournament"
+    );
+  }
+
+  async deleteTournament(tournamentId: string): Promise<boolean> {
+    try {
+      await axios.delete(`/tournaments/${tournamentId}`);
+
+      runInAction(() => {
+        this.tournaments = this.tournaments.filter((t) => t._id !== tournamentId);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error deleting tournament:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to delete tournament";
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Reloads a tournament without touching the page-level loading state
+   */
+  private async refreshTournament(tournamentId: string) {
+    try {
+      const response = await axios.get(`/tournaments/${tournamentId}`);
+      runInAction(() => {
+        this.upsertTournament(response.data);
+      });
+    } catch (error) {
+      console.error("Error refreshing tournament:", error);
+    }
+  }
+
+  /**
+   * Every write returns the full tournament, so they all share one save path
+   */
+  private async saveTournament(
+    tournamentId: string,
+    request: () => Promise<{ data: Tournament }>,
+    fallbackError: string
+  ): Promise<boolean> {
+    try {
+      const response = await request();
+
+      runInAction(() => {
+        this.upsertTournament(response.data);
+        this.error = null;
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error(`Error saving tournament ${tournamentId}:`, error);
+      // Another organizer got there first; show their version
+      const stale = error.response?.status === 409;
+      if (stale) this.refreshTournament(tournamentId);
+      runInAction(() => {
+        this.error = stale
+          ? "Someone else updated this tournament. It's been reloaded, so check it and try again."
+          : error.response?.data?.error || fallbackError;
+      });
+      return false;
+    }
+  }
+
+  async registerTeam(tournamentId: string, name: string, playerIds: string[]): Promise<boolean> {
+    return this.saveTournament(
+      tournamentId,
+      () => axios.post(`/tournaments/${tournamentId}/teams`, { name, playerIds }),
+      "Failed to register team"
+    );
+  }
+
+  async withdrawTeam(tournamentId: string, teamId: string): Promise<boolean> {
+    return this.saveTournament(
+      tournamentId,
+      () => axios.delete(`/tournaments/${tournamentId}/teams/${teamId}`),
+      "Failed to withdraw team"
+    );
+  }
+
+  /**
+   * Saves seeds in the given order (first id is seed 1)
+   */
+  async saveSeeds(tournamentId: string, teamIds: string[]): Promise<boolean> {
+    const seeds = teamIds.map((teamId, index) => ({ teamId, seed: index + 1 }));
+    return this.saveTournament(
+      tournamentId,
+      () => axios.put(`/tournaments/${tournamentId}/seeds`, { seeds }),
+      "Failed to save seeds"
+    );
+  }
+
+  /**
+   * Seed order suggested from player ratings, keeping any seeds already set
+   */
+  async getSuggestedSeeds(tournament: Tournament): Promise<string[]> {
+    const playerIds = tournament.teams.flatMap((t) => t.players.map((p) => p._id));
+    await matchStore.fetchRatings(playerIds);
+    return autoSeed(tournament.teams, matchStore.getRatingMap(playerIds));
+  }
+
+  private saveBracket(tournament: Tournament, matches: BracketMatch[], status: TournamentStatus) {
+    return this.saveTournament(
+      tournament._id,
+      () =>
+        axios.put(`/tournaments/${tournament._id}/bracket`, {
+          matches,
+          status,
+          revision: tournament.revision,
+        }),
+      "Failed to save bracket"
+    );
+  }
+
+  /**
+   * Closes registration and draws the bracket from the current seeding
+   */
+  async startTournament(tournament: Tournament): Promise<boolean> {
+    if (tournament.teams.length < 2) {
+      this.error = "At least two teams are needed to start";
+      return false;
+    }
+
+    const seeded = await this.getSuggestedSeeds(tournament);
+    const matches =
+      tournament.format === "single_elimination"
+        ? buildSingleElimination(seeded)
+        : tournament.format === "double_elimination"
+          ? buildDoubleElimination(seeded)
+          : buildRoundRobin(seeded, tournament.poolCount || 1);
+
+    return this.saveBracket(tournament, matches, "in_progress");
+  }
+
+  /**
+   * Sends one match's score. The server moves the teams on through the
+   * bracket and completes the tournament after the last match, so scores
+   * entered at the same time on other courts aren't overwritten.
+   */
+  async recordScore(tournament: Tournament, matchId: string, scoreA: number, scoreB: number): Promise<boolean> {
+    return this.saveTournament(
+      tournament._id,
+      () => axios.put(`/tournaments/${tournament._id}/matches/${matchId}`, { scoreA, scoreB }),
+      "Failed to save score"
+    );
+  }
+
+  /**
+   * The tournament's venue and its sessions from `from` through `to`, so
+   * matches can be kept to opening hours and off booked courts. Null when
+   * the sessions couldn't be loaded; no venue means nothing to check.
+   */
+  private async getVenueBookings(
+    tournament: Tournament,
+    from: Date,
+    to: Date
+  ): Promise<{ venue?: Venue; sessions: Session[] } | null> {
+    const venue = venueStore.venues.find((v) => v.id === tournament.venueId);
+    if (!venue) return { sessions: [] };
+
+    const sessions = await sessionStore.fetchSessionsBetween(toDateInput(from), toDateInput(to));
+    if (!sessions) {
+      runInAction(() => {
+        this.error = "Couldn't check the venue's session bookings. Please try again.";
+      });
+      return null;
+    }
+
+    return { venue, sessions };
+  }
+
+  /**
+   * Fills in courts and start times for every match not yet scheduled. Only
+   * the new assignments are sent, along with the revision they were worked
+   * out from. Resolves with how many matches are still unscheduled, or null
+   * if nothing was saved.
+   */
+  async autoSchedule(tournament: Tournament, options: ScheduleOptions): Promise<number | null> {
+    const lastDay = new Date(options.startAt);
+    lastDay.setDate(lastDay.getDate() + MAX_SCHEDULE_DAYS);
+    const bookings = await this.getVenueBookings(tournament, options.startAt, lastDay);
+    if (!bookings) return null;
+
+    const scheduled = assignSchedule(tournament.matches, { ...options, ...bookings });
+    const assignments: MatchScheduleAssignment[] = scheduled
+      .filter((match, index) => match.scheduledAt !== tournament.matches[index].scheduledAt)
+      .map(({ id, courtId, scheduledAt }) => ({ matchId: id, courtId, scheduledAt }));
+
+    const saved = await this.saveTournament(
+      tournament._id,
+      () =>
+        axios.put(`/tournaments/${tournament._id}/schedule`, {
+          assignments,
+          revision: tournament.revision,
+        }),
+      "Failed to schedule matches"
+    );
+    return saved ? countUnscheduled(scheduled) : null;
+  }
+
+  async updateMatchSchedule(
+    tournament: Tournament,
+    matchId: string,
+    courtId: string | null,
+    scheduledAt: string | null
+  ): Promise<boolean> {
+    if (courtId && scheduledAt) {
+      const start = new Date(scheduledAt);
+      const end = new Date(start.getTime() + tournament.matchMinutes * 60000);
+      const bookings = await this.getVenueBookings(tournament, start, end);
+      if (!bookings) return false;
+
+      const reason = getCourtUnavailableReason(courtId, start, end, bookings.venue, bookings.sessions);
+      if (reason) {
+        runInAction(() => {
+          this.error = reason;
+        });
+        return false;
+      }
+    }
+
+    return this.saveTournament(
+      tournament._id,
+      () => axios.put(`/tournaments/${tournament._id}/matches/${matchId}`, { courtId, scheduledAt }),
+      "Failed to save schedule"
+    );
+  }
+
+  /**
+   * Live updates from other organizers' score entry
+   */
+  handleTournamentUpdate(tournament: Tournament) {
+    this.upsertTournament(tournament);
+  }
+
+  getTeam(tournament: Tournament, teamId: string | null): TournamentTeam | undefined {
+    return teamId ? tournament.teams.find((t) => t._id === teamId) : undefined;
+  }
+}
+
+export const tournamentStore = new TournamentStore();
+export default TournamentStore;
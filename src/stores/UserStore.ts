@@ -2,6 +2,7 @@ import { makeAutoObservable, runInAction } from "mobx";
 import axios from "axios";
 import { authStore } from "./AuthStore";
 import { Club } from "./ClubStore";
+import type { LadderStanding } from "./LadderStore";
 
 export type UserRole = "player" | "coach" | "admin" | "superadmin";
 
@@ -32,6 +33,8 @@ export interface PublicUserProfile {
   bio: string | null;
   role: UserRole;
   coachProfile?: CoachProfile;
+  // Ladders the user is on, best position first
+  ladderStandings: LadderStanding[];
 }
 
 export interface UserSearchResult {
@@ -240,6 +243,9 @@ class UserStore {
           bio: response.data.bio,
           role: response.data.role || "player",
           coachProfile: response.data.coachProfile,
+          ladderStandings: [...(response.data.ladderStandings || [])].sort(
+            (a: LadderStanding, b: LadderStanding) => a.position - b.position
+          ),
         };
         this.publicProfileLoading = false;
       });
@@ -2,6 +2,8 @@ import { makeAutoObservable, runInAction } from "mobx";
 import axios from "axios";
 import { authStore } from "./AuthStore";
 import { userStore } from "./UserStore";
+import { policyStore } from "./PolicyStore";
+import { toBlackoutDateInput } from "../utils/openingHoursUtils";
 
 interface Attendee {
   id: string;
@@ -10,17 +12,90 @@ interface Attendee {
   email?: string | null;
 }
 
+export type VenueStatus = "available" | "maintenance" | "closed" | "reserved";
+
+export const VENUE_STATUS_LABELS: Record<VenueStatus, string> = {
+  available: "Available",
+  maintenance: "Maintenance",
+  closed: "Closed",
+  reserved: "Reserved",
+};
+
+export interface VenueStatusUpdate {
+  status: VenueStatus;
+  reason?: string;
+  // ISO timestamps; leave out to apply now and keep it until changed again
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export interface VenueStatusChange extends VenueStatusUpdate {
+  id: string;
+  changedAt: string;
+  changedBy?: { id: string; displayName: string | null };
+}
+
+export type CourtSurface = "concrete" | "asphalt" | "acrylic" | "wood" | "sport_tile";
+
+export const COURT_SURFACE_LABELS: Record<CourtSurface, string> = {
+  concrete: "Concrete",
+  asphalt: "Asphalt",
+  acrylic: "Acrylic",
+  wood: "Wood",
+  sport_tile: "Sport tile",
+};
+
+export interface Court {
+  id: string;
+  name: string;
+  surface: CourtSurface;
+  indoor: boolean;
+  lights: boolean;
+}
+
+export type CourtData = Omit<Court, "id">;
+
+export interface DayHours {
+  open: string; // "HH:mm"
+  close: string;
+  closed: boolean;
+}
+
+// One entry per weekday, Sunday first (matches Date.getDay)
+export type OpeningHours = DayHours[];
+
+export interface BlackoutDate {
+  id: string;
+  date: string; // "YYYY-MM-DD"
+  reason: string;
+}
+
+export type BlackoutDateData = Omit<BlackoutDate, "id">;
+
+export interface CreateVenueData {
+  name: string;
+  status: VenueStatus;
+  photoURL?: string;
+  latitude?: number;
+  longitude?: number;
+  openingHours?: OpeningHours;
+}
+
 export interface Venue {
   id: string;
   name: string;
-  status: string;
+  status: VenueStatus;
+  statusReason?: string;
+  statusStartsAt?: string;
+  statusEndsAt?: string;
   photoURL?: string;
   attendees: Attendee[];
+  courts: Court[];
+  // Empty when the venue has no set hours (open any time)
+  openingHours: OpeningHours;
+  blackoutDates: BlackoutDate[];
   createdAt: string;
   updatedAt: string;
-  timeRange?: string;
-  day?: string;
-  cancellationCounts?: Record<string, number>; // Track user cancellations
   latitude?: number;
   longitude?: number;
 }
@@ -32,6 +107,8 @@ class VenueStore {
   private fetchInProgress = false;
   // Track attendees for each venue
   attendees: Record<string, Attendee[]> = {};
+  // Status changes per venue, newest first
+  statusHistory: Record<string, VenueStatusChange[]> = {};
 
   constructor() {
     makeAutoObservable(this);
@@ -49,17 +126,53 @@ class VenueStore {
               email: attendee.email,
   });
 
+  private processCourt = (court: any): Court => ({
+    id: court._id || court.id,
+    name: court.name,
+    surface: court.surface || "concrete",
+    indoor: Boolean(court.indoor),
+    lights: Boolean(court.lights),
+  });
+
+  // Older venues store "Available"/"Unavailable"
+  private processStatus = (status: any): VenueStatus => {
+    if (status === "Available") return "available";
+    if (status === "Unavailable") return "closed";
+    return status in VENUE_STATUS_LABELS ? status : "closed";
+  };
+
+  private processStatusChange = (change: any): VenueStatusChange => ({
+    id: change._id || change.id,
+    status: this.processStatus(change.status),
+    reason: change.reason || undefined,
+    startsAt: change.startsAt || undefined,
+    endsAt: change.endsAt || undefined,
+    changedAt: change.changedAt || change.createdAt,
+    changedBy: change.changedBy
+      ? { id: change.changedBy._id || change.changedBy.id, displayName: change.changedBy.displayName || null }
+      : undefined,
+  });
+
+  private processBlackoutDate = (blackout: any): BlackoutDate => ({
+    id: blackout._id || blackout.id,
+    date: toBlackoutDateInput(String(blackout.date)),
+    reason: blackout.reason || "",
+  });
+
   private processVenue = (venue: any): Venue => ({
             id: venue._id,
             name: venue.name,
-            status: venue.status,
+    status: this.processStatus(venue.status),
+    statusReason: venue.statusReason || undefined,
+    statusStartsAt: venue.statusStartsAt || undefined,
+    statusEndsAt: venue.statusEndsAt || undefined,
             photoURL: venue.photoURL,
     attendees: venue.attendees?.map(this.processAttendee) || [],
+    courts: venue.courts?.map(this.processCourt) || [],
+    openingHours: venue.openingHours || [],
+    blackoutDates: venue.blackoutDates?.map(this.processBlackoutDate) || [],
             createdAt: venue.createdAt,
             updatedAt: venue.updatedAt,
-            timeRange: venue.timeRange,
-            day: venue.day,
-            cancellationCounts: venue.cancellationCounts || {},
             latitude: venue.latitude,
             longitude: venue.longitude,
   });
@@ -100,11 +213,12 @@ class VenueStore {
   }
 
   async attendVenue(venueId: string): Promise<boolean> {
-    // Check cancellation limit before API call
-      if (this.hasReachedCancellationLimit(venueId)) {
-      this.error = "You've cancelled attendance twice. Cannot sign up again.";
-        return false;
-      }
+    // Check the attendance policy before API call
+    const evaluation = policyStore.evaluateSignUp();
+    if (!evaluation.allowed) {
+      this.error = evaluation.reason || "You can't sign up right now.";
+      return false;
+    }
 
     this.setLoadingState(true);
 
@@ -159,24 +273,22 @@ class VenueStore {
     return venue?.attendees.some((attendee) => attendee.id === userId) || false;
     }
 
-  hasReachedCancellationLimit(venueId: string): boolean {
-    const userId = this.getCurrentUserId();
-    if (!userId) return false;
-
-    const venue = this.venues.find((v) => v.id === venueId);
-    const cancellationCount = venue?.cancellationCounts?.[userId] || 0;
-    return cancellationCount >= 2;
-  }
-
   // Admin methods
-  async updateVenueStatus(venueId: string, status: string): Promise<boolean> {
+  async updateVenueStatus(venueId: string, update: VenueStatusUpdate): Promise<boolean> {
+    if (update.startsAt && update.endsAt && update.startsAt >= update.endsAt) {
+      this.error = "The status must end after it starts";
+      return false;
+    }
+
     this.setLoadingState(true);
 
     try {
-      const response = await axios.put(`/venues/${venueId}/status`, { status });
+      const response = await axios.put(`/venues/${venueId}/status`, update);
 
       runInAction(() => {
         this.updateVenueInList(response.data);
+        // Stale once a new change is recorded
+        delete this.statusHistory[venueId];
         this.setLoadingState(false);
       });
 
@@ -187,7 +299,7 @@ class VenueStore {
     }
   }
 
-  async createVenue(venueData: { name: string; status: string; photoURL?: string; latitude?: number; longitude?: number }): Promise<boolean> {
+  async createVenue(venueData: CreateVenueData): Promise<boolean> {
     this.setLoadingState(true);
 
     try {
@@ -205,6 +317,29 @@ class VenueStore {
     }
   }
 
+  async fetchStatusHistory(venueId: string): Promise<boolean> {
+    try {
+      const response = await axios.get(`/venues/${venueId}/status-history`);
+
+      runInAction(() => {
+        this.statusHistory[venueId] = response.data.map(this.processStatusChange);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error fetching venue status history:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to fetch status history";
+      });
+      return false;
+    }
+  }
+
+  // Live updates from the socket carry the raw server document
+  handleVenueUpdate(venue: any) {
+    this.updateVenueInList({ ...venue, _id: venue._id || venue.id });
+  }
+
   async deleteVenue(venueId: string): Promise<boolean> {
     this.setLoadingState(true);
 
@@ -258,6 +393,126 @@ class VenueStore {
     }
   }
 
+  // ============================================
+  // Court Methods
+  // ============================================
+
+  async addCourt(venueId: string, court: CourtData): Promise<boolean> {
+    try {
+      const response = await axios.post(`/venues/${venueId}/courts`, court);
+
+      runInAction(() => {
+        this.updateVenueInList(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error adding court:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to add court";
+      });
+      return false;
+    }
+  }
+
+  async updateCourt(venueId: string, courtId: string, updates: Partial<CourtData>): Promise<boolean> {
+    try {
+      const response = await axios.put(`/venues/${venueId}/courts/${courtId}`, updates);
+
+      runInAction(() => {
+        this.updateVenueInList(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error updating court:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to update court";
+      });
+      return false;
+    }
+  }
+
+  async deleteCourt(venueId: string, courtId: string): Promise<boolean> {
+    try {
+      const response = await axios.delete(`/venues/${venueId}/courts/${courtId}`);
+
+      runInAction(() => {
+        this.updateVenueInList(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error deleting court:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to delete court";
+      });
+      return false;
+    }
+  }
+
+  getCourts(venueId: string): Court[] {
+    return this.venues.find((v) => v.id === venueId)?.courts || [];
+  }
+
+  // ============================================
+  // Opening Hours Methods
+  // ============================================
+
+  async updateOpeningHours(venueId: string, openingHours: OpeningHours): Promise<boolean> {
+    try {
+      const response = await axios.put(`/venues/${venueId}/hours`, { openingHours });
+
+      runInAction(() => {
+        this.updateVenueInList(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error updating opening hours:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to update opening hours";
+      });
+      return false;
+    }
+  }
+
+  async addBlackoutDate(venueId: string, blackout: BlackoutDateData): Promise<boolean> {
+    try {
+      const response = await axios.post(`/venues/${venueId}/blackouts`, blackout);
+
+      runInAction(() => {
+        this.updateVenueInList(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error adding closure date:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to add closure date";
+      });
+      return false;
+    }
+  }
+
+  async removeBlackoutDate(venueId: string, blackoutId: string): Promise<boolean> {
+    try {
+      const response = await axios.delete(`/venues/${venueId}/blackouts/${blackoutId}`);
+
+      runInAction(() => {
+        this.updateVenueInList(response.data);
+      });
+
+      return true;
+    } catch (error: any) {
+      console.error("Error removing closure date:", error);
+      runInAction(() => {
+        this.error = error.response?.data?.error || "Failed to remove closure date";
+      });
+      return false;
+    }
+  }
+
   async getVenueAttendees(venueId: string): Promise<boolean> {
     try {
       const response = await axios.get(`/venues/${venueId}/attendees`);
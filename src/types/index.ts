@@ -13,8 +13,6 @@ export interface Venue {
   status: string;
   createdAt?: Date;
   attendees?: string[];
-  timeRange?: string;
-  day?: string;
   photoURL?: string | null;
 }
 
@@ -0,0 +1,282 @@
+import type { BracketMatch, TournamentTeam } from "../../stores/TournamentStore";
+import {
+  assignSchedule,
+  autoSeed,
+  buildDoubleElimination,
+  buildRoundRobin,
+  buildSingleElimination,
+  canEditResult,
+  countUnscheduled,
+  getChampion,
+  getCourtUnavailableReason,
+  getPoolStandings,
+  settleByes,
+  standardSeedOrder,
+} from "../bracketUtils";
+import { DEFAULT_OPENING_HOURS } from "../openingHoursUtils";
+import { makeSession, makeVenue } from "../testUtils/fixtures";
+
+const TEAMS = ["t1", "t2", "t3", "t4", "t5", "t6", "t7", "t8"];
+
+const find = (matches: BracketMatch[], id: string): BracketMatch => {
+  const match = matches.find((m) => m.id === id);
+  if (!match) throw new Error(`No match ${id}`);
+  return match;
+};
+
+// Records a result the way the server does: the winner moves on and, in
+// double elimination, the loser drops down
+const playMatch = (input: BracketMatch[], id: string, winner: string): BracketMatch[] => {
+  const matches = input.map((m) => ({ ...m }));
+  const match = find(matches, id);
+  const loser = match.teamA === winner ? match.teamB : match.teamA;
+  Object.assign(match, { winner, scoreA: match.teamA === winner ? 11 : 5, scoreB: match.teamA === winner ? 5 : 11 });
+
+  const place = (targetId: string | null, slot: "A" | "B" | null, teamId: string | null) => {
+    if (!targetId || !slot) return;
+    const target = find(matches, targetId);
+    if (slot === "A") target.teamA = teamId;
+    else target.teamB = teamId;
+  };
+  place(match.nextMatchId, match.nextSlot, winner);
+  place(match.loserMatchId, match.loserSlot, loser);
+
+  return settleByes(matches);
+};
+
+describe("seeding", () => {
+  it("keeps seeds 1 and 2 apart until the final", () => {
+    expect(standardSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it("orders explicit seeds first, then by rating, then by registration", () => {
+    const team = (id: string, players: string[], seed?: number): TournamentTeam => ({
+      _id: id,
+      name: id,
+      players: players.map((p) => ({ _id: p, displayName: p, photoURL: null })),
+      seed,
+    });
+    const teams = [team("a", ["p1"]), team("b", ["p2"]), team("c", ["p3"], 1), team("d", ["p4"])];
+
+    expect(autoSeed(teams, { p1: 1400, p2: 1700, p4: 1400 })).toEqual(["c", "b", "a", "d"]);
+  });
+});
+
+describe("buildSingleElimination", () => {
+  it("gives the top seeds byes and moves them straight on", () => {
+    const matches = buildSingleElimination(TEAMS.slice(0, 6));
+    const byes = matches.filter((m) => m.bye);
+
+    expect(matches).toHaveLength(7);
+    expect(byes.map((m) => m.winner).sort()).toEqual(["t1", "t2"]);
+    expect(find(matches, "W2-1").teamA).toBe("t1");
+    expect(find(matches, "W2-2").teamA).toBe("t2");
+  });
+
+  it("crowns the final's winner", () => {
+    let matches = buildSingleElimination(TEAMS.slice(0, 4));
+    expect(getChampion(matches, TEAMS)).toBeNull();
+
+    matches = playMatch(matches, "W1-1", "t1");
+    matches = playMatch(matches, "W1-2", "t3");
+    matches = playMatch(matches, "W2-1", "t3");
+    expect(getChampion(matches, TEAMS)).toBe("t3");
+  });
+});
+
+describe("buildDoubleElimination", () => {
+  it("drops winners-bracket losers into the losers bracket", () => {
+    const matches = buildDoubleElimination(TEAMS.slice(0, 4));
+
+    expect(matches.filter((m) => m.bracket === "winners")).toHaveLength(3);
+    expect(matches.filter((m) => m.bracket === "losers")).toHaveLength(2);
+    expect(find(matches, "W1-1")).toMatchObject({ loserMatchId: "L1-1", loserSlot: "A" });
+    expect(find(matches, "W1-2")).toMatchObject({ loserMatchId: "L1-1", loserSlot: "B" });
+    expect(find(matches, "W2-1")).toMatchObject({ nextMatchId: "F1-1", loserMatchId: "L2-1", loserSlot: "B" });
+    expect(find(matches, "L2-1")).toMatchObject({ nextMatchId: "F1-1", nextSlot: "B" });
+  });
+
+  it("runs a full bracket through to the grand final", () => {
+    let matches = buildDoubleElimination(TEAMS.slice(0, 4));
+    matches = playMatch(matches, "W1-1", "t1");
+    matches = playMatch(matches, "W1-2", "t2");
+    expect(find(matches, "L1-1")).toMatchObject({ teamA: "t4", teamB: "t3" });
+
+    matches = playMatch(matches, "W2-1", "t1");
+    matches = playMatch(matches, "L1-1", "t3");
+    expect(find(matches, "L2-1")).toMatchObject({ teamA: "t3", teamB: "t2" });
+
+    matches = playMatch(matches, "L2-1", "t2");
+    expect(find(matches, "F1-1")).toMatchObject({ teamA: "t1", teamB: "t2" });
+
+    matches = playMatch(matches, "F1-1", "t2");
+    expect(getChampion(matches, TEAMS)).toBe("t2");
+  });
+
+  it("passes a lone loser through an empty losers-bracket match", () => {
+    let matches = buildDoubleElimination(TEAMS.slice(0, 3));
+    // Seed 1's bye sends nobody down, so L1-1 waits for the other first-round loser
+    expect(find(matches, "W1-1").bye).toBe(true);
+    expect(find(matches, "L1-1").bye).toBe(false);
+
+    matches = playMatch(matches, "W1-2", "t2");
+    expect(find(matches, "L1-1")).toMatchObject({ bye: true, winner: "t3" });
+    expect(find(matches, "L2-1").teamA).toBe("t3");
+  });
+
+  it("sends the loser of a two-team final into the grand final", () => {
+    const matches = buildDoubleElimination(["t1", "t2"]);
+    expect(matches.filter((m) => m.bracket === "losers")).toHaveLength(0);
+    expect(find(matches, "W1-1")).toMatchObject({ loserMatchId: "F1-1", loserSlot: "B" });
+  });
+});
+
+describe("canEditResult", () => {
+  it("locks a result once the next match is played", () => {
+    let matches = buildSingleElimination(TEAMS.slice(0, 4));
+    matches = playMatch(matches, "W1-1", "t1");
+    expect(canEditResult(matches, find(matches, "W1-1"))).toBe(true);
+
+    matches = playMatch(matches, "W1-2", "t2");
+    matches = playMatch(matches, "W2-1", "t1");
+    expect(canEditResult(matches, find(matches, "W1-1"))).toBe(false);
+  });
+});
+
+describe("round robin", () => {
+  it("pairs every team in a pool exactly once", () => {
+    const matches = buildRoundRobin(TEAMS.slice(0, 5), 1);
+    const pairs = matches.map((m) => [m.teamA, m.teamB].sort().join("-"));
+
+    expect(matches).toHaveLength(10);
+    expect(new Set(pairs).size).toBe(10);
+  });
+
+  it("snake-seeds teams into pools", () => {
+    const matches = buildRoundRobin(TEAMS, 2);
+    const poolOne = new Set(matches.filter((m) => m.pool === 1).flatMap((m) => [m.teamA, m.teamB]));
+    expect([...poolOne].sort()).toEqual(["t1", "t4", "t5", "t8"]);
+  });
+
+  it("ranks by wins, then point differential", () => {
+    let matches = buildRoundRobin(TEAMS.slice(0, 3), 1);
+    matches = matches.map((m) => ({
+      ...m,
+      winner: m.teamA === "t3" || m.teamB === "t3" ? "t3" : m.teamA,
+      scoreA: 11,
+      scoreB: m.teamA === "t3" || m.teamB === "t3" ? 13 : 9,
+    }));
+    matches = matches.map((m) =>
+      m.winner === "t3" && m.teamA === "t3" ? { ...m, scoreA: 13, scoreB: 11 } : m
+    );
+
+    const standings = getPoolStandings(matches, 1, TEAMS);
+    expect(standings.map((s) => s.teamId)).toEqual(["t3", "t1", "t2"]);
+    expect(getChampion(matches, TEAMS)).toBe("t3");
+  });
+
+  it("has no single champion across several pools", () => {
+    const matches = buildRoundRobin(TEAMS.slice(0, 4), 2).map((m) => ({ ...m, winner: m.teamA, scoreA: 11, scoreB: 3 }));
+    expect(getChampion(matches, TEAMS)).toBeNull();
+  });
+});
+
+describe("assignSchedule", () => {
+  // Monday 2026-03-02, 09:00 local time
+  const startAt = new Date(2026, 2, 2, 9, 0);
+  const at = (day: number, hours: number) => new Date(2026, 2, day, hours, 0).toISOString();
+
+  const venue = makeVenue();
+
+  it("fills courts in parallel and starts each round after the one feeding it", () => {
+    const matches = assignSchedule(buildSingleElimination(TEAMS.slice(0, 4)), {
+      courtIds: ["c1", "c2"],
+      startAt,
+      matchMinutes: 60,
+    });
+
+    expect(find(matches, "W1-1")).toMatchObject({ courtId: "c1", scheduledAt: at(2, 9) });
+    expect(find(matches, "W1-2")).toMatchObject({ courtId: "c2", scheduledAt: at(2, 9) });
+    expect(find(matches, "W2-1")).toMatchObject({ courtId: "c1", scheduledAt: at(2, 10) });
+  });
+
+  it("skips byes and keeps matches that already have a slot", () => {
+    const input = buildSingleElimination(TEAMS.slice(0, 3)).map((m) =>
+      m.id === "W1-2" ? { ...m, courtId: "c2", scheduledAt: at(2, 12) } : m
+    );
+    const matches = assignSchedule(input, { courtIds: ["c1", "c2"], startAt, matchMinutes: 60 });
+
+    expect(find(matches, "W1-1").scheduledAt).toBeNull();
+    expect(find(matches, "W1-2")).toMatchObject({ courtId: "c2", scheduledAt: at(2, 12) });
+    expect(find(matches, "W2-1").scheduledAt).toBe(at(2, 13));
+  });
+
+  it("stays within the venue's opening hours", () => {
+    const matches = assignSchedule(buildSingleElimination(TEAMS.slice(0, 4)), {
+      courtIds: ["c1"],
+      startAt: new Date(2026, 2, 2, 21, 0),
+      matchMinutes: 60,
+      venue,
+    });
+
+    expect(find(matches, "W1-1").scheduledAt).toBe(at(2, 21));
+    // Closes at 22:00, so the next match waits for the morning
+    expect(find(matches, "W1-2").scheduledAt).toBe(at(3, 6));
+    expect(find(matches, "W2-1").scheduledAt).toBe(at(3, 7));
+  });
+
+  it("skips closure days", () => {
+    const closed = makeVenue({ blackoutDates: [{ id: "b1", date: "2026-03-02", reason: "Resurfacing" }] });
+    const matches = assignSchedule(buildSingleElimination(TEAMS.slice(0, 2)), {
+      courtIds: ["c1"],
+      startAt,
+      matchMinutes: 60,
+      venue: closed,
+    });
+
+    expect(find(matches, "W1-1").scheduledAt).toBe(at(3, 6));
+  });
+
+  it("works around courts booked for sessions", () => {
+    const matches = assignSchedule(buildSingleElimination(TEAMS.slice(0, 4)), {
+      courtIds: ["c1", "c2"],
+      startAt,
+      matchMinutes: 60,
+      venue,
+      sessions: [makeSession({ courtIds: ["c1"] })],
+    });
+
+    expect(find(matches, "W1-1")).toMatchObject({ courtId: "c2", scheduledAt: at(2, 9) });
+    expect(find(matches, "W1-2")).toMatchObject({ courtId: "c2", scheduledAt: at(2, 10) });
+    expect(find(matches, "W2-1")).toMatchObject({ courtId: "c1", scheduledAt: at(2, 11) });
+  });
+
+  it("leaves matches unscheduled when nothing fits", () => {
+    const shut = makeVenue({ openingHours: DEFAULT_OPENING_HOURS.map((hours) => ({ ...hours, closed: true })) });
+    const matches = assignSchedule(buildSingleElimination(TEAMS.slice(0, 4)), {
+      courtIds: ["c1"],
+      startAt,
+      matchMinutes: 60,
+      venue: shut,
+    });
+
+    expect(countUnscheduled(matches)).toBe(3);
+  });
+});
+
+describe("getCourtUnavailableReason", () => {
+  const venue = makeVenue();
+
+  it("allows any time without a venue", () => {
+    expect(getCourtUnavailableReason("c1", new Date(2026, 2, 2, 23, 0), new Date(2026, 2, 3, 0, 30))).toBeNull();
+  });
+
+  it("explains why a court can't be used", () => {
+    expect(getCourtUnavailableReason("c1", new Date(2026, 2, 2, 21, 30), new Date(2026, 2, 2, 22, 30), venue)).toBe(
+      "Riverside Courts is open 6:00 AM – 10:00 PM on Mon, Mar 2"
+    );
+    expect(getCourtUnavailableReason("c1", new Date(2026, 2, 2, 23, 30), new Date(2026, 2, 3, 0, 30), venue)).toBe(
+      "Matches have to finish by midnight"
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import type { ClubMemberStats } from "../../stores/ClubStore";
+import {
+  fillMonths,
+  formatMonth,
+  formatWinRate,
+  getPresetRange,
+  getWinRate,
+  rankByActivity,
+  rankByWinRate,
+} from "../clubStatsUtils";
+
+const member = (userId: string, overrides: Partial<ClubMemberStats> = {}): ClubMemberStats => ({
+  userId,
+  displayName: userId,
+  photoURL: null,
+  sessionsAttended: 0,
+  matchesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  ...overrides,
+});
+
+describe("getPresetRange", () => {
+  const now = new Date(2026, 2, 15); // Mar 15, 2026
+
+  it("covers the last 30 days including today", () => {
+    expect(getPresetRange("30d", now)).toEqual({ from: "2026-02-14", to: "2026-03-15" });
+  });
+
+  it("goes back three months", () => {
+    expect(getPresetRange("90d", now)).toEqual({ from: "2025-12-15", to: "2026-03-15" });
+  });
+
+  it("starts twelve months back at the start of the month", () => {
+    expect(getPresetRange("12m", now)).toEqual({ from: "2025-04-01", to: "2026-03-15" });
+  });
+});
+
+describe("win rates", () => {
+  it("is null without matches", () => {
+    expect(getWinRate({ wins: 0, matchesPlayed: 0 })).toBeNull();
+    expect(formatWinRate(null)).toBe("–");
+  });
+
+  it("rounds to a whole percentage", () => {
+    expect(formatWinRate(getWinRate({ wins: 2, matchesPlayed: 3 }))).toBe("67%");
+  });
+});
+
+describe("rankByActivity", () => {
+  it("orders by sessions attended, then matches, and drops inactive members", () => {
+    const ranked = rankByActivity([
+      member("a", { sessionsAttended: 2, matchesPlayed: 1 }),
+      member("b", { sessionsAttended: 5 }),
+      member("c", { sessionsAttended: 2, matchesPlayed: 4 }),
+      member("d"),
+    ]);
+    expect(ranked.map((m) => m.userId)).toEqual(["b", "c", "a"]);
+  });
+});
+
+describe("rankByWinRate", () => {
+  it("needs enough matches and breaks ties on wins", () => {
+    const ranked = rankByWinRate([
+      member("a", { matchesPlayed: 2, wins: 2 }),
+      member("b", { matchesPlayed: 4, wins: 2 }),
+      member("c", { matchesPlayed: 3, wins: 3 }),
+      member("d", { matchesPlayed: 8, wins: 4 }),
+    ]);
+    expect(ranked.map((m) => m.userId)).toEqual(["c", "d", "b"]);
+  });
+});
+
+describe("fillMonths", () => {
+  it("adds empty months across the range, including year boundaries", () => {
+    const filled = fillMonths([{ month: "2026-01", sessions: 3, attendances: 20 }], {
+      from: "2025-11-20",
+      to: "2026-02-03",
+    });
+    expect(filled).toEqual([
+      { month: "2025-11", sessions: 0, attendances: 0 },
+      { month: "2025-12", sessions: 0, attendances: 0 },
+      { month: "2026-01", sessions: 3, attendances: 20 },
+      { month: "2026-02", sessions: 0, attendances: 0 },
+    ]);
+  });
+});
+
+describe("formatMonth", () => {
+  it("formats a month key for display", () => {
+    expect(formatMonth("2026-03")).toBe("Mar 2026");
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  SessionSlot,
+  describeConflictReasons,
+  findConflicts,
+  findConflictsForSlots,
+  findNextFreeSlot,
+  timesOverlap,
+} from "../conflictUtils";
+import { makeSession } from "../testUtils/fixtures";
+
+const coach = { _id: "c1", displayName: "Coach Ana", photoURL: null, role: "coach" as const };
+
+const slot = (overrides: Partial<SessionSlot> = {}): SessionSlot => ({
+  date: "2026-03-02",
+  startTime: "10:00",
+  endTime: "12:00",
+  venueId: "v1",
+  ...overrides,
+});
+
+describe("timesOverlap", () => {
+  it("treats back-to-back times as free", () => {
+    expect(timesOverlap("09:00", "10:00", "10:00", "11:00")).toBe(false);
+    expect(timesOverlap("09:00", "10:30", "10:00", "11:00")).toBe(true);
+  });
+});
+
+describe("findConflicts", () => {
+  it("flags an overlapping session at the same venue", () => {
+    const [conflict] = findConflicts(slot(), [makeSession()]);
+    expect(conflict.reasons).toEqual(["venue"]);
+    expect(conflict.session._id).toBe("s1");
+  });
+
+  it("ignores other dates, other venues and cancelled sessions", () => {
+    expect(findConflicts(slot({ date: "2026-03-03" }), [makeSession()])).toEqual([]);
+    expect(findConflicts(slot({ venueId: "v2" }), [makeSession()])).toEqual([]);
+    expect(findConflicts(slot(), [makeSession({ status: "cancelled" })])).toEqual([]);
+  });
+
+  it("allows parallel sessions on different courts", () => {
+    const existing = makeSession({ courtIds: ["court-1"] });
+    expect(findConflicts(slot({ courtIds: ["court-2"] }), [existing])).toEqual([]);
+    expect(findConflicts(slot({ courtIds: ["court-1", "court-2"] }), [existing])).toHaveLength(1);
+    // Booking the whole venue clashes with any court
+    expect(findConflicts(slot(), [existing])).toHaveLength(1);
+  });
+
+  it("flags a coach booked at another venue", () => {
+    const existing = makeSession({ venueId: { _id: "v2", name: "Bayside", status: "active" }, coachId: coach });
+    const [conflict] = findConflicts(slot({ coachId: "c1" }), [existing]);
+    expect(conflict.reasons).toEqual(["coach"]);
+  });
+
+  it("skips the session being edited", () => {
+    expect(findConflicts(slot(), [makeSession()], "s1")).toEqual([]);
+  });
+});
+
+describe("findConflictsForSlots", () => {
+  it("checks every date of a series", () => {
+    const sessions = [makeSession(), makeSession({ _id: "s2", date: "2026-03-09T00:00:00.000Z" })];
+    const conflicts = findConflictsForSlots(
+      [slot(), slot({ date: "2026-03-09" }), slot({ date: "2026-03-16" })],
+      sessions
+    );
+    expect(conflicts.map((c) => c.date)).toEqual(["2026-03-02", "2026-03-09"]);
+  });
+});
+
+describe("findNextFreeSlot", () => {
+  it("shifts past the clash to the next step, keeping the length", () => {
+    const sessions = [makeSession({ endTime: "11:10" })];
+    expect(findNextFreeSlot([slot()], sessions)).toEqual({ startTime: "11:15", endTime: "13:15" });
+  });
+
+  it("keeps the requested time when it is already free", () => {
+    expect(findNextFreeSlot([slot({ startTime: "11:00", endTime: "12:00" })], [makeSession()])).toEqual({
+      startTime: "11:00",
+      endTime: "12:00",
+    });
+  });
+
+  it("returns null when nothing fits before the end of the day", () => {
+    const sessions = [makeSession({ startTime: "09:00", endTime: "22:00" })];
+    expect(findNextFreeSlot([slot({ startTime: "20:00", endTime: "22:00" })], sessions)).toBeNull();
+  });
+});
+
+describe("describeConflictReasons", () => {
+  it("joins readable reasons", () => {
+    expect(describeConflictReasons(["venue", "coach"])).toBe("same court · coach already booked");
+  });
+});
@@ -0,0 +1,68 @@
+import { RotationRound, generateRound } from "../courtRotation";
+
+const PLAYERS = ["p1", "p2", "p3", "p4", "p5", "p6", "p7", "p8", "p9", "p10"];
+
+const playersIn = (round: RotationRound): string[] =>
+  round.matches.flatMap(({ teamA, teamB }) => [...teamA, ...teamB]);
+
+const partnerKeys = (round: RotationRound): string[] =>
+  round.matches.flatMap(({ teamA, teamB }) => [teamA, teamB].map((team) => [...team].sort().join("|")));
+
+// Plays a number of rounds in a row, feeding each one back in as history
+const playRounds = (playerIds: string[], courtCount: number, count: number): RotationRound[] => {
+  const history: RotationRound[] = [];
+  for (let i = 0; i < count; i++) history.push(generateRound(playerIds, courtCount, history));
+  return history;
+};
+
+describe("generateRound", () => {
+  it("fills every court it can and sits out the rest", () => {
+    const round = generateRound(PLAYERS, 2);
+
+    expect(round.number).toBe(1);
+    expect(round.matches.map((m) => m.court)).toEqual([1, 2]);
+    expect(round.sittingOut).toHaveLength(2);
+    expect(new Set([...playersIn(round), ...round.sittingOut]).size).toBe(PLAYERS.length);
+  });
+
+  it("only uses as many courts as there are groups of four", () => {
+    const round = generateRound(PLAYERS.slice(0, 6), 3);
+    expect(round.matches).toHaveLength(1);
+    expect(round.sittingOut).toHaveLength(2);
+  });
+
+  it("sits everyone out when there aren't enough players for a game", () => {
+    const round = generateRound(PLAYERS.slice(0, 3), 2);
+    expect(round.matches).toEqual([]);
+    expect(round.sittingOut.sort()).toEqual(["p1", "p2", "p3"]);
+  });
+
+  it("gives the same round for the same history on every client", () => {
+    const history = playRounds(PLAYERS, 2, 2);
+    expect(generateRound(PLAYERS, 2, history)).toEqual(generateRound(PLAYERS, 2, history));
+  });
+
+  it("spreads sit-outs so nobody sits twice before everyone has sat once", () => {
+    const rounds = playRounds(PLAYERS.slice(0, 5), 1, 5);
+    const satOut = rounds.flatMap((r) => r.sittingOut);
+
+    expect(satOut.sort()).toEqual(["p1", "p2", "p3", "p4", "p5"]);
+  });
+
+  it("rotates partners before repeating them", () => {
+    const rounds = playRounds(PLAYERS.slice(0, 4), 1, 3);
+    const partners = rounds.flatMap(partnerKeys);
+
+    // Four players can only form six partnerships, and three rounds use them all
+    expect(new Set(partners).size).toBe(6);
+  });
+
+  it("balances teams by rating", () => {
+    const ratings = { p1: 2000, p2: 1950, p3: 1100, p4: 1000 };
+    const [match] = generateRound(PLAYERS.slice(0, 4), 1, [], ratings).matches;
+    const strong = ["p1", "p2"];
+
+    expect(match.teamA.filter((id) => strong.includes(id))).toHaveLength(1);
+    expect(match.teamB.filter((id) => strong.includes(id))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,72 @@
+import type { Session } from "../../stores/SessionStore";
+import { buildSessionsCalendar } from "../icsUtils";
+import { makeSession } from "../testUtils/fixtures";
+
+// Event URLs link back to the app
+const ORIGIN = "https://example.com";
+
+const build = (sessions: Session[], calendarName?: string): string =>
+  buildSessionsCalendar(sessions, calendarName, ORIGIN);
+
+// Unfolds continuation lines so assertions can match whole properties
+const getLines = (calendar: string): string[] => calendar.replace(/\r\n /g, "").split("\r\n");
+
+const getProperty = (calendar: string, name: string): string | undefined =>
+  getLines(calendar)
+    .find((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`))
+    ?.replace(/^[^:]*:/, "");
+
+describe("buildSessionsCalendar", () => {
+  it("writes local Manila times with a matching time zone", () => {
+    const calendar = build([makeSession()]);
+
+    expect(calendar).toContain("DTSTART;TZID=Asia/Manila:20260302T090000");
+    expect(calendar).toContain("DTEND;TZID=Asia/Manila:20260302T110000");
+    expect(calendar).toContain("BEGIN:VTIMEZONE");
+  });
+
+  it("keeps the UID fixed so re-imports update the event", () => {
+    const first = build([makeSession()]);
+    const second = build([makeSession({ startTime: "10:00", revision: 1 })]);
+
+    expect(getProperty(first, "UID")).toBe("s1@pickleball-sessions");
+    expect(getProperty(second, "UID")).toBe(getProperty(first, "UID"));
+  });
+
+  it("uses the server revision as the sequence", () => {
+    expect(getProperty(build([makeSession({ revision: 3 })]), "SEQUENCE")).toBe("3");
+    expect(getProperty(build([makeSession()]), "SEQUENCE")).toBe("0");
+  });
+
+  it("links each event to its session page", () => {
+    expect(getProperty(build([makeSession()]), "URL")).toBe("https://example.com/sessions/s1");
+  });
+
+  it("marks cancelled sessions", () => {
+    const calendar = build([makeSession({ status: "cancelled" })]);
+    expect(getProperty(calendar, "STATUS")).toBe("CANCELLED");
+  });
+
+  it("escapes text values", () => {
+    const calendar = build([makeSession({ title: "Drills; serves, lobs\nand more" })]);
+    expect(getProperty(calendar, "SUMMARY")).toBe("Drills\\; serves\\, lobs\\nand more");
+  });
+
+  it("uses CRLF line endings and folds lines at 75 octets", () => {
+    const calendar = build([makeSession({ description: "Bring water. ".repeat(20) })]);
+    const encoder = new TextEncoder();
+
+    expect(calendar.endsWith("\r\n")).toBe(true);
+    calendar
+      .split("\r\n")
+      .forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(getProperty(calendar, "DESCRIPTION")).toContain("Bring water.");
+  });
+
+  it("adds one event per session", () => {
+    const calendar = build([makeSession(), makeSession({ _id: "s2" })], "My Sessions");
+
+    expect(getLines(calendar).filter((line) => line === "BEGIN:VEVENT")).toHaveLength(2);
+    expect(getProperty(calendar, "X-WR-CALNAME")).toBe("My Sessions");
+  });
+});
@@ -0,0 +1,126 @@
+import type { Ladder, LadderChallenge, LadderEntry } from "../../stores/LadderStore";
+import {
+  formatTimeLeft,
+  getChallengeBlocker,
+  getChallengeTargets,
+  getEntryName,
+  isOverdue,
+  reorderAfterChallenge,
+} from "../ladderUtils";
+
+const makeEntry = (id: string, position: number, overrides: Partial<LadderEntry> = {}): LadderEntry => ({
+  _id: id,
+  position,
+  players: [{ _id: `p-${id}`, displayName: id.toUpperCase(), photoURL: null }],
+  joinedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const makeChallenge = (overrides: Partial<LadderChallenge> = {}): LadderChallenge => ({
+  _id: "ch1",
+  challengerId: "d",
+  defenderId: "b",
+  status: "open",
+  createdAt: "2026-03-01T00:00:00.000Z",
+  deadline: "2026-03-08T00:00:00.000Z",
+  ...overrides,
+});
+
+// Entries a-e in positions 1-5, listed out of order like the API may return them
+const ENTRIES = [makeEntry("c", 3), makeEntry("a", 1), makeEntry("e", 5), makeEntry("b", 2), makeEntry("d", 4)];
+
+const makeLadder = (overrides: Partial<Ladder> = {}): Ladder => ({
+  _id: "l1",
+  name: "Club Ladder",
+  format: "singles",
+  challengeRange: 2,
+  challengeDays: 7,
+  entries: ENTRIES,
+  challenges: [],
+  createdBy: "u1",
+  ...overrides,
+});
+
+const order = (positions: { entryId: string; position: number }[]) =>
+  [...positions].sort((a, b) => a.position - b.position).map((p) => p.entryId);
+
+describe("reorderAfterChallenge", () => {
+  it("moves a winning challenger into the defender's place and shifts the rest down", () => {
+    expect(order(reorderAfterChallenge(ENTRIES, makeChallenge(), "d"))).toEqual(["a", "d", "b", "c", "e"]);
+  });
+
+  it("keeps the order when the defender wins", () => {
+    expect(order(reorderAfterChallenge(ENTRIES, makeChallenge(), "b"))).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("swaps neighbours", () => {
+    const challenge = makeChallenge({ challengerId: "c", defenderId: "b" });
+    expect(order(reorderAfterChallenge(ENTRIES, challenge, "c"))).toEqual(["a", "c", "b", "d", "e"]);
+  });
+
+  it("closes gaps left by entries that have left", () => {
+    const entries = [makeEntry("a", 1), makeEntry("b", 3), makeEntry("c", 6)];
+    expect(reorderAfterChallenge(entries, makeChallenge({ challengerId: "c", defenderId: "b" }), "b")).toEqual([
+      { entryId: "a", position: 1 },
+      { entryId: "b", position: 2 },
+      { entryId: "c", position: 3 },
+    ]);
+  });
+
+  it("ignores a defender that is no longer on the ladder", () => {
+    const challenge = makeChallenge({ defenderId: "gone" });
+    expect(order(reorderAfterChallenge(ENTRIES, challenge, "d"))).toEqual(["a", "b", "c", "d", "e"]);
+  });
+});
+
+describe("getChallengeBlocker", () => {
+  const ladder = makeLadder();
+  const entry = (id: string) => ENTRIES.find((e) => e._id === id)!;
+
+  it("allows challenges within range above", () => {
+    expect(getChallengeBlocker(ladder, entry("d"), entry("b"))).toBeNull();
+  });
+
+  it("blocks challenges below, or too far above", () => {
+    expect(getChallengeBlocker(ladder, entry("b"), entry("d"))).toBe("You can only challenge players above you");
+    expect(getChallengeBlocker(ladder, entry("d"), entry("a"))).toBe("You can challenge up to 2 places above you");
+  });
+
+  it("allows one open challenge per entry", () => {
+    const busy = makeLadder({ challenges: [makeChallenge({ challengerId: "e", defenderId: "c" })] });
+    expect(getChallengeBlocker(busy, entry("e"), entry("d"))).toBe("Finish your open challenge first");
+    expect(getChallengeBlocker(busy, entry("d"), entry("c"))).toBe("Already in a challenge");
+    expect(getChallengeBlocker(busy, entry("d"), entry("b"))).toBeNull();
+  });
+
+  it("lists the entries that can be challenged", () => {
+    expect(getChallengeTargets(ladder, entry("d")).map((e) => e._id).sort()).toEqual(["b", "c"]);
+  });
+});
+
+describe("deadlines", () => {
+  const now = new Date("2026-03-05T00:00:00.000Z");
+
+  it("marks open challenges past their deadline as overdue", () => {
+    expect(isOverdue(makeChallenge(), now)).toBe(false);
+    expect(isOverdue(makeChallenge({ deadline: "2026-03-04T00:00:00.000Z" }), now)).toBe(true);
+    expect(isOverdue(makeChallenge({ deadline: "2026-03-04T00:00:00.000Z", status: "completed" }), now)).toBe(false);
+  });
+
+  it("formats the time left", () => {
+    expect(formatTimeLeft("2026-03-08T00:00:00.000Z", now)).toBe("3 days left");
+    expect(formatTimeLeft("2026-03-05T01:30:00.000Z", now)).toBe("1 hour left");
+    expect(formatTimeLeft("2026-03-04T00:00:00.000Z", now)).toBe("Overdue");
+  });
+});
+
+describe("getEntryName", () => {
+  it("uses the team name, or joins the players' names", () => {
+    const players = [
+      { _id: "p1", displayName: "Ana", photoURL: null },
+      { _id: "p2", displayName: null, photoURL: null },
+    ];
+    expect(getEntryName(makeEntry("x", 1, { players }))).toBe("Ana & Anonymous");
+    expect(getEntryName(makeEntry("x", 1, { players, name: "Net Ninjas" }))).toBe("Net Ninjas");
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  DEFAULT_RATING,
+  calculateRatingChange,
+  expectedScore,
+  getRatingTier,
+  getTeamRating,
+  validateGameScore,
+} from "../matchUtils";
+
+describe("validateGameScore", () => {
+  it("accepts games won to 11 by at least 2", () => {
+    expect(validateGameScore(11, 0)).toBeNull();
+    expect(validateGameScore(9, 11)).toBeNull();
+    expect(validateGameScore(14, 12)).toBeNull();
+  });
+
+  it("rejects games that haven't been won", () => {
+    expect(validateGameScore(10, 8)).toBe("The winning side needs at least 11 points");
+    expect(validateGameScore(11, 10)).toBe("Games must be won by 2");
+  });
+
+  it("rejects games that went on past a 2-point lead", () => {
+    expect(validateGameScore(15, 12)).toBe("A game that goes past 11 ends at a 2-point lead");
+  });
+
+  it("rejects negative or fractional scores", () => {
+    expect(validateGameScore(-1, 11)).toBe("Scores must be whole numbers");
+    expect(validateGameScore(11, 2.5)).toBe("Scores must be whole numbers");
+  });
+});
+
+describe("expectedScore", () => {
+  it("is even for equal ratings and favours the higher rating", () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+    expect(expectedScore(1900, 1500)).toBeCloseTo(10 / 11);
+    expect(expectedScore(1500, 1900) + expectedScore(1900, 1500)).toBeCloseTo(1);
+  });
+});
+
+describe("calculateRatingChange", () => {
+  it("moves evenly rated players by the base amount for a 2-point game", () => {
+    expect(calculateRatingChange(1500, 1500, true, 2, 20)).toBe(12);
+    expect(calculateRatingChange(1500, 1500, false, -2, 20)).toBe(-12);
+  });
+
+  it("moves provisional players twice as fast", () => {
+    expect(calculateRatingChange(1500, 1500, true, 2, 3)).toBe(24);
+  });
+
+  it("counts a wider margin for more", () => {
+    expect(calculateRatingChange(1500, 1500, true, 11, 20)).toBe(27);
+  });
+
+  it("gives little for beating a much weaker side", () => {
+    expect(calculateRatingChange(1900, 1500, true, 2, 20)).toBe(2);
+    expect(calculateRatingChange(1500, 1900, true, 2, 20)).toBe(22);
+  });
+});
+
+describe("getTeamRating", () => {
+  it("averages the players, treating unrated ones as the default", () => {
+    expect(getTeamRating(["a", "b"], { a: 1700 })).toBe((1700 + DEFAULT_RATING) / 2);
+    expect(getTeamRating([], {})).toBe(DEFAULT_RATING);
+  });
+});
+
+describe("getRatingTier", () => {
+  it("labels ratings by tier", () => {
+    expect(getRatingTier(1850)).toBe("Advanced");
+    expect(getRatingTier(1600)).toBe("Intermediate+");
+    expect(getRatingTier(1500)).toBe("Intermediate");
+    expect(getRatingTier(1200)).toBe("Beginner");
+  });
+});
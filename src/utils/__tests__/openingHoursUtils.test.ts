@@ -0,0 +1,81 @@
+import type { OpeningHours, Venue } from "../../stores/VenueStore";
+import {
+  DEFAULT_OPENING_HOURS,
+  checkOpeningHours,
+  getClosureReason,
+  summarizeOpeningHours,
+  toBlackoutDateInput,
+  validateOpeningHours,
+} from "../openingHoursUtils";
+import { parseDateInput } from "../recurrenceUtils";
+import { makeVenue } from "../testUtils/fixtures";
+
+// Weekdays 06:00-22:00, closed on Sundays
+const WEEKDAY_HOURS: OpeningHours = DEFAULT_OPENING_HOURS.map((hours, day) =>
+  day === 0 ? { ...hours, closed: true } : hours
+);
+
+const makeWeekdayVenue = (overrides: Partial<Venue> = {}): Venue =>
+  makeVenue({ openingHours: WEEKDAY_HOURS, ...overrides });
+
+describe("toBlackoutDateInput", () => {
+  it("reads stored midnight timestamps as the local date", () => {
+    // Local midnight on March 2 in Manila is still March 1 in UTC
+    expect(toBlackoutDateInput("2026-03-01T16:00:00.000Z")).toBe("2026-03-02");
+  });
+
+  it("keeps plain dates as they are", () => {
+    expect(toBlackoutDateInput("2026-03-02")).toBe("2026-03-02");
+  });
+});
+
+describe("getClosureReason", () => {
+  it("closes the venue on a blackout date", () => {
+    const venue = makeWeekdayVenue({ blackoutDates: [{ id: "b1", date: "2026-03-02", reason: "Resurfacing" }] });
+    expect(getClosureReason(venue, parseDateInput("2026-03-02"))).toBe("Resurfacing");
+    expect(getClosureReason(venue, parseDateInput("2026-03-03"))).toBeNull();
+  });
+
+  it("closes the venue on days marked closed", () => {
+    // 2026-03-01 is a Sunday
+    expect(getClosureReason(makeWeekdayVenue(), parseDateInput("2026-03-01"))).toBe("Closed on Sun");
+  });
+});
+
+describe("checkOpeningHours", () => {
+  it("accepts sessions inside the day's hours", () => {
+    expect(checkOpeningHours(makeWeekdayVenue(), "2026-03-02", "06:00", "22:00")).toBeNull();
+  });
+
+  it("rejects sessions outside the day's hours", () => {
+    expect(checkOpeningHours(makeWeekdayVenue(), "2026-03-02", "21:00", "23:00")).toMatch(
+      /^Riverside Courts is open 6:00 AM – 10:00 PM on Mon, Mar 2$/
+    );
+  });
+
+  it("rejects sessions on a closure", () => {
+    const venue = makeWeekdayVenue({ blackoutDates: [{ id: "b1", date: "2026-03-02", reason: "" }] });
+    expect(checkOpeningHours(venue, "2026-03-02", "09:00", "10:00")).toBe(
+      "Riverside Courts is closed on Mon, Mar 2 (Closed)"
+    );
+  });
+
+  it("treats venues without set hours as always open", () => {
+    expect(checkOpeningHours(makeWeekdayVenue({ openingHours: [] }), "2026-03-01", "00:00", "23:30")).toBeNull();
+  });
+});
+
+describe("validateOpeningHours", () => {
+  it("requires open days to close after they open", () => {
+    expect(validateOpeningHours(WEEKDAY_HOURS)).toBeNull();
+    const invalid = WEEKDAY_HOURS.map((hours, day) => (day === 3 ? { ...hours, close: "05:00" } : hours));
+    expect(validateOpeningHours(invalid)).toBe("Wed must close after it opens");
+  });
+});
+
+describe("summarizeOpeningHours", () => {
+  it("merges runs of identical days, Monday first", () => {
+    expect(summarizeOpeningHours(WEEKDAY_HOURS)).toBe("Mon–Sat 6:00 AM – 10:00 PM · Sun Closed");
+    expect(summarizeOpeningHours([])).toBe("Open any time");
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  MAX_SERIES_OCCURRENCES,
+  describeRecurrence,
+  generateOccurrenceDates,
+  getRecurrenceError,
+  parseDateInput,
+  toDateInput,
+} from "../recurrenceUtils";
+
+// 2026-03-02 is a Monday
+const START = "2026-03-02";
+
+describe("parseDateInput / toDateInput", () => {
+  it("round-trips a date input value in local time", () => {
+    const date = parseDateInput("2026-03-02");
+    expect(date.getFullYear()).toBe(2026);
+    expect(date.getMonth()).toBe(2);
+    expect(date.getDate()).toBe(2);
+    expect(toDateInput(date)).toBe("2026-03-02");
+  });
+});
+
+describe("generateOccurrenceDates", () => {
+  it("repeats weekly on the chosen weekdays for a fixed count", () => {
+    expect(
+      generateOccurrenceDates(START, { frequency: "weekly", weekdays: [1, 3], occurrences: 4 })
+    ).toEqual(["2026-03-02", "2026-03-04", "2026-03-09", "2026-03-11"]);
+  });
+
+  it("skips every other week for biweekly series", () => {
+    expect(
+      generateOccurrenceDates(START, { frequency: "biweekly", weekdays: [1], occurrences: 3 })
+    ).toEqual(["2026-03-02", "2026-03-16", "2026-03-30"]);
+  });
+
+  it("stops at the end date, inclusive", () => {
+    expect(
+      generateOccurrenceDates(START, { frequency: "weekly", weekdays: [1], endDate: "2026-03-16" })
+    ).toEqual(["2026-03-02", "2026-03-09", "2026-03-16"]);
+  });
+
+  it("produces nothing for a blank end date instead of a year of sessions", () => {
+    expect(generateOccurrenceDates(START, { frequency: "weekly", weekdays: [1], endDate: "" })).toEqual([]);
+  });
+
+  it("produces nothing for a blank session count", () => {
+    expect(generateOccurrenceDates(START, { frequency: "weekly", weekdays: [1], occurrences: 0 })).toEqual([]);
+  });
+
+  it("caps a series with no end at the maximum", () => {
+    const dates = generateOccurrenceDates(START, { frequency: "weekly", weekdays: [1] });
+    expect(dates).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+
+  it("caps an oversized count at the maximum", () => {
+    const dates = generateOccurrenceDates(START, { frequency: "weekly", weekdays: [1, 3], occurrences: 500 });
+    expect(dates).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+
+  it("returns nothing without a start date or weekdays", () => {
+    expect(generateOccurrenceDates("", { frequency: "weekly", weekdays: [1], occurrences: 2 })).toEqual([]);
+    expect(generateOccurrenceDates(START, { frequency: "weekly", weekdays: [], occurrences: 2 })).toEqual([]);
+  });
+});
+
+describe("getRecurrenceError", () => {
+  it("accepts a complete rule", () => {
+    expect(getRecurrenceError(START, { frequency: "weekly", weekdays: [1], occurrences: 4 })).toBeNull();
+    expect(getRecurrenceError(START, { frequency: "weekly", weekdays: [1], endDate: "2026-04-01" })).toBeNull();
+  });
+
+  it("rejects a blank end date", () => {
+    expect(getRecurrenceError(START, { frequency: "weekly", weekdays: [1], endDate: "" })).toMatch(/end/);
+  });
+
+  it("rejects an end date before the start", () => {
+    expect(getRecurrenceError(START, { frequency: "weekly", weekdays: [1], endDate: "2026-03-01" })).not.toBeNull();
+  });
+
+  it("rejects a missing weekday or session count", () => {
+    expect(getRecurrenceError(START, { frequency: "weekly", weekdays: [], occurrences: 4 })).not.toBeNull();
+    expect(getRecurrenceError(START, { frequency: "weekly", weekdays: [1], occurrences: 0 })).not.toBeNull();
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("lists weekdays in order", () => {
+    expect(describeRecurrence({ frequency: "weekly", weekdays: [4, 2] })).toBe("Weekly on Tue, Thu");
+    expect(describeRecurrence({ frequency: "biweekly", weekdays: [6] })).toBe("Every 2 weeks on Sat");
+  });
+});
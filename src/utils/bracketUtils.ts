@@ -0,0 +1,514 @@
+/**
+ * Tournament brackets: seeding, bracket generation, result propagation and scheduling
+ *
+ * Brackets are generated here and saved whole when the tournament starts, so
+ * every client renders the bracket the organizer saw. After that, scores are
+ * sent one match at a time and the server moves teams on. Elimination
+ * brackets are padded to a power of two and top seeds get the byes. Double
+ * elimination ends in a single grand final (no bracket reset). Round-robin
+ * splits teams into snake-seeded pools and schedules them with the circle
+ * method. Scheduling keeps to the venue's opening hours and steers around
+ * courts that sessions have booked.
+ */
+
+import type { BracketMatch, BracketSide, TournamentTeam } from "../stores/TournamentStore";
+import type { Session } from "../stores/SessionStore";
+import type { Venue } from "../stores/VenueStore";
+import { getTeamRating } from "./matchUtils";
+import { toDateInput } from "./recurrenceUtils";
+import { checkOpeningHours } from "./openingHoursUtils";
+import { findConflicts } from "./conflictUtils";
+import { formatTime } from "./sessionUtils";
+
+export type Slot = "A" | "B";
+
+type SlotState = "filled" | "empty" | "pending";
+
+export interface PoolStanding {
+  teamId: string;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+export interface ScheduleOptions {
+  courtIds: string[];
+  startAt: Date;
+  matchMinutes: number;
+  // Without a venue, courts are taken to be open and free at any time
+  venue?: Venue;
+  // Sessions around the tournament date, for court reservations
+  sessions?: Session[];
+}
+
+// How far past the first match the scheduler looks for free court time
+export const MAX_SCHEDULE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matchId = (side: BracketSide, round: number, position: number, pool?: number) =>
+  side === "pool" ? `P${pool}-R${round}-${position}` : `${side[0].toUpperCase()}${round}-${position}`;
+
+const createMatch = (
+  side: BracketSide,
+  round: number,
+  position: number,
+  extra: Partial<BracketMatch> = {}
+): BracketMatch => ({
+  id: matchId(side, round, position, extra.pool),
+  bracket: side,
+  round,
+  position,
+  teamA: null,
+  teamB: null,
+  scoreA: null,
+  scoreB: null,
+  winner: null,
+  bye: false,
+  nextMatchId: null,
+  nextSlot: null,
+  loserMatchId: null,
+  loserSlot: null,
+  courtId: null,
+  scheduledAt: null,
+  ...extra,
+});
+
+// ============================================
+// Seeding
+// ============================================
+
+/**
+ * Orders teams for seeding: explicit seeds first, then strongest average
+ * player rating, then registration order.
+ */
+export const autoSeed = (teams: TournamentTeam[], ratings: Record<string, number>): string[] =>
+  teams
+    .map((team, index) => ({
+      id: team._id,
+      seed: team.seed ?? Infinity,
+      rating: getTeamRating(team.players.map((p) => p._id), ratings),
+      index,
+    }))
+    .sort((a, b) => a.seed - b.seed || b.rating - a.rating || a.index - b.index)
+    .map((t) => t.id);
+
+/**
+ * Bracket line-up for `size` slots so seed 1 and 2 can only meet in the final:
+ * 4 -> [1, 4, 2, 3], 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+export const standardSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, total - seed]);
+  }
+  return order;
+};
+
+const nextPowerOfTwo = (n: number): number => {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+};
+
+// ============================================
+// Generation
+// ============================================
+
+const buildWinnersBracket = (seededTeamIds: string[]): BracketMatch[] => {
+  const size = nextPowerOfTwo(Math.max(seededTeamIds.length, 2));
+  const rounds = Math.log2(size);
+  const order = standardSeedOrder(size);
+  const matches: BracketMatch[] = [];
+
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / Math.pow(2, round);
+    for (let position = 1; position <= count; position++) {
+      const match = createMatch("winners", round, position);
+      if (round === 1) {
+        match.teamA = seededTeamIds[order[(position - 1) * 2] - 1] ?? null;
+        match.teamB = seededTeamIds[order[(position - 1) * 2 + 1] - 1] ?? null;
+      }
+      if (round < rounds) {
+        match.nextMatchId = matchId("winners", round + 1, Math.ceil(position / 2));
+        match.nextSlot = position % 2 === 1 ? "A" : "B";
+      }
+      matches.push(match);
+    }
+  }
+
+  return matches;
+};
+
+export const buildSingleElimination = (seededTeamIds: string[]): BracketMatch[] =>
+  settleByes(buildWinnersBracket(seededTeamIds));
+
+/**
+ * Winners bracket plus a losers bracket that alternates between rounds of
+ * losers-bracket survivors and rounds that take in the teams dropping from
+ * the winners bracket.
+ */
+export const buildDoubleElimination = (seededTeamIds: string[]): BracketMatch[] => {
+  const winners = buildWinnersBracket(seededTeamIds);
+  const size = nextPowerOfTwo(Math.max(seededTeamIds.length, 2));
+  const winnerRounds = Math.log2(size);
+  const losers: BracketMatch[] = [];
+  const loserRounds = 2 * (winnerRounds - 1);
+
+  for (let round = 1; round <= loserRounds; round++) {
+    const count = size / Math.pow(2, Math.floor((round + 1) / 2) + 1);
+    for (let position = 1; position <= count; position++) {
+      const match = createMatch("losers", round, position);
+      if (round < loserRounds) {
+        // Odd rounds feed straight across; even rounds halve the field
+        const straight = round % 2 === 1;
+        match.nextMatchId = matchId("losers", round + 1, straight ? position : Math.ceil(position / 2));
+        match.nextSlot = straight ? "A" : position % 2 === 1 ? "A" : "B";
+      }
+      losers.push(match);
+    }
+  }
+
+  // Winners round 1 losers pair up in losers round 1; later winners-round
+  // losers drop into the B slot of the even losers rounds, reversed so
+  // rematches are pushed as late as possible.
+  winners.forEach((match) => {
+    if (match.round === 1) {
+      match.loserMatchId = matchId("losers", 1, Math.ceil(match.position / 2));
+      match.loserSlot = match.position % 2 === 1 ? "A" : "B";
+    } else if (loserRounds > 0) {
+      const targetRound = 2 * (match.round - 1);
+      const count = size / Math.pow(2, match.round);
+      match.loserMatchId = matchId("losers", targetRound, count - match.position + 1);
+      match.loserSlot = "B";
+    }
+  });
+
+  const grandFinal = createMatch("final", 1, 1);
+  const winnersFinal = winners[winners.length - 1];
+  winnersFinal.nextMatchId = grandFinal.id;
+  winnersFinal.nextSlot = "A";
+  const losersFinal = losers[losers.length - 1];
+  if (losersFinal) {
+    losersFinal.nextMatchId = grandFinal.id;
+    losersFinal.nextSlot = "B";
+  } else {
+    // Two-team field: the final loser drops straight into the grand final
+    winnersFinal.loserMatchId = grandFinal.id;
+    winnersFinal.loserSlot = "B";
+  }
+
+  return settleByes([...winners, ...losers, grandFinal]);
+};
+
+/**
+ * Snake-seeded pools, each a full round robin
+ */
+export const buildRoundRobin = (seededTeamIds: string[], poolCount: number): BracketMatch[] => {
+  const pools = Math.max(1, Math.min(poolCount, Math.floor(seededTeamIds.length / 2) || 1));
+  const poolTeams: string[][] = Array.from({ length: pools }, () => []);
+
+  seededTeamIds.forEach((teamId, index) => {
+    const lap = Math.floor(index / pools);
+    const offset = index % pools;
+    poolTeams[lap % 2 === 0 ? offset : pools - 1 - offset].push(teamId);
+  });
+
+  return poolTeams.flatMap((teams, poolIndex) => {
+    const pool = poolIndex + 1;
+    // Circle method: fix the first team and rotate the rest each round
+    const ring: (string | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null];
+    const rounds = ring.length - 1;
+    const matches: BracketMatch[] = [];
+
+    for (let round = 1; round <= rounds; round++) {
+      let position = 1;
+      for (let i = 0; i < ring.length / 2; i++) {
+        const teamA = ring[i];
+        const teamB = ring[ring.length - 1 - i];
+        if (teamA && teamB) {
+          matches.push(createMatch("pool", round, position++, { pool, teamA, teamB }));
+        }
+      }
+      ring.splice(1, 0, ring.pop() as string | null);
+    }
+
+    return matches;
+  });
+};
+
+// ============================================
+// Results
+// ============================================
+
+const getLoser = (match: BracketMatch): string | null => {
+  if (!match.winner || match.bye) return null;
+  return match.winner === match.teamA ? match.teamB : match.teamA;
+};
+
+const isDecided = (match: BracketMatch) => match.winner !== null || match.bye;
+
+const placeTeam = (matches: BracketMatch[], targetId: string | null, slot: Slot | null, teamId: string | null) => {
+  if (!targetId || !slot || !teamId) return;
+  const target = matches.find((m) => m.id === targetId);
+  if (!target) return;
+  if (slot === "A") target.teamA = teamId;
+  else target.teamB = teamId;
+};
+
+const getSlotState = (matches: BracketMatch[], match: BracketMatch, slot: Slot): SlotState => {
+  if ((slot === "A" ? match.teamA : match.teamB) !== null) return "filled";
+
+  const feeder = matches.find(
+    (m) =>
+      (m.nextMatchId === match.id && m.nextSlot === slot) ||
+      (m.loserMatchId === match.id && m.loserSlot === slot)
+  );
+  // First-round slot with no team is a bye
+  if (!feeder) return "empty";
+  if (!isDecided(feeder)) return "pending";
+
+  const feedsWinner = feeder.nextMatchId === match.id && feeder.nextSlot === slot;
+  return (feedsWinner ? feeder.winner : getLoser(feeder)) ? "filled" : "empty";
+};
+
+/**
+ * Advances teams through byes: a match with one team and no possible
+ * opponent passes that team on, and a match that can never get any team is
+ * marked as a bye so it stops blocking the rounds after it.
+ */
+export const settleByes = (input: BracketMatch[]): BracketMatch[] => {
+  const matches = input.map((m) => ({ ...m }));
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const match of matches) {
+      if (match.bracket === "pool" || isDecided(match)) continue;
+
+      const a = getSlotState(matches, match, "A");
+      const b = getSlotState(matches, match, "B");
+      if (a === "pending" || b === "pending" || (a === "filled" && b === "filled")) continue;
+
+      match.bye = true;
+      match.winner = a === "filled" ? match.teamA : b === "filled" ? match.teamB : null;
+      placeTeam(matches, match.nextMatchId, match.nextSlot, match.winner);
+      changed = true;
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * A result can be corrected until the teams it sent onward have played
+ */
+export const canEditResult = (matches: BracketMatch[], match: BracketMatch): boolean => {
+  if (match.bye || !match.teamA || !match.teamB) return false;
+  const downstream = [match.nextMatchId, match.loserMatchId]
+    .map((id) => matches.find((m) => m.id === id))
+    .filter((m): m is BracketMatch => Boolean(m));
+  return downstream.every((m) => m.winner === null);
+};
+
+/**
+ * Tournament winner once the deciding match is played, otherwise null.
+ * Round-robin has no single champion when there are several pools.
+ */
+export const getChampion = (matches: BracketMatch[], teamIds: string[]): string | null => {
+  if (matches.length === 0) return null;
+
+  if (matches.every((m) => m.bracket === "pool")) {
+    const pools = new Set(matches.map((m) => m.pool));
+    if (pools.size !== 1 || matches.some((m) => m.winner === null)) return null;
+    return getPoolStandings(matches, matches[0].pool ?? 1, teamIds)[0]?.teamId ?? null;
+  }
+
+  const final =
+    matches.find((m) => m.bracket === "final") ||
+    matches.filter((m) => m.bracket === "winners").sort((a, b) => b.round - a.round)[0];
+  return final?.winner ?? null;
+};
+
+/**
+ * Pool table ordered by wins, then point differential, then points scored
+ */
+export const getPoolStandings = (matches: BracketMatch[], pool: number, teamIds: string[]): PoolStanding[] => {
+  const poolMatches = matches.filter((m) => m.bracket === "pool" && m.pool === pool);
+  const inPool = new Set(poolMatches.flatMap((m) => [m.teamA, m.teamB]).filter(Boolean) as string[]);
+  const table = new Map<string, PoolStanding>();
+
+  teamIds
+    .filter((id) => inPool.has(id))
+    .forEach((teamId) =>
+      table.set(teamId, { teamId, played: 0, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0 })
+    );
+
+  poolMatches.forEach((m) => {
+    if (m.winner === null || m.scoreA === null || m.scoreB === null || !m.teamA || !m.teamB) return;
+    const a = table.get(m.teamA);
+    const b = table.get(m.teamB);
+    if (!a || !b) return;
+    a.played++;
+    b.played++;
+    a.pointsFor += m.scoreA;
+    a.pointsAgainst += m.scoreB;
+    b.pointsFor += m.scoreB;
+    b.pointsAgainst += m.scoreA;
+    if (m.winner === m.teamA) {
+      a.wins++;
+      b.losses++;
+    } else {
+      b.wins++;
+      a.losses++;
+    }
+  });
+
+  return [...table.values()].sort(
+    (x, y) =>
+      y.wins - x.wins ||
+      y.pointsFor - y.pointsAgainst - (x.pointsFor - x.pointsAgainst) ||
+      y.pointsFor - x.pointsFor
+  );
+};
+
+// ============================================
+// Scheduling
+// ============================================
+
+/**
+ * How many matches must finish before this one can start, following the
+ * bracket links backwards. Round-robin matches are staged by round.
+ */
+const getStage = (matches: BracketMatch[], match: BracketMatch, memo: Map<string, number>): number => {
+  if (match.bracket === "pool") return match.round - 1;
+  const cached = memo.get(match.id);
+  if (cached !== undefined) return cached;
+
+  const feeders = matches.filter((m) => m.nextMatchId === match.id || m.loserMatchId === match.id);
+  const stage = feeders.length === 0 ? 0 : 1 + Math.max(...feeders.map((f) => getStage(matches, f, memo)));
+  memo.set(match.id, stage);
+  return stage;
+};
+
+const toTimeInput = (date: Date): string =>
+  `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+
+/**
+ * Why a court can't host a match from start to end, or null when it can:
+ * the venue has to be open and no session may have the court booked.
+ */
+export const getCourtUnavailableReason = (
+  courtId: string,
+  start: Date,
+  end: Date,
+  venue?: Venue,
+  sessions: Session[] = []
+): string | null => {
+  if (!venue) return null;
+
+  const date = toDateInput(start);
+  if (toDateInput(end) !== date) return "Matches have to finish by midnight";
+
+  const startTime = toTimeInput(start);
+  const endTime = toTimeInput(end);
+  const hoursError = checkOpeningHours(venue, date, startTime, endTime);
+  if (hoursError) return hoursError;
+
+  const [conflict] = findConflicts({ date, startTime, endTime, venueId: venue.id, courtIds: [courtId] }, sessions);
+  return conflict
+    ? `The court is booked for ${conflict.session.title || "a session"} (${formatTime(
+        conflict.session.startTime
+      )} - ${formatTime(conflict.session.endTime)})`
+    : null;
+};
+
+/**
+ * Assigns courts and start times to every unplayed match that doesn't have
+ * them yet, each at the earliest time a court is free. Each stage starts
+ * after the previous one's last match so a team is never scheduled before
+ * the match that sends it there. Matches that don't fit within
+ * MAX_SCHEDULE_DAYS, and every stage after them, stay unscheduled.
+ */
+export const assignSchedule = (input: BracketMatch[], options: ScheduleOptions): BracketMatch[] => {
+  const { courtIds, startAt, matchMinutes, venue, sessions } = options;
+  if (courtIds.length === 0) return input;
+
+  const matches = input.map((m) => ({ ...m }));
+  const memo = new Map<string, number>();
+  const stages = new Map<number, BracketMatch[]>();
+  const slotMs = matchMinutes * 60000;
+  const horizon = startAt.getTime() + MAX_SCHEDULE_DAYS * DAY_MS;
+
+  // Court time taken by matches that already have a slot
+  const booked = matches
+    .filter((m) => m.courtId && m.scheduledAt)
+    .map((m) => ({ courtId: m.courtId as string, start: new Date(m.scheduledAt as string).getTime() }));
+  const isCourtFree = (courtId: string, start: number) =>
+    !booked.some((b) => b.courtId === courtId && start < b.start + slotMs && b.start < start + slotMs) &&
+    !getCourtUnavailableReason(courtId, new Date(start), new Date(start + slotMs), venue, sessions);
+
+  matches
+    .filter((m) => !m.bye && m.winner === null)
+    .forEach((m) => {
+      const stage = getStage(matches, m, memo);
+      stages.set(stage, [...(stages.get(stage) || []), m]);
+    });
+
+  let stageStart = startAt.getTime();
+  let stuck = false;
+  [...stages.keys()]
+    .sort((a, b) => a - b)
+    .forEach((stage) => {
+      if (stuck) return;
+      let stageEnd = stageStart;
+
+      (stages.get(stage) || []).forEach((match) => {
+        if (match.courtId && match.scheduledAt) {
+          stageEnd = Math.max(stageEnd, new Date(match.scheduledAt).getTime() + slotMs);
+          return;
+        }
+
+        for (let start = stageStart; start + slotMs <= horizon; start += slotMs) {
+          const courtId = courtIds.find((id) => isCourtFree(id, start));
+          if (courtId) {
+            match.courtId = courtId;
+            match.scheduledAt = new Date(start).toISOString();
+            booked.push({ courtId, start });
+            stageEnd = Math.max(stageEnd, start + slotMs);
+            return;
+          }
+        }
+        stuck = true;
+      });
+
+      stageStart = stageEnd;
+    });
+
+  return matches;
+};
+
+/**
+ * Unplayed matches still waiting for a court and time
+ */
+export const countUnscheduled = (matches: BracketMatch[]): number =>
+  matches.filter((m) => !m.bye && m.winner === null && !(m.courtId && m.scheduledAt)).length;
+
+/**
+ * "Round 1", "Semifinals", "Final", "Losers Round 3", "Losers Final", "Grand Final"
+ */
+export const describeRound = (side: BracketSide, round: number, totalRounds: number): string => {
+  if (side === "final") return "Grand Final";
+  const prefix = side === "losers" ? "Losers " : "";
+  if (round === totalRounds) return `${prefix}Final`;
+  if (side === "winners" && round === totalRounds - 1) return "Semifinals";
+  return `${prefix}Round ${round}`;
+};
+
+/**
+ * Formats a date as "YYYY-MM-DDTHH:mm" in local time for datetime-local inputs
+ */
+export const toDateTimeInput = (date: Date): string =>
+  `${toDateInput(date)}T${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
@@ -0,0 +1,112 @@
+/**
+ * Date math for the session calendar's month, week and day views
+ */
+
+import type { Session } from "../stores/SessionStore";
+import { getColorFromName } from "./colorUtils";
+import { toDateInput } from "./recurrenceUtils";
+
+export type CalendarView = "month" | "week" | "day";
+
+// Hours shown on the week/day time grid
+export const CALENDAR_START_HOUR = 6;
+export const CALENDAR_END_HOUR = 23;
+
+const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Sunday of the week containing the given date
+ */
+export const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -date.getDay());
+
+export const isSameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Days shown for a view. Month views are padded to whole weeks so the grid
+ * always starts on Sunday.
+ */
+export const getViewDays = (view: CalendarView, anchor: Date): Date[] => {
+  if (view === "day") return [startOfDay(anchor)];
+
+  if (view === "week") {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+
+  const firstOfMonth = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const lastOfMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const start = startOfWeek(firstOfMonth);
+  const end = addDays(startOfWeek(lastOfMonth), 6);
+  const count = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  return Array.from({ length: count }, (_, i) => addDays(start, i));
+};
+
+/**
+ * Inclusive "YYYY-MM-DD" range to fetch for a view
+ */
+export const getViewRange = (view: CalendarView, anchor: Date): { from: string; to: string } => {
+  const days = getViewDays(view, anchor);
+  return { from: toDateInput(days[0]), to: toDateInput(days[days.length - 1]) };
+};
+
+/**
+ * Moves the anchor one view-length forward (1) or back (-1)
+ */
+export const shiftAnchor = (view: CalendarView, anchor: Date, direction: 1 | -1): Date => {
+  if (view === "day") return addDays(anchor, direction);
+  if (view === "week") return addDays(anchor, direction * 7);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+};
+
+export const getViewTitle = (view: CalendarView, anchor: Date): string => {
+  if (view === "month") {
+    return anchor.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  }
+  if (view === "day") {
+    return anchor.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+  }
+  const days = getViewDays("week", anchor);
+  const first = days[0].toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  const last = days[6].toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+  return `${first} - ${last}`;
+};
+
+/**
+ * Groups sessions by local "YYYY-MM-DD", each day sorted by start time
+ */
+export const groupSessionsByDay = (sessions: Session[]): Record<string, Session[]> => {
+  const groups: Record<string, Session[]> = {};
+  sessions.forEach((session) => {
+    const key = toDateInput(new Date(session.date));
+    (groups[key] = groups[key] || []).push(session);
+  });
+  Object.values(groups).forEach((day) => day.sort((a, b) => a.startTime.localeCompare(b.startTime)));
+  return groups;
+};
+
+/**
+ * "HH:mm" as fractional hours, e.g. "18:30" -> 18.5
+ */
+export const timeToHours = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours + minutes / 60;
+};
+
+/**
+ * Stable color per venue so the same venue looks the same in every view
+ */
+export const getVenueColor = (session: Session): string =>
+  getColorFromName(session.venueId?._id || session.venueId?.name || "");
@@ -0,0 +1,87 @@
+/**
+ * Club activity stats: date-range presets, monthly buckets and leaderboards
+ *
+ * The server returns per-member totals for the requested range; ranking and
+ * win rates are worked out here so officers can re-sort without refetching.
+ */
+
+import type { ClubMemberStats, ClubStatsMonth } from "../stores/ClubStore";
+import { parseDateInput, toDateInput } from "./recurrenceUtils";
+
+export type StatsRangePreset = "30d" | "90d" | "12m" | "custom";
+
+export interface StatsRange {
+  from: string; // "YYYY-MM-DD", inclusive
+  to: string;
+}
+
+export const STATS_RANGE_LABELS: Record<StatsRangePreset, string> = {
+  "30d": "Last 30 days",
+  "90d": "Last 3 months",
+  "12m": "Last 12 months",
+  custom: "Custom",
+};
+
+// Fewer matches than this and a win rate says more about luck than form
+export const MIN_MATCHES_FOR_WIN_RATE = 3;
+
+export const getPresetRange = (preset: Exclude<StatsRangePreset, "custom">, now: Date = new Date()): StatsRange => {
+  const from = new Date(now);
+  if (preset === "30d") from.setDate(from.getDate() - 29);
+  if (preset === "90d") from.setMonth(from.getMonth() - 3);
+  if (preset === "12m") {
+    from.setMonth(from.getMonth() - 11);
+    from.setDate(1);
+  }
+  return { from: toDateInput(from), to: toDateInput(now) };
+};
+
+/**
+ * Wins over matches played, or null when there are no matches to judge by
+ */
+export const getWinRate = (member: Pick<ClubMemberStats, "wins" | "matchesPlayed">): number | null =>
+  member.matchesPlayed > 0 ? member.wins / member.matchesPlayed : null;
+
+export const formatWinRate = (rate: number | null): string =>
+  rate === null ? "–" : `${Math.round(rate * 100)}%`;
+
+/**
+ * Most sessions attended first; ties go to whoever played more matches
+ */
+export const rankByActivity = (members: ClubMemberStats[]): ClubMemberStats[] =>
+  members
+    .filter((m) => m.sessionsAttended > 0)
+    .sort((a, b) => b.sessionsAttended - a.sessionsAttended || b.matchesPlayed - a.matchesPlayed);
+
+/**
+ * Best win rate first among members with enough matches; ties go to more wins
+ */
+export const rankByWinRate = (members: ClubMemberStats[]): ClubMemberStats[] =>
+  members
+    .filter((m) => m.matchesPlayed >= MIN_MATCHES_FOR_WIN_RATE)
+    .sort((a, b) => (getWinRate(b) ?? 0) - (getWinRate(a) ?? 0) || b.wins - a.wins);
+
+/**
+ * One bucket per calendar month in the range, zero-filled where the club was quiet
+ */
+export const fillMonths = (months: ClubStatsMonth[], range: StatsRange): ClubStatsMonth[] => {
+  const byMonth = new Map(months.map((m) => [m.month, m]));
+  const cursor = parseDateInput(range.from);
+  cursor.setDate(1);
+  const end = parseDateInput(range.to);
+  const filled: ClubStatsMonth[] = [];
+
+  while (cursor <= end) {
+    const key = toDateInput(cursor).slice(0, 7);
+    filled.push(byMonth.get(key) || { month: key, sessions: 0, attendances: 0 });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+
+  return filled;
+};
+
+/**
+ * "2026-03" -> "Mar 2026"
+ */
+export const formatMonth = (month: string): string =>
+  parseDateInput(`${month}-01`).toLocaleDateString("en-US", { month: "short", year: "numeric" });
@@ -0,0 +1,39 @@
+/**
+ * What each club role may do to other members
+ *
+ * Owners run everything. Officers handle the door: they approve requests and
+ * can remove plain members, but only the owner hands out or takes away roles.
+ */
+
+import type { ClubRole } from "../stores/ClubStore";
+
+const ROLE_RANK: Record<ClubRole, number> = {
+  owner: 3,
+  officer: 2,
+  member: 1,
+};
+
+export const canManageClub = (role: ClubRole | null, isSiteAdmin = false): boolean =>
+  isSiteAdmin || role === "owner" || role === "officer";
+
+export const canRemoveMember = (
+  actor: ClubRole | null,
+  target: ClubRole,
+  isSiteAdmin = false
+): boolean => {
+  if (target === "owner") return false;
+  if (isSiteAdmin) return true;
+  return actor !== null && canManageClub(actor) && ROLE_RANK[actor] > ROLE_RANK[target];
+};
+
+export const canChangeRoles = (actor: ClubRole | null, isSiteAdmin = false): boolean =>
+  isSiteAdmin || actor === "owner";
+
+/**
+ * Sort owner first, then officers, then members by name
+ */
+export const compareMembers = (
+  a: { role: ClubRole; displayName: string | null },
+  b: { role: ClubRole; displayName: string | null }
+): number =>
+  ROLE_RANK[b.role] - ROLE_RANK[a.role] || (a.displayName || "").localeCompare(b.displayName || "");
@@ -0,0 +1,139 @@
+/**
+ * Overlap detection for scheduling sessions
+ *
+ * A new session clashes with an existing one on the same day when their
+ * times overlap and they share a venue or a coach. Cancelled sessions never
+ * clash. Back-to-back sessions (one ends at 10:00, the next starts at 10:00)
+ * are allowed, and so are parallel sessions on different courts of a venue.
+ */
+
+import type { Session } from "../stores/SessionStore";
+import { toDateInput } from "./recurrenceUtils";
+
+export interface SessionSlot {
+  date: string; // "YYYY-MM-DD"
+  startTime: string; // "HH:mm"
+  endTime: string;
+  // Leave out to skip the venue check (e.g. when only assigning a coach)
+  venueId?: string;
+  coachId?: string;
+  // Reserved courts; empty or missing means the whole venue
+  courtIds?: string[];
+}
+
+export type ConflictReason = "venue" | "coach";
+
+export interface SessionConflict {
+  date: string;
+  reasons: ConflictReason[];
+  session: Session;
+}
+
+// Latest a shifted session may end
+const LATEST_END_TIME = "23:00";
+const SLOT_STEP_MINUTES = 15;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number): string =>
+  `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+
+// Two bookings at one venue only clash if they share a court
+const courtsOverlap = (a?: string[], b?: string[]): boolean => {
+  if (!a || a.length === 0 || !b || b.length === 0) return true;
+  return a.some((id) => b.includes(id));
+};
+
+export const timesOverlap = (
+  startA: string,
+  endA: string,
+  startB: string,
+  endB: string
+): boolean => startA < endB && startB < endA;
+
+/**
+ * Existing sessions that clash with a slot
+ *
+ * @param excludeSessionId - The session being edited, so it doesn't clash with itself
+ */
+export const findConflicts = (
+  slot: SessionSlot,
+  sessions: Session[],
+  excludeSessionId?: string
+): SessionConflict[] => {
+  const conflicts: SessionConflict[] = [];
+
+  sessions.forEach((session) => {
+    if (session._id === excludeSessionId || session.status === "cancelled") return;
+    if (toDateInput(new Date(session.date)) !== slot.date) return;
+    if (!timesOverlap(slot.startTime, slot.endTime, session.startTime, session.endTime)) return;
+
+    const reasons: ConflictReason[] = [];
+    if (
+      slot.venueId &&
+      session.venueId?._id === slot.venueId &&
+      courtsOverlap(slot.courtIds, session.courtIds)
+    ) {
+      reasons.push("venue");
+    }
+    if (slot.coachId && session.coachId?._id === slot.coachId) reasons.push("coach");
+
+    if (reasons.length > 0) {
+      conflicts.push({ date: slot.date, reasons, session });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Conflicts for every slot of a (possibly recurring) request
+ */
+export const findConflictsForSlots = (
+  slots: SessionSlot[],
+  sessions: Session[],
+  excludeSessionId?: string
+): SessionConflict[] => slots.flatMap((slot) => findConflicts(slot, sessions, excludeSessionId));
+
+/**
+ * Earliest start time, at or after the requested one, where the same-length
+ * session fits on every slot's date without clashing. Returns null when
+ * nothing fits before LATEST_END_TIME.
+ */
+export const findNextFreeSlot = (
+  slots: SessionSlot[],
+  sessions: Session[],
+  excludeSessionId?: string
+): { startTime: string; endTime: string } | null => {
+  if (slots.length === 0) return null;
+
+  const duration = toMinutes(slots[0].endTime) - toMinutes(slots[0].startTime);
+  const latestEnd = toMinutes(LATEST_END_TIME);
+  let start = toMinutes(slots[0].startTime);
+
+  while (start + duration <= latestEnd) {
+    const startTime = fromMinutes(start);
+    const endTime = fromMinutes(start + duration);
+    const conflicts = findConflictsForSlots(
+      slots.map((slot) => ({ ...slot, startTime, endTime })),
+      sessions,
+      excludeSessionId
+    );
+
+    if (conflicts.length === 0) return { startTime, endTime };
+
+    // Jump past the latest-ending clash, rounded up to the next step
+    const blockingEnd = Math.max(...conflicts.map((c) => toMinutes(c.session.endTime)));
+    start = Math.ceil(blockingEnd / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES;
+  }
+
+  return null;
+};
+
+export const describeConflictReasons = (reasons: ConflictReason[]): string =>
+  reasons
+    .map((reason) => (reason === "venue" ? "same court" : "coach already booked"))
+    .join(" · ");
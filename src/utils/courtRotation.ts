@@ -0,0 +1,189 @@
+/**
+ * Court rotation for doubles open play.
+ *
+ * Each round fills as many courts as the player count allows, sits out the
+ * players who have played the most, and pairs the rest so that partners and
+ * opponents repeat as little as possible. Pairing is a randomized search
+ * seeded by the round number, so the same history always produces the same
+ * round on every client. When player ratings are known, teams on each court
+ * are also kept close in skill.
+ */
+
+import { getTeamRating } from "./matchUtils";
+
+export interface CourtMatch {
+  court: number; // 1-based
+  teamA: [string, string];
+  teamB: [string, string];
+}
+
+export interface RotationRound {
+  number: number; // 1-based
+  matches: CourtMatch[];
+  sittingOut: string[];
+}
+
+interface PairCounts {
+  partners: Map<string, number>;
+  opponents: Map<string, number>;
+  gamesPlayed: Map<string, number>;
+  sitOuts: Map<string, number>;
+  satOutLastRound: Set<string>;
+}
+
+// Repeat partners feel worse than repeat opponents
+const PARTNER_REPEAT_WEIGHT = 3;
+const OPPONENT_REPEAT_WEIGHT = 1;
+// One point of cost per 100 rating points between the two teams on a court
+const SKILL_GAP_WEIGHT = 1 / 100;
+const SEARCH_ITERATIONS = 300;
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const increment = (map: Map<string, number>, key: string) => {
+  map.set(key, (map.get(key) || 0) + 1);
+};
+
+// Small deterministic PRNG (mulberry32)
+const createRandom = (seed: number) => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const countHistory = (history: RotationRound[]): PairCounts => {
+  const counts: PairCounts = {
+    partners: new Map(),
+    opponents: new Map(),
+    gamesPlayed: new Map(),
+    sitOuts: new Map(),
+    satOutLastRound: new Set(history[history.length - 1]?.sittingOut || []),
+  };
+
+  history.forEach((round) => {
+    round.sittingOut.forEach((id) => increment(counts.sitOuts, id));
+    round.matches.forEach(({ teamA, teamB }) => {
+      increment(counts.partners, pairKey(teamA[0], teamA[1]));
+      increment(counts.partners, pairKey(teamB[0], teamB[1]));
+      teamA.forEach((a) => teamB.forEach((b) => increment(counts.opponents, pairKey(a, b))));
+      [...teamA, ...teamB].forEach((id) => increment(counts.gamesPlayed, id));
+    });
+  });
+
+  return counts;
+};
+
+const matchCost = (
+  teamA: [string, string],
+  teamB: [string, string],
+  counts: PairCounts,
+  ratings?: Record<string, number>
+): number => {
+  const partnerRepeats =
+    (counts.partners.get(pairKey(teamA[0], teamA[1])) || 0) +
+    (counts.partners.get(pairKey(teamB[0], teamB[1])) || 0);
+  let opponentRepeats = 0;
+  teamA.forEach((a) => teamB.forEach((b) => {
+    opponentRepeats += counts.opponents.get(pairKey(a, b)) || 0;
+  }));
+  const skillGap = ratings
+    ? Math.abs(getTeamRating(teamA, ratings) - getTeamRating(teamB, ratings))
+    : 0;
+  return (
+    partnerRepeats * PARTNER_REPEAT_WEIGHT +
+    opponentRepeats * OPPONENT_REPEAT_WEIGHT +
+    skillGap * SKILL_GAP_WEIGHT
+  );
+};
+
+// Best of the three ways to split four players into two teams
+const bestSplit = (group: string[], counts: PairCounts, ratings?: Record<string, number>) => {
+  const [a, b, c, d] = group;
+  const options: [[string, string], [string, string]][] = [
+    [[a, b], [c, d]],
+    [[a, c], [b, d]],
+    [[a, d], [b, c]],
+  ];
+  return options
+    .map(([teamA, teamB]) => ({ teamA, teamB, cost: matchCost(teamA, teamB, counts, ratings) }))
+    .reduce((best, option) => (option.cost < best.cost ? option : best));
+};
+
+/**
+ * Picks who sits out: players with the most games (then fewest sit-outs)
+ * sit first, and nobody sits two rounds in a row if it can be avoided.
+ */
+const chooseSitOuts = (
+  playerIds: string[],
+  sitOutCount: number,
+  counts: PairCounts,
+  random: () => number
+): string[] => {
+  if (sitOutCount <= 0) return [];
+
+  return shuffle(playerIds, random)
+    .sort((x, y) => {
+      const lastX = counts.satOutLastRound.has(x) ? 1 : 0;
+      const lastY = counts.satOutLastRound.has(y) ? 1 : 0;
+      if (lastX !== lastY) return lastX - lastY;
+      const sitDiff = (counts.sitOuts.get(x) || 0) - (counts.sitOuts.get(y) || 0);
+      if (sitDiff !== 0) return sitDiff;
+      return (counts.gamesPlayed.get(y) || 0) - (counts.gamesPlayed.get(x) || 0);
+    })
+    .slice(0, sitOutCount);
+};
+
+/**
+ * Generates the next round for the given players, taking previous rounds
+ * and (optionally) player ratings into account.
+ */
+export const generateRound = (
+  playerIds: string[],
+  courtCount: number,
+  history: RotationRound[] = [],
+  ratings?: Record<string, number>
+): RotationRound => {
+  const roundNumber = history.length + 1;
+  const counts = countHistory(history);
+  const random = createRandom(roundNumber * 7919 + playerIds.length);
+
+  const courtsInUse = Math.max(0, Math.min(courtCount, Math.floor(playerIds.length / 4)));
+  const sittingOut = chooseSitOuts(playerIds, playerIds.length - courtsInUse * 4, counts, random);
+  const active = playerIds.filter((id) => !sittingOut.includes(id));
+
+  let bestMatches: CourtMatch[] = [];
+  let bestCost = Infinity;
+
+  for (let i = 0; i < SEARCH_ITERATIONS && courtsInUse > 0; i++) {
+    const order = shuffle(active, random);
+    let cost = 0;
+    const matches: CourtMatch[] = [];
+
+    for (let court = 0; court < courtsInUse; court++) {
+      const split = bestSplit(order.slice(court * 4, court * 4 + 4), counts, ratings);
+      cost += split.cost;
+      matches.push({ court: court + 1, teamA: split.teamA, teamB: split.teamB });
+    }
+
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestMatches = matches;
+      if (cost === 0) break;
+    }
+  }
+
+  return { number: roundNumber, matches: bestMatches, sittingOut };
+};
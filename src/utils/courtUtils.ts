@@ -0,0 +1,72 @@
+/**
+ * Court helpers: which sessions hold which courts, and labels for display
+ */
+
+import type { Session } from "../stores/SessionStore";
+import type { Court } from "../stores/VenueStore";
+import { getSessionDateTime } from "./sessionUtils";
+import { isSameDay } from "./calendarUtils";
+
+export interface CourtOccupancy {
+  court: Court;
+  // Session on the court right now, if any
+  current?: Session;
+  // Next session later today
+  next?: Session;
+}
+
+/**
+ * Whether a session holds a court. Sessions without reserved courts take
+ * the whole venue.
+ */
+export const sessionUsesCourt = (session: Session, courtId: string): boolean =>
+  !session.courtIds || session.courtIds.length === 0 || session.courtIds.includes(courtId);
+
+/**
+ * What's on each of a venue's courts today
+ */
+export const getCourtOccupancy = (
+  venueId: string,
+  courts: Court[],
+  sessions: Session[],
+  now: Date = new Date()
+): CourtOccupancy[] => {
+  const todays = sessions
+    .filter(
+      (s) =>
+        s.venueId?._id === venueId &&
+        s.status !== "cancelled" &&
+        isSameDay(new Date(s.date), now)
+    )
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  return courts.map((court) => {
+    const onCourt = todays.filter((s) => sessionUsesCourt(s, court.id));
+    return {
+      court,
+      current: onCourt.find(
+        (s) => getSessionDateTime(s, s.startTime) <= now && getSessionDateTime(s, s.endTime) > now
+      ),
+      next: onCourt.find((s) => getSessionDateTime(s, s.startTime) > now),
+    };
+  });
+};
+
+/**
+ * "Court 1, Court 3", or "All courts" when a session takes the whole venue
+ */
+export const describeCourts = (courtIds: string[] | undefined, courts: Court[]): string => {
+  if (!courtIds || courtIds.length === 0) return "All courts";
+  return courts
+    .filter((court) => courtIds.includes(court.id))
+    .map((court) => court.name)
+    .join(", ");
+};
+
+/**
+ * Short feature list, e.g. "Indoor · Lights · Acrylic"
+ */
+export const describeCourtFeatures = (court: Court, surfaceLabel: string): string =>
+  [court.indoor ? "Indoor" : "Outdoor", court.lights ? "Lights" : null, surfaceLabel]
+    .filter(Boolean)
+    .join(" · ");
@@ -0,0 +1,78 @@
+/**
+ * Directions deep links and rough travel-time estimates
+ *
+ * Estimates use straight-line distance stretched by a detour factor and
+ * typical city speeds. They're a "when should I leave" hint, not routing.
+ */
+
+import { distanceKm, LatLng } from "./geoUtils";
+
+export type TravelMode = "driving" | "walking";
+
+export interface DirectionsLink {
+  app: "google" | "waze" | "apple";
+  label: string;
+  url: string;
+}
+
+export interface TravelEstimate {
+  km: number;
+  minutes: number;
+  mode: TravelMode;
+}
+
+// Roads are rarely straight; scale the straight line to approximate route length
+const ROUTE_DETOUR_FACTOR = 1.3;
+// Average door-to-door speeds in km/h, traffic included
+const TRAVEL_SPEED_KMH: Record<TravelMode, number> = {
+  driving: 20,
+  walking: 4.5,
+};
+// Below this straight-line distance walking is the sensible estimate
+const WALKING_MAX_KM = 1.5;
+// Allowance for parking and finding the court
+const ARRIVAL_BUFFER_MINUTES = 10;
+
+export const getDirectionsLinks = (destination: LatLng): DirectionsLink[] => {
+  const { latitude, longitude } = destination;
+  return [
+    {
+      app: "google",
+      label: "Google Maps",
+      url: `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`,
+    },
+    {
+      app: "waze",
+      label: "Waze",
+      url: `https://waze.com/ul?ll=${latitude},${longitude}&navigate=yes`,
+    },
+    {
+      app: "apple",
+      label: "Apple Maps",
+      url: `https://maps.apple.com/?daddr=${latitude},${longitude}`,
+    },
+  ];
+};
+
+export const estimateTravel = (from: LatLng, to: LatLng): TravelEstimate => {
+  const km = distanceKm(from, to);
+  const mode: TravelMode = km <= WALKING_MAX_KM ? "walking" : "driving";
+  const minutes = Math.max(1, Math.round(((km * ROUTE_DETOUR_FACTOR) / TRAVEL_SPEED_KMH[mode]) * 60));
+  return { km, minutes, mode };
+};
+
+/**
+ * "8 min", "1 h 25 min"
+ */
+export const formatTravelTime = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+/**
+ * When to set off to arrive a little before `startsAt`
+ */
+export const getLeaveBy = (startsAt: Date, estimate: TravelEstimate): Date =>
+  new Date(startsAt.getTime() - (estimate.minutes + ARRIVAL_BUFFER_MINUTES) * 60 * 1000);
@@ -0,0 +1,90 @@
+/**
+ * Distance and map-clustering helpers
+ */
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const hasCoordinates = <T extends Partial<LatLng>>(
+  item: T
+): item is T & LatLng => typeof item.latitude === "number" && typeof item.longitude === "number";
+
+/**
+ * Straight-line (great-circle) distance in kilometres
+ */
+export const distanceKm = (from: LatLng, to: LatLng): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * "350 m" under a kilometre, "2.4 km" under ten, "18 km" beyond
+ */
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.round(km * 100) * 10} m`;
+  if (km < 10) return `${km.toFixed(1)} km`;
+  return `${Math.round(km)} km`;
+};
+
+/**
+ * Items nearest first; items without coordinates go last in their original order
+ */
+export const sortByDistance = <T extends Partial<LatLng>>(items: T[], origin: LatLng | null): T[] => {
+  if (!origin) return items;
+  return [...items].sort((a, b) => {
+    const da = hasCoordinates(a) ? distanceKm(origin, a) : Infinity;
+    const db = hasCoordinates(b) ? distanceKm(origin, b) : Infinity;
+    return da - db;
+  });
+};
+
+/**
+ * "14.5995, 120.9842" → coordinates, or null when it doesn't parse
+ */
+export const parseCoordinates = (text: string): LatLng | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
+
+export interface PointCluster<T> {
+  items: T[];
+  // Mean position of the members, in the same units as the input points
+  x: number;
+  y: number;
+}
+
+/**
+ * Groups projected (pixel) points that share a grid cell. Cheap and stable
+ * enough for the few dozen venue markers we plot.
+ */
+export const clusterByGrid = <T>(
+  points: { x: number; y: number; item: T }[],
+  cellSize: number
+): PointCluster<T>[] => {
+  const cells = new Map<string, { x: number; y: number; item: T }[]>();
+
+  points.forEach((point) => {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), point]);
+  });
+
+  return Array.from(cells.values()).map((members) => ({
+    items: members.map((m) => m.item),
+    x: members.reduce((sum, m) => sum + m.x, 0) / members.length,
+    y: members.reduce((sum, m) => sum + m.y, 0) / members.length,
+  }));
+};
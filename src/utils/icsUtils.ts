@@ -0,0 +1,182 @@
+/**
+ * iCalendar (.ics) generation for sessions
+ *
+ * Times are written in Asia/Manila with a matching VTIMEZONE so calendar apps
+ * show the right local time wherever the file is opened. Re-importing a file
+ * after a session changes updates the existing event: UID stays fixed and
+ * SEQUENCE follows the server's revision counter.
+ */
+
+import type { Session } from "../stores/SessionStore";
+
+export const CALENDAR_TIMEZONE = "Asia/Manila";
+
+const PRODUCT_ID = "-//Pickleball Sessions//EN";
+const UID_DOMAIN = "pickleball-sessions";
+const MAX_LINE_OCTETS = 75;
+
+// Manila has no daylight saving time, so a single STANDARD block is enough
+const MANILA_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${CALENDAR_TIMEZONE}`,
+  "BEGIN:STANDARD",
+  "DTSTART:19700101T000000",
+  "TZOFFSETFROM:+0800",
+  "TZOFFSETTO:+0800",
+  "TZNAME:PST",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+/**
+ * Escapes TEXT values per RFC 5545
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line at 75 octets, continuing with a leading space
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+/**
+ * UTC timestamp in iCalendar basic format, e.g. 20250101T093000Z
+ */
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Calendar date of the session in Manila, as YYYYMMDD
+ */
+const getManilaDate = (session: Session): string => {
+  // en-CA formats as YYYY-MM-DD
+  const formatted = new Intl.DateTimeFormat("en-CA", {
+    timeZone: CALENDAR_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(session.date));
+  return formatted.replace(/-/g, "");
+};
+
+const formatLocalDateTime = (session: Session, time: string): string =>
+  `${getManilaDate(session)}T${time.replace(":", "")}00`;
+
+/**
+ * Revision number for the event. Sessions saved before the server kept a
+ * revision count start at 0.
+ */
+const getSequence = (session: Session): number => session.revision ?? 0;
+
+const buildEvent = (session: Session, now: Date, origin: string): string[] => {
+  const venueName = session.venueId?.name || "";
+  const url = `${origin}/sessions/${session._id}`;
+  const descriptionParts = [
+    session.description,
+    session.coachId?.displayName ? `Coach: ${session.coachId.displayName}` : null,
+    url,
+  ].filter(Boolean) as string[];
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${session._id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART;TZID=${CALENDAR_TIMEZONE}:${formatLocalDateTime(session, session.startTime)}`,
+    `DTEND;TZID=${CALENDAR_TIMEZONE}:${formatLocalDateTime(session, session.endTime)}`,
+    `SUMMARY:${escapeText(session.title || `Open Play at ${venueName}`)}`,
+    `DESCRIPTION:${escapeText(descriptionParts.join("\n\n"))}`,
+    `LOCATION:${escapeText(venueName)}`,
+    `URL:${url}`,
+    `SEQUENCE:${getSequence(session)}`,
+    `STATUS:${session.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`,
+  ];
+
+  if (session.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatUtc(new Date(session.updatedAt))}`);
+  }
+  if (session.venueId?.latitude !== undefined && session.venueId?.longitude !== undefined) {
+    lines.push(`GEO:${session.venueId.latitude};${session.venueId.longitude}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/**
+ * Builds a VCALENDAR document for one or more sessions. Event links point
+ * at `origin`, the app's own address by default.
+ */
+export const buildSessionsCalendar = (
+  sessions: Session[],
+  calendarName?: string,
+  origin: string = window.location.origin
+): string => {
+  const now = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(calendarName ? [`X-WR-CALNAME:${escapeText(calendarName)}`] : []),
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    ...MANILA_VTIMEZONE,
+    ...sessions.flatMap((session) => buildEvent(session, now, origin)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+/**
+ * Triggers a browser download of an .ics file
+ */
+export const downloadIcs = (filename: string, content: string): void => {
+  const blob = new Blob([content], { type: "text/calendar;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".ics") ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads a single session as an .ics file
+ */
+export const downloadSessionIcs = (session: Session): void => {
+  const name = (session.title || session.venueId?.name || "session")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  downloadIcs(name || "session", buildSessionsCalendar([session]));
+};
@@ -0,0 +1,90 @@
+/**
+ * Challenge ladder rules: who can challenge whom, deadlines and reordering
+ *
+ * An entry may challenge anyone up to `challengeRange` places above it. If
+ * the challenger wins they take the defender's place and everyone between
+ * moves down one; if the defender wins nothing changes. A challenge that
+ * isn't played by its deadline counts as a win for the challenger.
+ */
+
+import type { Ladder, LadderChallenge, LadderEntry } from "../stores/LadderStore";
+
+export interface LadderPosition {
+  entryId: string;
+  position: number;
+}
+
+/**
+ * Team name for doubles, otherwise the player's name
+ */
+export const getEntryName = (entry: LadderEntry): string =>
+  entry.name || entry.players.map((p) => p.displayName || "Anonymous").join(" & ");
+
+export const getOpenChallenges = (ladder: Ladder): LadderChallenge[] =>
+  ladder.challenges.filter((c) => c.status === "open");
+
+export const isOverdue = (challenge: LadderChallenge, now: Date = new Date()): boolean =>
+  challenge.status === "open" && new Date(challenge.deadline).getTime() < now.getTime();
+
+/**
+ * Why the challenge can't be made, or null when it can
+ */
+export const getChallengeBlocker = (
+  ladder: Ladder,
+  challenger: LadderEntry,
+  defender: LadderEntry
+): string | null => {
+  if (defender.position >= challenger.position) return "You can only challenge players above you";
+  if (challenger.position - defender.position > ladder.challengeRange) {
+    return `You can challenge up to ${ladder.challengeRange} places above you`;
+  }
+
+  const open = getOpenChallenges(ladder);
+  const involved = (entryId: string) =>
+    open.some((c) => c.challengerId === entryId || c.defenderId === entryId);
+  if (involved(challenger._id)) return "Finish your open challenge first";
+  if (involved(defender._id)) return "Already in a challenge";
+
+  return null;
+};
+
+/**
+ * Entries the given entry could challenge right now
+ */
+export const getChallengeTargets = (ladder: Ladder, entry: LadderEntry): LadderEntry[] =>
+  ladder.entries.filter((e) => getChallengeBlocker(ladder, entry, e) === null);
+
+/**
+ * New positions after a result. A challenger win slots them into the
+ * defender's place and shifts the entries in between down one. The server
+ * applies the result; this previews it.
+ */
+export const reorderAfterChallenge = (
+  entries: LadderEntry[],
+  challenge: Pick<LadderChallenge, "challengerId" | "defenderId">,
+  winnerId: string
+): LadderPosition[] => {
+  const ordered = [...entries].sort((a, b) => a.position - b.position);
+  const challengerIndex = ordered.findIndex((e) => e._id === challenge.challengerId);
+  const defenderIndex = ordered.findIndex((e) => e._id === challenge.defenderId);
+
+  if (winnerId === challenge.challengerId && challengerIndex > defenderIndex && defenderIndex !== -1) {
+    const [challenger] = ordered.splice(challengerIndex, 1);
+    ordered.splice(defenderIndex, 0, challenger);
+  }
+
+  return ordered.map((entry, index) => ({ entryId: entry._id, position: index + 1 }));
+};
+
+/**
+ * "3 days left", "5 hours left", "Overdue"
+ */
+export const formatTimeLeft = (deadline: string, now: Date = new Date()): string => {
+  const ms = new Date(deadline).getTime() - now.getTime();
+  if (ms <= 0) return "Overdue";
+
+  const hours = Math.max(Math.floor(ms / 3600000), 1);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} left`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} left`;
+};
@@ -0,0 +1,44 @@
+/**
+ * Leaflet setup shared by every map: bundled assets and configured tiles
+ */
+
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import markerIcon from "leaflet/dist/images/marker-icon.png";
+import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
+import markerShadow from "leaflet/dist/images/marker-shadow.png";
+import { MAP_SATELLITE_TILES, MAP_TILES, TileProviderConfig } from "../config/env";
+
+// Leaflet guesses its marker image paths from the CSS location, which breaks
+// once Vite fingerprints the assets; point it at the bundled files instead
+L.Icon.Default.mergeOptions({
+  iconUrl: markerIcon,
+  iconRetinaUrl: markerIcon2x,
+  shadowUrl: markerShadow,
+});
+
+const toTileLayer = (config: TileProviderConfig): L.TileLayer =>
+  L.tileLayer(config.url, { attribution: config.attribution, maxZoom: config.maxZoom });
+
+/**
+ * Escapes text for popup and tooltip HTML
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Map with the configured base tiles, plus a Map/Satellite switch when a
+ * satellite source is configured. Call `map.remove()` on unmount.
+ */
+export const createMap = (container: HTMLElement, options?: L.MapOptions): L.Map => {
+  const map = L.map(container, options);
+  const base = toTileLayer(MAP_TILES).addTo(map);
+
+  if (MAP_SATELLITE_TILES) {
+    L.control.layers({ Map: base, Satellite: toTileLayer(MAP_SATELLITE_TILES) }).addTo(map);
+  }
+
+  return map;
+};
+
+export { L };
@@ -0,0 +1,93 @@
+/**
+ * Match scoring rules and player ratings
+ *
+ * Games are played to 11, win by 2, with either rally or side-out scoring.
+ * Ratings are Elo-based with a provisional period: a player's first matches
+ * move their rating faster, and the winning margin scales the change.
+ */
+
+export type MatchType = "singles" | "doubles";
+export type ScoringFormat = "rally" | "sideout";
+
+export const GAME_POINTS_TO_WIN = 11;
+export const GAME_WIN_BY = 2;
+
+export const DEFAULT_RATING = 1500;
+export const PROVISIONAL_MATCHES = 10;
+
+const BASE_K_FACTOR = 24;
+const PROVISIONAL_K_FACTOR = 48;
+
+export const SCORING_FORMAT_LABELS: Record<ScoringFormat, string> = {
+  rally: "Rally scoring",
+  sideout: "Side-out scoring",
+};
+
+/**
+ * Checks a final game score against the to-11, win-by-2 rule.
+ * Returns an error message, or null when the score is valid.
+ */
+export const validateGameScore = (scoreA: number, scoreB: number): string | null => {
+  if (!Number.isInteger(scoreA) || !Number.isInteger(scoreB) || scoreA < 0 || scoreB < 0) {
+    return "Scores must be whole numbers";
+  }
+
+  const high = Math.max(scoreA, scoreB);
+  const low = Math.min(scoreA, scoreB);
+
+  if (high < GAME_POINTS_TO_WIN) {
+    return `The winning side needs at least ${GAME_POINTS_TO_WIN} points`;
+  }
+  if (high - low < GAME_WIN_BY) {
+    return `Games must be won by ${GAME_WIN_BY}`;
+  }
+  // Past 11 the game ends as soon as someone leads by 2
+  if (high > GAME_POINTS_TO_WIN && high - low !== GAME_WIN_BY) {
+    return `A game that goes past ${GAME_POINTS_TO_WIN} ends at a ${GAME_WIN_BY}-point lead`;
+  }
+
+  return null;
+};
+
+/**
+ * Probability that a side rated ratingA beats a side rated ratingB
+ */
+export const expectedScore = (ratingA: number, ratingB: number): number =>
+  1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+
+/**
+ * Rating change for one player given their team's and the opponents'
+ * average ratings. Doubles teams are rated by the average of both partners.
+ */
+export const calculateRatingChange = (
+  teamRating: number,
+  opponentRating: number,
+  won: boolean,
+  pointDifference: number,
+  matchesPlayed: number
+): number => {
+  const k = matchesPlayed < PROVISIONAL_MATCHES ? PROVISIONAL_K_FACTOR : BASE_K_FACTOR;
+  // An 11-0 counts for more than an 11-9, but with diminishing returns
+  const marginMultiplier = Math.log(Math.abs(pointDifference) + 1) / Math.log(GAME_WIN_BY + 1);
+  const expected = expectedScore(teamRating, opponentRating);
+  return Math.round(k * marginMultiplier * ((won ? 1 : 0) - expected));
+};
+
+/**
+ * Average rating of a team, treating unrated players as DEFAULT_RATING
+ */
+export const getTeamRating = (playerIds: string[], ratings: Record<string, number>): number => {
+  if (playerIds.length === 0) return DEFAULT_RATING;
+  const total = playerIds.reduce((sum, id) => sum + (ratings[id] ?? DEFAULT_RATING), 0);
+  return total / playerIds.length;
+};
+
+/**
+ * Short skill label for a rating, used on badges
+ */
+export const getRatingTier = (rating: number): string => {
+  if (rating >= 1800) return "Advanced";
+  if (rating >= 1600) return "Intermediate+";
+  if (rating >= 1400) return "Intermediate";
+  return "Beginner";
+};
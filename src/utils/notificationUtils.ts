@@ -0,0 +1,21 @@
+/**
+ * Notification display utilities shared by the bell dropdown and notifications page
+ */
+
+/**
+ * Formats an ISO timestamp relative to now, e.g. "just now", "5m ago", "3d ago".
+ * Anything older than a week shows the date.
+ */
+export const formatTimeAgo = (iso: string, now: Date = new Date()): string => {
+  const minutes = Math.floor((now.getTime() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+};
@@ -0,0 +1,111 @@
+/**
+ * Venue opening hours and closure dates
+ *
+ * Venues without set hours are treated as always open. A blackout date
+ * closes the venue for the whole day regardless of its weekly hours.
+ */
+
+import type { BlackoutDate, DayHours, OpeningHours, Venue } from "../stores/VenueStore";
+import { WEEKDAY_LABELS, parseDateInput, toDateInput } from "./recurrenceUtils";
+import { formatTime } from "./sessionUtils";
+
+export const DEFAULT_OPENING_HOURS: OpeningHours = WEEKDAY_LABELS.map(() => ({
+  open: "06:00",
+  close: "22:00",
+  closed: false,
+}));
+
+/**
+ * The venue's weekly hours for a date, or null when the venue has none set
+ */
+export const getDayHours = (venue: Venue, date: Date): DayHours | null =>
+  venue.openingHours.length === 7 ? venue.openingHours[date.getDay()] : null;
+
+/**
+ * Local "YYYY-MM-DD" of a blackout date from the server. Stored dates are
+ * local midnight, which is still the previous day in UTC here, so they're
+ * read in local time rather than sliced from the ISO string.
+ */
+export const toBlackoutDateInput = (value: string): string =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : toDateInput(new Date(value));
+
+export const getBlackoutDate = (venue: Venue, date: Date): BlackoutDate | undefined =>
+  venue.blackoutDates.find((blackout) => blackout.date === toDateInput(date));
+
+/**
+ * Why a venue is shut all day on a date, or null when it opens
+ */
+export const getClosureReason = (venue: Venue, date: Date): string | null => {
+  const blackout = getBlackoutDate(venue, date);
+  if (blackout) return blackout.reason || "Closed";
+
+  const hours = getDayHours(venue, date);
+  if (hours?.closed) return `Closed on ${WEEKDAY_LABELS[date.getDay()]}`;
+
+  return null;
+};
+
+/**
+ * Error message when a session on `date` ("YYYY-MM-DD") from start to end
+ * falls outside the venue's hours, or null when it fits
+ */
+export const checkOpeningHours = (
+  venue: Venue,
+  date: string,
+  startTime: string,
+  endTime: string
+): string | null => {
+  const day = parseDateInput(date);
+  const label = day.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+  const closure = getClosureReason(venue, day);
+  if (closure) return `${venue.name} is closed on ${label} (${closure})`;
+
+  const hours = getDayHours(venue, day);
+  if (hours && (startTime < hours.open || endTime > hours.close)) {
+    return `${venue.name} is open ${formatDayHours(hours)} on ${label}`;
+  }
+
+  return null;
+};
+
+/**
+ * Error message for a day that closes before it opens, or null when valid
+ */
+export const validateOpeningHours = (openingHours: OpeningHours): string | null => {
+  const invalidDay = openingHours.findIndex((hours) => !hours.closed && hours.open >= hours.close);
+  return invalidDay === -1 ? null : `${WEEKDAY_LABELS[invalidDay]} must close after it opens`;
+};
+
+export const formatDayHours = (hours: DayHours): string =>
+  hours.closed ? "Closed" : `${formatTime(hours.open)} – ${formatTime(hours.close)}`;
+
+/**
+ * Weekly hours with runs of identical days merged, e.g.
+ * "Mon–Fri 6:00 AM – 10:00 PM · Sat–Sun Closed"
+ */
+export const summarizeOpeningHours = (openingHours: OpeningHours): string => {
+  if (openingHours.length !== 7) return "Open any time";
+
+  // Monday-first reads more naturally for a weekly schedule
+  const order = [1, 2, 3, 4, 5, 6, 0];
+  const runs: { from: number; to: number; text: string }[] = [];
+
+  order.forEach((day) => {
+    const text = formatDayHours(openingHours[day]);
+    const last = runs[runs.length - 1];
+    if (last && last.text === text) {
+      last.to = day;
+    } else {
+      runs.push({ from: day, to: day, text });
+    }
+  });
+
+  return runs
+    .map(({ from, to, text }) =>
+      from === to
+        ? `${WEEKDAY_LABELS[from]} ${text}`
+        : `${WEEKDAY_LABELS[from]}–${WEEKDAY_LABELS[to]} ${text}`
+    )
+    .join(" · ");
+};
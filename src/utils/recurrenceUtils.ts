@@ -0,0 +1,102 @@
+/**
+ * Recurrence utilities for repeating session series
+ */
+
+import type { SessionRecurrence } from "../stores/SessionStore";
+
+// Hard cap so a typo in the end date can't create years of sessions
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Parses a "YYYY-MM-DD" string as a local date (not UTC midnight)
+ */
+export const parseDateInput = (value: string): Date => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Formats a date as "YYYY-MM-DD" in local time
+ */
+export const toDateInput = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Explains what's wrong with a recurrence rule, or null when it's usable.
+ * An empty end date or count means the field was left blank, not "no end".
+ */
+export const getRecurrenceError = (
+  startDate: string,
+  recurrence: SessionRecurrence
+): string | null => {
+  if (recurrence.weekdays.length === 0) return "Pick at least one weekday to repeat on";
+  if (recurrence.endDate !== undefined) {
+    if (!recurrence.endDate) return "Pick the date the series ends";
+    if (startDate && recurrence.endDate < startDate) return "The series can't end before it starts";
+  }
+  if (recurrence.occurrences !== undefined && recurrence.occurrences < 1) {
+    return "Enter how many sessions the series has";
+  }
+  return null;
+};
+
+/**
+ * Expands a recurrence rule into the list of session dates it produces.
+ * Weeks are counted from the week containing the start date, so a biweekly
+ * series always skips the same weeks regardless of which weekdays are picked.
+ * Only a rule with neither an end date nor a count runs to the hard cap.
+ */
+export const generateOccurrenceDates = (
+  startDate: string,
+  recurrence: SessionRecurrence
+): string[] => {
+  if (!startDate || getRecurrenceError(startDate, recurrence)) return [];
+
+  const start = parseDateInput(startDate);
+  const end = recurrence.endDate !== undefined ? parseDateInput(recurrence.endDate) : null;
+  const limit = Math.min(
+    recurrence.occurrences ?? MAX_SERIES_OCCURRENCES,
+    MAX_SERIES_OCCURRENCES
+  );
+  const weekInterval = recurrence.frequency === "biweekly" ? 2 : 1;
+
+  // Sunday of the start week is the anchor for week numbering
+  const anchor = new Date(start);
+  anchor.setDate(anchor.getDate() - anchor.getDay());
+
+  const dates: string[] = [];
+  const cursor = new Date(start);
+
+  while (dates.length < limit) {
+    if (end && cursor > end) break;
+
+    const weekIndex = Math.floor(
+      Math.round((cursor.getTime() - anchor.getTime()) / 86400000) / 7
+    );
+    if (weekIndex % weekInterval === 0 && recurrence.weekdays.includes(cursor.getDay())) {
+      dates.push(toDateInput(cursor));
+    }
+
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return dates;
+};
+
+/**
+ * Short human-readable description, e.g. "Every 2 weeks on Tue, Thu"
+ */
+export const describeRecurrence = (recurrence: SessionRecurrence): string => {
+  const days = [...recurrence.weekdays]
+    .sort((a, b) => a - b)
+    .map((d) => WEEKDAY_LABELS[d])
+    .join(", ");
+  const prefix = recurrence.frequency === "biweekly" ? "Every 2 weeks" : "Weekly";
+  return days ? `${prefix} on ${days}` : prefix;
+};
@@ -0,0 +1,56 @@
+/**
+ * Session time and access utilities shared by session cards, check-in and scheduling
+ */
+
+import type { Session } from "../stores/SessionStore";
+
+// Players can self-check-in from 30 minutes before start until 30 minutes after
+export const CHECK_IN_OPENS_MINUTES_BEFORE = 30;
+export const CHECK_IN_CLOSES_MINUTES_AFTER = 30;
+
+/**
+ * Combines a session's date with an "HH:mm" time into a local Date
+ */
+export const getSessionDateTime = (session: Pick<Session, "date">, time: string): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const dateTime = new Date(session.date);
+  dateTime.setHours(hours, minutes, 0, 0);
+  return dateTime;
+};
+
+/**
+ * Whether a player may check themselves in right now
+ */
+export const isWithinCheckInWindow = (session: Session, now: Date = new Date()): boolean => {
+  const start = getSessionDateTime(session, session.startTime);
+  const opens = start.getTime() - CHECK_IN_OPENS_MINUTES_BEFORE * 60000;
+  const closes = start.getTime() + CHECK_IN_CLOSES_MINUTES_AFTER * 60000;
+  return now.getTime() >= opens && now.getTime() <= closes;
+};
+
+/**
+ * Formats "HH:mm" as "h:mm AM/PM"
+ */
+export const formatTime = (time: string): string => {
+  const [hours, minutes] = time.split(":");
+  const h = parseInt(hours);
+  const ampm = h >= 12 ? "PM" : "AM";
+  const hour12 = h % 12 || 12;
+  return `${hour12}:${minutes} ${ampm}`;
+};
+
+/**
+ * Members-only club sessions are open to that club's members; everything else to anyone
+ */
+export const canJoinClubSession = (
+  session: Pick<Session, "clubId" | "membersOnly">,
+  userClubs: { _id: string }[]
+): boolean => {
+  if (!session.membersOnly || !session.clubId) return true;
+  return userClubs.some((club) => club._id === session.clubId?._id);
+};
+
+/**
+ * Whether a session belongs on public listings like the venues page
+ */
+export const isPublicSession = (session: Pick<Session, "membersOnly">): boolean => !session.membersOnly;
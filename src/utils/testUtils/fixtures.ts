@@ -0,0 +1,42 @@
+/**
+ * Shared fixtures for the utility tests. Kept outside __tests__ so jest
+ * doesn't collect this file as a test suite.
+ */
+
+import type { Session } from "../../stores/SessionStore";
+import type { Venue } from "../../stores/VenueStore";
+import { DEFAULT_OPENING_HOURS } from "../openingHoursUtils";
+
+/**
+ * A two-hour open session on Monday 2026-03-02 at Riverside Courts
+ */
+export const makeSession = (overrides: Partial<Session> = {}): Session => ({
+  _id: "s1",
+  venueId: { _id: "v1", name: "Riverside Courts", status: "active" },
+  date: "2026-03-02T00:00:00.000Z",
+  startTime: "09:00",
+  endTime: "11:00",
+  coachId: null,
+  maxPlayers: 8,
+  attendees: [],
+  status: "open",
+  createdAt: "2026-02-01T00:00:00.000Z",
+  updatedAt: "2026-02-01T00:00:00.000Z",
+  ...overrides,
+});
+
+/**
+ * Riverside Courts with the default opening hours and no closures
+ */
+export const makeVenue = (overrides: Partial<Venue> = {}): Venue => ({
+  id: "v1",
+  name: "Riverside Courts",
+  status: "available",
+  attendees: [],
+  courts: [],
+  openingHours: DEFAULT_OPENING_HOURS,
+  blackoutDates: [],
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  ...overrides,
+});
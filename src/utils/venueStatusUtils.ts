@@ -0,0 +1,79 @@
+/**
+ * Venue status helpers
+ *
+ * A status can be scheduled: maintenance from Monday to Wednesday leaves the
+ * venue available until Monday and puts it back once Wednesday has passed.
+ */
+
+import type { Venue, VenueStatus } from "../stores/VenueStore";
+import { VENUE_STATUS_LABELS } from "../stores/VenueStore";
+
+export const VENUE_STATUS_STYLES: Record<VenueStatus, { badge: string; dot: string }> = {
+  available: {
+    badge: "bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200",
+    dot: "bg-green-600",
+  },
+  maintenance: {
+    badge: "bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200",
+    dot: "bg-amber-500",
+  },
+  closed: {
+    badge: "bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300",
+    dot: "bg-gray-500",
+  },
+  reserved: {
+    badge: "bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200",
+    dot: "bg-blue-500",
+  },
+};
+
+/**
+ * The status in force at `now`, taking a scheduled window into account
+ */
+export const getEffectiveStatus = (venue: Venue, now: Date = new Date()): VenueStatus => {
+  if (venue.status === "available") return "available";
+  if (venue.statusStartsAt && new Date(venue.statusStartsAt) > now) return "available";
+  if (venue.statusEndsAt && new Date(venue.statusEndsAt) <= now) return "available";
+  return venue.status;
+};
+
+export const isVenueAvailable = (venue: Venue, now: Date = new Date()): boolean =>
+  getEffectiveStatus(venue, now) === "available";
+
+const formatStatusTime = (iso: string): string =>
+  new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+/**
+ * "Maintenance Mar 3, 8:00 AM – Mar 5, 6:00 PM", or "Maintenance until Mar 5, 6:00 PM"
+ * once it has started. Null for an available venue.
+ */
+export const describeStatusWindow = (venue: Venue, now: Date = new Date()): string | null => {
+  if (venue.status === "available") return null;
+  if (venue.statusEndsAt && new Date(venue.statusEndsAt) <= now) return null;
+
+  const label = VENUE_STATUS_LABELS[venue.status];
+  const started = !venue.statusStartsAt || new Date(venue.statusStartsAt) <= now;
+
+  if (!started) {
+    const end = venue.statusEndsAt ? ` – ${formatStatusTime(venue.statusEndsAt)}` : "";
+    return `${label} from ${formatStatusTime(venue.statusStartsAt!)}${end}`;
+  }
+  return venue.statusEndsAt ? `${label} until ${formatStatusTime(venue.statusEndsAt)}` : label;
+};
+
+/**
+ * "2025-03-03T08:00" for a datetime-local input
+ */
+export const toDateTimeInput = (iso?: string): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
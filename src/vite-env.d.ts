@@ -4,6 +4,10 @@
 interface ImportMetaEnv {
   readonly VITE_API_URL?: string
   readonly VITE_SOCKET_URL?: string
+  readonly VITE_MAP_TILE_URL?: string
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string
+  readonly VITE_MAP_SATELLITE_URL?: string
+  readonly VITE_MAP_SATELLITE_ATTRIBUTION?: string
 }
 
 interface ImportMeta {